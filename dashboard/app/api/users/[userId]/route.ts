@@ -0,0 +1,36 @@
+import { NextResponse } from 'next/server';
+import { isAuthorized } from '@/app/lib/auth';
+import { deleteUser, getUser } from '@/app/lib/store';
+
+interface Params {
+  params: Promise<{ userId: string }>;
+}
+
+// GET /api/users/:userId[?version=n] - newest (or the given) version and the version list
+export async function GET(request: Request, { params }: Params) {
+  const { userId } = await params;
+  const versionParam = new URL(request.url).searchParams.get('version');
+  const version = versionParam === null ? undefined : Number(versionParam);
+  if (version !== undefined && !Number.isInteger(version)) {
+    return NextResponse.json({ error: 'version must be an integer' }, { status: 400 });
+  }
+
+  const user = await getUser(userId, version);
+  if (!user) {
+    return NextResponse.json({ error: version === undefined ? 'User not found' : 'Version not found' }, { status: 404 });
+  }
+  const { data, ...info } = user.current;
+  return NextResponse.json({ userId, ...info, versions: user.versions, data });
+}
+
+// DELETE /api/users/:userId - remove the user and every stored version
+export async function DELETE(request: Request, { params }: Params) {
+  if (!isAuthorized(request)) {
+    return NextResponse.json({ error: 'Missing or invalid upload token' }, { status: 401 });
+  }
+  const { userId } = await params;
+  if (!(await deleteUser(userId))) {
+    return NextResponse.json({ error: 'User not found' }, { status: 404 });
+  }
+  return new NextResponse(null, { status: 204 });
+}
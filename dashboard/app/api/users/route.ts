@@ -0,0 +1,37 @@
+import { NextResponse } from 'next/server';
+import { isAuthorized } from '@/app/lib/auth';
+import { listUsers, saveUpload } from '@/app/lib/store';
+import { validateUserData } from '@/app/lib/validate';
+
+// Exports are a few MB at most; anything far larger is not an export
+const MAX_UPLOAD_BYTES = 20 * 1024 * 1024;
+
+// GET /api/users - every user with their newest version
+export async function GET() {
+  return NextResponse.json({ users: await listUsers() });
+}
+
+// POST /api/users - store an extension export as the user's next version
+export async function POST(request: Request) {
+  if (!isAuthorized(request)) {
+    return NextResponse.json({ error: 'Missing or invalid upload token' }, { status: 401 });
+  }
+  if (Number(request.headers.get('content-length')) > MAX_UPLOAD_BYTES) {
+    return NextResponse.json({ error: 'Upload is too large' }, { status: 413 });
+  }
+
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: 'Body is not valid JSON' }, { status: 400 });
+  }
+  const { data, errors } = validateUserData(body);
+  if (!data) {
+    return NextResponse.json({ error: 'Invalid export', details: errors }, { status: 400 });
+  }
+
+  // The stored data, which may differ from the upload in its integrity
+  const saved = await saveUpload(data, request.headers.get('idempotency-key') || undefined);
+  return NextResponse.json({ userId: data.userId, ...saved.version, data: saved.data }, { status: saved.created ? 201 : 200 });
+}
@@ -0,0 +1,13 @@
+import { timingSafeEqual } from 'crypto';
+
+/**
+ * Writes (uploads, deletes) need `Authorization: Bearer <DASHBOARD_UPLOAD_TOKEN>` when that
+ * variable is set. Without it the API is open, which is only meant for local development.
+ */
+export function isAuthorized(request: Request): boolean {
+  const token = process.env.DASHBOARD_UPLOAD_TOKEN;
+  if (!token) return true;
+  const expected = Buffer.from(`Bearer ${token}`);
+  const actual = Buffer.from(request.headers.get('authorization') || '');
+  return actual.length === expected.length && timingSafeEqual(actual, expected);
+}
@@ -0,0 +1,36 @@
+import { BranchStats, ProjectStats, UserData } from './types';
+
+// Same id the extension uses for branch totals recorded before repository tracking
+export const LEGACY_REPO_ID = 'legacy';
+const LEGACY_REPO_NAME = 'Unknown repository';
+
+// A project entry from any version: { name, branches } now, a bare BranchStats before repository tracking
+type RawProjectEntry = Partial<BranchStats> & Partial<ProjectStats[string]>;
+
+type RawUserData = Omit<UserData, 'projects'> & { projects?: Record<string, RawProjectEntry> };
+
+/**
+ * Bring an export from any extension version to the current UserData shape.
+ */
+export function normalizeUserData(raw: RawUserData): UserData {
+  const projects: ProjectStats = {};
+  for (const [key, value] of Object.entries(raw.projects || {})) {
+    if (value && typeof value.branches === 'object') {
+      projects[key] = { name: value.name || key, branches: value.branches };
+      continue;
+    }
+    // Branch-only export: { [branch]: { inputTokens, outputTokens, queries } }
+    const legacy = projects[LEGACY_REPO_ID] || { name: LEGACY_REPO_NAME, branches: {} };
+    legacy.branches[key] = { inputTokens: value?.inputTokens || 0, outputTokens: value?.outputTokens || 0, queries: value?.queries || {} };
+    projects[LEGACY_REPO_ID] = legacy;
+  }
+
+  return {
+    ...raw,
+    usage: raw.usage || {},
+    tokenQuery: raw.tokenQuery || {},
+    languages: raw.languages || {},
+    hourly: raw.hourly || {},
+    projects
+  };
+}
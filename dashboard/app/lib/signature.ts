@@ -0,0 +1,39 @@
+import { createPublicKey, verify } from 'crypto';
+import { ExportIntegrity } from './types';
+
+/**
+ * Same encoding the extension signs (src/signing.ts): object keys sorted at every level, no whitespace,
+ * undefined members left out. Any difference here makes every signature look tampered.
+ */
+export function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map(v => canonicalJson(v === undefined ? null : v)).join(',')}]`;
+  if (value && typeof value === 'object') {
+    const obj = value as Record<string, unknown>;
+    const members = Object.keys(obj).filter(key => obj[key] !== undefined).sort()
+      .map(key => `${JSON.stringify(key)}:${canonicalJson(obj[key])}`);
+    return `{${members.join(',')}}`;
+  }
+  return JSON.stringify(value) ?? 'null';
+}
+
+/**
+ * Check the signature of an export exactly as it was received (before normalizing it).
+ * Returns the signer's public key (SPKI DER, base64) when the signature is valid.
+ */
+export function verifyExportSignature(raw: Record<string, unknown>): { integrity: Exclude<ExportIntegrity, 'keyChanged'>; signingKey?: string } {
+  const { signature, ...payload } = raw;
+  if (signature === undefined) return { integrity: 'unsigned' };
+
+  const sig = signature as { algorithm?: unknown; publicKey?: unknown; value?: unknown } | null;
+  if (!sig || sig.algorithm !== 'ed25519' || typeof sig.publicKey !== 'string' || typeof sig.value !== 'string') {
+    return { integrity: 'tampered' };
+  }
+  try {
+    const key = createPublicKey({ key: Buffer.from(sig.publicKey, 'base64'), format: 'der', type: 'spki' });
+    const valid = verify(null, Buffer.from(canonicalJson(payload), 'utf8'), key, Buffer.from(sig.value, 'base64'));
+    return valid ? { integrity: 'verified', signingKey: sig.publicKey } : { integrity: 'tampered' };
+  } catch {
+    // Not a key or not a signature at all
+    return { integrity: 'tampered' };
+  }
+}
@@ -0,0 +1,185 @@
+import fs from 'fs';
+import path from 'path';
+import { UserData } from './types';
+import { validateUserData } from './validate';
+
+// Every upload is kept as a version of its user's data; the newest is what the dashboard shows
+export interface StoredVersion {
+  version: number;
+  uploadedAt: string;
+  // Idempotency-Key of the request that created it, so a retried upload isn't stored twice
+  uploadId?: string;
+  data: UserData;
+}
+
+export type VersionInfo = Omit<StoredVersion, 'data'>;
+
+export interface UserSummary extends VersionInfo {
+  userId: string;
+  email: string;
+  versions: number;
+}
+
+interface StoredUser {
+  // Public key of the user's first verified upload. Kept apart from the versions so pruning never drops it.
+  trustedKey?: string;
+  versions: StoredVersion[];
+}
+
+interface StoreFile {
+  schemaVersion: 2;
+  users: { [userId: string]: StoredUser };
+}
+
+// Before schema 2, users were bare version lists and the trusted key was looked up in them
+interface StoreFileV1 {
+  schemaVersion: 1;
+  users: { [userId: string]: StoredVersion[] };
+}
+
+// Older versions beyond this count are dropped on upload
+const MAX_VERSIONS = Number(process.env.DASHBOARD_MAX_VERSIONS) || 20;
+
+// User ids come from requests, so users are kept without a prototype: ids like `__proto__` or
+// `constructor` are then ordinary keys instead of reaching Object.prototype
+function userRecord(users: StoreFile['users'] = {}): StoreFile['users'] {
+  return Object.assign(Object.create(null), users);
+}
+
+const trustedKeyOf = (versions: StoredVersion[]) => versions.find(v => v.data.integrity === 'verified')?.data.signingKey;
+
+function getStorePath(): string {
+  return process.env.DASHBOARD_DB_PATH || path.join(process.cwd(), 'data', 'dashboard-db.json');
+}
+
+// Exports dropped into app/data before the store existed become each user's first version
+function seedFromDataDir(): StoreFile {
+  const store: StoreFile = { schemaVersion: 2, users: userRecord() };
+  const dataDir = path.join(process.cwd(), 'app/data');
+  if (!fs.existsSync(dataDir)) return store;
+  const uploadedAt = new Date().toISOString();
+  for (const file of fs.readdirSync(dataDir).filter(f => f.endsWith('.json'))) {
+    try {
+      const json = JSON.parse(fs.readFileSync(path.join(dataDir, file), 'utf-8'));
+      for (const user of Array.isArray(json) ? json : [json]) {
+        const { data, errors } = validateUserData(user);
+        if (!data) {
+          console.error(`Skipping an export in ${file}:`, errors.join('; '));
+          continue;
+        }
+        const versions = [{ version: 1, uploadedAt, data }];
+        store.users[data.userId] = { trustedKey: trustedKeyOf(versions), versions };
+      }
+    } catch (e) {
+      console.error(`Error reading data file ${file}:`, e);
+    }
+  }
+  return store;
+}
+
+function readStore(): StoreFile {
+  const file = getStorePath();
+  if (!fs.existsSync(file)) {
+    const seeded = seedFromDataDir();
+    writeStore(seeded);
+    return seeded;
+  }
+  const stored: StoreFile | StoreFileV1 = JSON.parse(fs.readFileSync(file, 'utf-8'));
+  if (stored.schemaVersion === 1) {
+    const users = userRecord();
+    for (const [userId, versions] of Object.entries(stored.users)) users[userId] = { trustedKey: trustedKeyOf(versions), versions };
+    return { schemaVersion: 2, users };
+  }
+  return { ...stored, users: userRecord(stored.users) };
+}
+
+function writeStore(store: StoreFile) {
+  const file = getStorePath();
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  // Write-then-rename so a crash never leaves a half-written database
+  fs.writeFileSync(file + '.tmp', JSON.stringify(store));
+  fs.renameSync(file + '.tmp', file);
+}
+
+// Requests are handled concurrently; run read-modify-write cycles one at a time
+let lock: Promise<unknown> = Promise.resolve();
+
+function withStore<T>(fn: (store: StoreFile) => T): Promise<T> {
+  const run = lock.then(() => fn(readStore()));
+  lock = run.catch(() => undefined);
+  return run;
+}
+
+const versionInfo = ({ version, uploadedAt, uploadId }: StoredVersion): VersionInfo => ({ version, uploadedAt, uploadId });
+
+export function listUsers(): Promise<UserSummary[]> {
+  return withStore(store => Object.entries(store.users).map(([userId, { versions }]) => {
+    const latest = versions[versions.length - 1];
+    return { userId, email: latest.data.email, versions: versions.length, ...versionInfo(latest) };
+  }));
+}
+
+/**
+ * Newest version of every user, as the dashboard shows them.
+ */
+export function getLatestUsers(): Promise<UserData[]> {
+  return withStore(store => Object.values(store.users).map(({ versions }) => {
+    const data = versions[versions.length - 1].data;
+    return { ...data, avatarUrl: data.avatarUrl || `https://api.dicebear.com/7.x/avataaars/svg?seed=${data.userId}` };
+  }));
+}
+
+/**
+ * One version of a user's data (the newest when `version` is omitted) and the list of stored versions.
+ */
+export function getUser(userId: string, version?: number): Promise<{ current: StoredVersion; versions: VersionInfo[] } | null> {
+  return withStore(store => {
+    const versions = store.users[userId]?.versions;
+    if (!versions) return null;
+    const current = version === undefined ? versions[versions.length - 1] : versions.find(v => v.version === version);
+    return current ? { current, versions: versions.map(versionInfo) } : null;
+  });
+}
+
+/**
+ * Store `data` as the user's next version. An upload with the same id as an existing version
+ * returns that version instead (`created: false`). A verified upload signed by another key than
+ * the user's first verified one is stored as 'keyChanged', however many versions were pruned since;
+ * delete the user to accept a new key.
+ */
+export function saveUpload(data: UserData, uploadId?: string): Promise<{ version: VersionInfo; created: boolean; data: UserData }> {
+  return withStore(store => {
+    const user = store.users[data.userId] || { versions: [] };
+    const { versions } = user;
+    const existing = uploadId ? versions.find(v => v.uploadId === uploadId) : undefined;
+    if (existing) return { version: versionInfo(existing), created: false, data: existing.data };
+
+    // Anyone can sign an edited export with a fresh key, so only the key of the user's first verified upload is trusted
+    const keyChanged = data.integrity === 'verified' && !!user.trustedKey && data.signingKey !== user.trustedKey;
+
+    const stored: StoredVersion = {
+      version: (versions[versions.length - 1]?.version || 0) + 1,
+      uploadedAt: new Date().toISOString(),
+      uploadId,
+      data: keyChanged ? { ...data, integrity: 'keyChanged' } : data
+    };
+    store.users[data.userId] = {
+      trustedKey: user.trustedKey || (data.integrity === 'verified' ? data.signingKey : undefined),
+      versions: [...versions, stored].slice(-MAX_VERSIONS)
+    };
+    writeStore(store);
+    return { version: versionInfo(stored), created: true, data: stored.data };
+  });
+}
+
+/**
+ * Remove a user and all of their versions. Returns false when the user didn't exist.
+ */
+export function deleteUser(userId: string): Promise<boolean> {
+  return withStore(store => {
+    if (!store.users[userId]) return false;
+    delete store.users[userId];
+    writeStore(store);
+    return true;
+  });
+}
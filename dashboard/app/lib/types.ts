@@ -5,6 +5,10 @@ export interface DailyUsage {
   };
 }
 
+// 'measured' comes from language server counters, 'estimated' from inserted characters.
+// Older exports have no source and are estimated.
+export type UsageSource = 'measured' | 'estimated';
+
 export interface TokenQueryStats {
   [date: string]: {
     inputTokens: number;
@@ -12,19 +16,63 @@ export interface TokenQueryStats {
     queries: {
       [queryType: string]: number;
     };
+    source?: UsageSource;
+    // Estimated tokens per tokenizer id ('chars/4' for pre-tokenizer data)
+    tokenizers?: { [tokenizerId: string]: number };
+  };
+}
+
+export interface BranchStats {
+  inputTokens: number;
+  outputTokens: number;
+  queries: {
+    [queryType: string]: number;
   };
 }
 
+// Keyed by repository id (normalized remote URL or repo root), then branch.
+// Older exports are keyed by branch only; normalizeUserData() moves those under LEGACY_REPO_ID.
 export interface ProjectStats {
-  [branch: string]: {
-    inputTokens: number;
-    outputTokens: number;
-    queries: {
-      [queryType: string]: number;
+  [repoId: string]: {
+    name: string;
+    branches: {
+      [branch: string]: BranchStats;
+    };
+  };
+}
+
+// Per-day AI usage by VS Code language id, with tokens per file extension ('(none)' when there is none)
+export interface LanguageStats {
+  [date: string]: {
+    [languageId: string]: {
+      inputTokens: number;
+      outputTokens: number;
+      queries: number;
+      fileTypes: { [extension: string]: number };
     };
   };
 }
 
+// Per-day usage by hour of day (0-23), in the exporter's time zone
+export interface HourlyStats {
+  [date: string]: {
+    [hour: number]: { tokens: number; queries: number };
+  };
+}
+
+// Per-day counts of document changes by origin ('ai', 'paste', 'undoRedo', 'formatter', 'external', 'manual').
+// Only 'ai' changes are included in the token stats above.
+export interface ChangeSourceStats {
+  [date: string]: {
+    [source: string]: { changes: number; chars: number };
+  };
+}
+
+// Set by the dashboard when an export comes in, never taken from the export itself:
+// 'verified' = valid signature by the extension, 'unsigned' = older extension or signature removed,
+// 'tampered' = edited after signing, 'keyChanged' = valid, but signed by a different key than the user's earlier uploads
+export type ExportIntegrity = 'verified' | 'unsigned' | 'tampered' | 'keyChanged';
+
 export interface UserData {
   userId: string;
   email: string;
@@ -32,4 +80,12 @@ export interface UserData {
   usage: DailyUsage;
   tokenQuery: TokenQueryStats;
   projects: ProjectStats;
+  languages?: LanguageStats;
+  hourly?: HourlyStats;
+  // IANA zone the day and hour keys are in; older exports used UTC days
+  timeZone?: string;
+  changeSources?: ChangeSourceStats;
+  integrity?: ExportIntegrity;
+  // Public key of a verified signature (SPKI DER, base64)
+  signingKey?: string;
 }
@@ -0,0 +1,69 @@
+import { UserData } from './types';
+import { normalizeUserData } from './normalize';
+import { verifyExportSignature } from './signature';
+
+const DATE_KEY = /^\d{4}-\d{2}-\d{2}$/;
+const PER_DAY_FIELDS = ['usage', 'tokenQuery', 'languages', 'hourly', 'changeSources'] as const;
+
+type Json = Record<string, unknown>;
+
+function isObject(value: unknown): value is Json {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+function isCount(value: unknown): boolean {
+  return typeof value === 'number' && Number.isFinite(value) && value >= 0;
+}
+
+/**
+ * Check that an uploaded body is a user export (any extension version) and bring it to the
+ * current UserData shape, with its signature checked. Returns every problem found rather than stopping at the first.
+ */
+export function validateUserData(raw: unknown): { data?: UserData; errors: string[] } {
+  const errors: string[] = [];
+  if (!isObject(raw)) return { errors: ['Body must be a JSON object'] };
+
+  if (typeof raw.userId !== 'string' || !raw.userId.trim() || raw.userId.length > 200) {
+    errors.push('userId must be a non-empty string (at most 200 characters)');
+  }
+  if (typeof raw.email !== 'string' || !raw.email.trim()) errors.push('email must be a non-empty string');
+  if (!isObject(raw.usage)) errors.push('usage must be an object');
+  if (raw.tokenQuery !== undefined && !isObject(raw.tokenQuery)) errors.push('tokenQuery must be an object');
+  if (raw.projects !== undefined && !isObject(raw.projects)) errors.push('projects must be an object');
+  if (raw.timeZone !== undefined && typeof raw.timeZone !== 'string') errors.push('timeZone must be a string');
+
+  for (const field of PER_DAY_FIELDS) {
+    const days = raw[field];
+    if (days !== undefined && !isObject(days)) {
+      errors.push(`${field} must be an object`);
+      continue;
+    }
+    for (const [date, day] of Object.entries(days || {})) {
+      if (!DATE_KEY.test(date)) errors.push(`${field} has an invalid date key: ${date}`);
+      // The very first exports stored one number per day
+      else if (!isObject(day) && !(field === 'usage' && isCount(day))) errors.push(`${field}.${date} must be an object`);
+    }
+  }
+  for (const [date, models] of Object.entries(isObject(raw.usage) ? raw.usage : {})) {
+    if (isObject(models) && !Object.values(models).every(isCount)) errors.push(`usage.${date} must map models to token counts`);
+  }
+  for (const [date, day] of Object.entries(isObject(raw.tokenQuery) ? raw.tokenQuery : {})) {
+    if (isObject(day) && (!isCount(day.inputTokens) || !isCount(day.outputTokens))) {
+      errors.push(`tokenQuery.${date} must have inputTokens and outputTokens counts`);
+    }
+  }
+  if (errors.length > 0) return { errors };
+
+  // Numeric day totals were all Gemini 1.5 Pro usage, as the extension's own migration assumes
+  const usage: UserData['usage'] = {};
+  for (const [date, day] of Object.entries(raw.usage as Json)) {
+    usage[date] = typeof day === 'number' ? { 'Gemini 1.5 Pro': day } : (day as UserData['usage'][string]);
+  }
+  // Checked on the body as received; integrity fields in the body itself are never trusted
+  const rest: Json = { ...raw };
+  delete rest.signature;
+  delete rest.integrity;
+  delete rest.signingKey;
+  const data = normalizeUserData({ ...(rest as unknown as UserData), usage });
+  return { data: { ...data, userId: data.userId.trim(), ...verifyExportSignature(raw) }, errors };
+}
@@ -1,14 +1,14 @@
 
 "use client"
 
-import { useState, useMemo, useEffect } from 'react';
-import { UserData } from '@/app/lib/types';
+import { useState, useMemo, useEffect, Fragment } from 'react';
+import { UserData, LanguageStats, HourlyStats, ExportIntegrity } from '@/app/lib/types';
 import { ResponsiveContainer, BarChart, Bar, PieChart, Pie, Cell, XAxis, YAxis, CartesianGrid, Tooltip, Legend, AreaChart, Area } from 'recharts';
 import { 
   Upload, Users, LayoutDashboard, Database, Activity, GitBranch, 
   Calendar, Download, RefreshCw, Command, Zap, Search, Code, Bug, 
   FileText, Lightbulb, ChevronDown, Check, List, Folder, Grid,
-  Trophy, Medal, Crown
+  Trophy, Medal, Crown, FlaskConical, Eye, FileCode, Clock, ShieldAlert
 } from 'lucide-react';
 import { clsx, type ClassValue } from "clsx"
 import { twMerge } from "tailwind-merge"
@@ -25,6 +25,8 @@ const QueryIcons: Record<string, React.ReactNode> = {
     'Search': <Search className="w-4 h-4 text-orange-400" />,
     'Planning': <Lightbulb className="w-4 h-4 text-yellow-400" />,
     'Documentation': <FileText className="w-4 h-4 text-teal-400" />,
+    'Testing': <FlaskConical className="w-4 h-4 text-pink-400" />,
+    'Review': <Eye className="w-4 h-4 text-stone-400" />,
     'General Question': <Zap className="w-4 h-4 text-green-400" />
 };
 
@@ -35,6 +37,24 @@ const Card = ({ children, className }: { children: React.ReactNode, className?:
     </div>
 );
 
+// Uploads stored before exports were signed have no integrity and count as unsigned
+const INTEGRITY_LABELS: Record<Exclude<ExportIntegrity, 'verified'>, { label: string; title: string; className: string }> = {
+    unsigned: { label: 'Unsigned', title: 'This export has no signature, so edits to it cannot be detected', className: 'text-muted-foreground border-border' },
+    tampered: { label: 'Tampered', title: 'The signature does not match: this export was edited after the extension wrote it', className: 'text-red-400 border-red-500/50' },
+    keyChanged: { label: 'Key changed', title: 'Signed by a different key than this user\'s earlier uploads (a reinstall, or someone else\'s key)', className: 'text-amber-400 border-amber-500/50' }
+};
+
+const IntegrityBadge = ({ integrity }: { integrity?: ExportIntegrity }) => {
+    if (integrity === 'verified') return null;
+    const { label, title, className } = INTEGRITY_LABELS[integrity || 'unsigned'];
+    return (
+        <span title={title} className={cn("inline-flex items-center gap-1 text-[10px] font-medium uppercase tracking-wider border rounded px-1.5 py-0.5", className)}>
+            <ShieldAlert className="w-3 h-3" />
+            {label}
+        </span>
+    );
+};
+
 const Metric = ({ label, value, trend, icon, color = "text-primary" }: any) => (
     <Card className="p-6 flex items-start justify-between hover:border-primary/50 transition-colors cursor-default group">
         <div>
@@ -48,16 +68,145 @@ const Metric = ({ label, value, trend, icon, color = "text-primary" }: any) => (
     </Card>
 );
 
+interface LanguageTotal {
+    name: string;
+    input: number;
+    output: number;
+    total: number;
+    queries: number;
+    fileTypes: { name: string; value: number }[];
+}
+
+// Sum per-day language stats (of one or many developers) into totals, largest first
+function aggregateLanguages(sources: (LanguageStats | undefined)[]): LanguageTotal[] {
+    const totals: Record<string, { input: number; output: number; queries: number; fileTypes: Record<string, number> }> = {};
+    sources.forEach(languages => Object.values(languages || {}).forEach(day => {
+        Object.entries(day).forEach(([lang, u]) => {
+            const t = totals[lang] || (totals[lang] = { input: 0, output: 0, queries: 0, fileTypes: {} });
+            t.input += u.inputTokens;
+            t.output += u.outputTokens;
+            t.queries += u.queries;
+            Object.entries(u.fileTypes || {}).forEach(([ext, n]) => t.fileTypes[ext] = (t.fileTypes[ext] || 0) + n);
+        });
+    }));
+    return Object.entries(totals).map(([name, t]) => ({
+        name,
+        input: t.input,
+        output: t.output,
+        total: t.input + t.output,
+        queries: t.queries,
+        fileTypes: Object.entries(t.fileTypes).map(([ext, value]) => ({ name: ext, value })).sort((a, b) => b.value - a.value)
+    })).sort((a, b) => b.total - a.total);
+}
+
+const LanguageTable = ({ languages }: { languages: LanguageTotal[] }) => {
+    const grandTotal = languages.reduce((a, l) => a + l.total, 0);
+    if (languages.length === 0) {
+        return <p className="text-sm text-muted-foreground text-center py-8">No language data in these exports yet</p>;
+    }
+    return (
+        <table className="w-full text-sm text-left">
+            <thead className="bg-secondary/30 text-muted-foreground uppercase text-xs font-semibold tracking-wider sticky top-0 z-10">
+                <tr>
+                    <th className="px-4 py-3 font-medium">Language / File Type</th>
+                    <th className="px-4 py-3 font-medium text-right">Tokens</th>
+                    <th className="px-4 py-3 font-medium text-right">Queries</th>
+                    <th className="px-4 py-3 font-medium text-right">Share</th>
+                </tr>
+            </thead>
+            <tbody className="divide-y divide-border/20">
+                {languages.map(lang => (
+                    <Fragment key={lang.name}>
+                        <tr className="bg-secondary/10">
+                            <td className="px-4 py-2 font-bold flex items-center gap-2">
+                                <FileCode className="w-4 h-4 text-indigo-400" />
+                                {lang.name}
+                            </td>
+                            <td className="px-4 py-2 text-right font-mono">{lang.total.toLocaleString()}</td>
+                            <td className="px-4 py-2 text-right font-mono text-muted-foreground">{lang.queries.toLocaleString()}</td>
+                            <td className="px-4 py-2 text-right">
+                                <span className="inline-block px-2 py-0.5 rounded text-xs bg-secondary text-foreground">
+                                    {grandTotal > 0 ? ((lang.total / grandTotal) * 100).toFixed(1) : '0.0'}%
+                                </span>
+                            </td>
+                        </tr>
+                        {lang.fileTypes.map(ft => (
+                            <tr key={`${lang.name}-${ft.name}`} className="hover:bg-muted/10 transition-colors">
+                                <td className="px-4 py-2 pl-10 text-muted-foreground">{ft.name}</td>
+                                <td className="px-4 py-2 text-right font-mono text-muted-foreground">{ft.value.toLocaleString()}</td>
+                                <td className="px-4 py-2" />
+                                <td className="px-4 py-2 text-right text-xs text-muted-foreground">
+                                    {lang.total > 0 ? ((ft.value / lang.total) * 100).toFixed(1) : '0.0'}%
+                                </td>
+                            </tr>
+                        ))}
+                    </Fragment>
+                ))}
+            </tbody>
+        </table>
+    );
+};
+
+const WEEKDAYS = ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun'];
+
+// Tokens per weekday (Monday first) x hour, plus per-hour totals, summed over one or many developers.
+// Each export's keys are already in that developer's own time zone, so "9:00" means their morning.
+function aggregateHours(sources: (HourlyStats | undefined)[]) {
+    const grid = WEEKDAYS.map(() => new Array<number>(24).fill(0));
+    const hours = Array.from({ length: 24 }, (_, h) => ({ hour: `${String(h).padStart(2, '0')}:00`, tokens: 0, queries: 0 }));
+    sources.forEach(hourly => Object.entries(hourly || {}).forEach(([date, day]) => {
+        const weekday = (new Date(`${date}T00:00:00Z`).getUTCDay() + 6) % 7;
+        Object.entries(day).forEach(([h, u]) => {
+            grid[weekday][Number(h)] += u.tokens;
+            hours[Number(h)].tokens += u.tokens;
+            hours[Number(h)].queries += u.queries;
+        });
+    }));
+    return { grid, hours };
+}
+
+const HourHeatmap = ({ grid }: { grid: number[][] }) => {
+    const max = Math.max(1, ...grid.map(row => Math.max(...row)));
+    return (
+        <table className="text-[10px] border-separate border-spacing-[2px]">
+            <thead>
+                <tr>
+                    <th />
+                    {grid[0].map((_, h) => <th key={h} className="font-normal text-muted-foreground w-6">{String(h).padStart(2, '0')}</th>)}
+                </tr>
+            </thead>
+            <tbody>
+                {grid.map((row, d) => (
+                    <tr key={WEEKDAYS[d]}>
+                        <th className="font-normal text-muted-foreground text-right pr-2">{WEEKDAYS[d]}</th>
+                        {row.map((tokens, h) => (
+                            <td
+                                key={h}
+                                className="h-6 w-6 rounded bg-secondary/20"
+                                style={tokens > 0 ? { backgroundColor: `rgba(99, 102, 241, ${0.15 + 0.85 * tokens / max})` } : undefined}
+                                title={`${WEEKDAYS[d]} ${String(h).padStart(2, '0')}:00 — ${tokens.toLocaleString()} tokens`}
+                            />
+                        ))}
+                    </tr>
+                ))}
+            </tbody>
+        </table>
+    );
+};
+
 interface DashboardProps {
   initialData: UserData[];
+  // Initial state of the podium's "verified only" toggle
+  podiumVerifiedOnly?: boolean;
 }
 
-export default function Dashboard({ initialData }: DashboardProps) {
+export default function Dashboard({ initialData, podiumVerifiedOnly = false }: DashboardProps) {
   const [users, setUsers] = useState<UserData[]>(initialData);
   const [selectedUserId, setSelectedUserId] = useState<string | null>(null);
   const [viewMode, setViewMode] = useState<'team' | 'developer' | 'consolidate'>('team');
-  const [activeTab, setActiveTab] = useState<'overview' | 'queries' | 'projects'>('overview');
+  const [activeTab, setActiveTab] = useState<'overview' | 'queries' | 'projects' | 'languages' | 'activity'>('overview');
   const [dateFilter, setDateFilter] = useState('all');
+  const [verifiedOnly, setVerifiedOnly] = useState(podiumVerifiedOnly);
 
   // Initialization Effect
   useEffect(() => {
@@ -93,10 +242,13 @@ export default function Dashboard({ initialData }: DashboardProps) {
   // --- Enhanced Logic ---
   
   const totalTokens = useMemo(() => {
-     if (!currentUser) return { input: 0, output: 0, total: 0 };
-     let input = 0, output = 0;
-     Object.values(currentUser.tokenQuery).forEach(d => { input += d.inputTokens; output += d.outputTokens; });
-     return { input, output, total: input + output };
+     if (!currentUser) return { input: 0, output: 0, total: 0, estimatedDays: 0 };
+     let input = 0, output = 0, estimatedDays = 0;
+     Object.values(currentUser.tokenQuery).forEach(d => {
+         input += d.inputTokens; output += d.outputTokens;
+         if (d.source !== 'measured') estimatedDays++;
+     });
+     return { input, output, total: input + output, estimatedDays };
   }, [currentUser]);
 
   const mostUsedModel = useMemo(() => {
@@ -128,18 +280,36 @@ export default function Dashboard({ initialData }: DashboardProps) {
       return Object.entries(counts).map(([name, value]) => ({ name, value })).sort((a,b) => b.value - a.value);
   }, [currentUser]);
 
+  // Repositories (largest first), each with its branches
   const projectStats = useMemo(() => {
      if (!currentUser) return [];
-     return Object.entries(currentUser.projects).map(([name, stats]) => ({
-         name,
-         total: stats.inputTokens + stats.outputTokens,
-         input: stats.inputTokens,
-         output: stats.outputTokens,
-         queries: stats.queries,
-         topQuery: Object.entries(stats.queries).sort((a,b) => b[1] - a[1])[0]?.[0] || 'None'
-     })).sort((a,b) => b.total - a.total);
+     return Object.entries(currentUser.projects).map(([repoId, repo]) => {
+         const branches = Object.entries(repo.branches).map(([branch, stats]) => ({
+             name: branch,
+             total: stats.inputTokens + stats.outputTokens,
+             input: stats.inputTokens,
+             output: stats.outputTokens,
+             queries: stats.queries,
+             topQuery: Object.entries(stats.queries).sort((a,b) => b[1] - a[1])[0]?.[0] || 'None'
+         })).sort((a,b) => b.total - a.total);
+         return {
+             repoId,
+             name: repo.name || repoId,
+             total: branches.reduce((a, b) => a + b.total, 0),
+             branches
+         };
+     }).sort((a,b) => b.total - a.total);
   }, [currentUser]);
 
+  // One bar per repository/branch pair, grouped by repository
+  const projectBars = useMemo(() =>
+     projectStats.flatMap(repo => repo.branches.map(b => ({ name: `${repo.name} / ${b.name}`, input: b.input, output: b.output }))),
+     [projectStats]
+  );
+
+  const languageStats = useMemo(() => currentUser ? aggregateLanguages([currentUser.languages]) : [], [currentUser]);
+  const hourStats = useMemo(() => aggregateHours(currentUser ? [currentUser.hourly] : []), [currentUser]);
+
   // --- Consolidated Logic ---
   const consolidatedStats = useMemo(() => {
     let input = 0, output = 0, total = 0, queries = 0;
@@ -164,35 +334,53 @@ export default function Dashboard({ initialData }: DashboardProps) {
         .map(([name, value]) => ({ name, value }))
         .sort((a, b) => b.value - a.value);
 
-    return { input, output, total, queries, queryDist };
+    return {
+        input, output, total, queries, queryDist,
+        languages: aggregateLanguages(users.map(u => u.languages)),
+        hours: aggregateHours(users.map(u => u.hourly))
+    };
   }, [users]);
 
 
   // Colors
   const COLORS = ['#6366f1', '#10b981', '#f59e0b', '#ec4899', '#8b5cf6', '#06b6d4'];
 
-  const handleFileUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
+  // Imports go through the ingestion API, so they are stored for everyone instead of only this tab
+  const uploadExport = async (body: unknown): Promise<UserData> => {
+    const send = (token: string | null) => fetch('/api/users', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...(token ? { Authorization: `Bearer ${token}` } : {}) },
+      body: JSON.stringify(body)
+    });
+    let res = await send(sessionStorage.getItem('upload_token'));
+    if (res.status === 401) {
+      const token = window.prompt('This dashboard needs an upload token to import data:');
+      if (!token) throw new Error('An upload token is required');
+      sessionStorage.setItem('upload_token', token);
+      res = await send(token);
+    }
+    const json = await res.json();
+    if (!res.ok) throw new Error([json.error, ...(json.details || [])].join('\n'));
+    return json.data;
+  };
+
+  const handleFileUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
-    if (file) {
-      const reader = new FileReader();
-      reader.onload = (event) => {
-        try {
-          const json = JSON.parse(event.target?.result as string);
-          if (Array.isArray(json)) {
-            const userData = json.map((u: any, i: number) => ({
-                 ...u,
-                 userId: u.userId || `imported_${Date.now()}_${i}`,
-                 email: u.email || `imported_user_${i}@example.com`
-             }));
-             setUsers(prev => [...prev, ...userData]);
-          } else {
-             const newUser = { ...json, userId: json.userId || `imported_${Date.now()}`, email: json.email || 'imported@example.com' };
-             setUsers(prev => [...prev, newUser]);
-             selectUser(newUser.userId);
-          }
-        } catch (err) { alert("Invalid JSON"); }
-      };
-      reader.readAsText(file);
+    e.target.value = '';
+    if (!file) return;
+    let json: unknown;
+    try {
+      json = JSON.parse(await file.text());
+    } catch { alert("Invalid JSON"); return; }
+    try {
+      const stored: UserData[] = [];
+      for (const u of Array.isArray(json) ? json : [json]) {
+        stored.push(await uploadExport(u));
+      }
+      setUsers(prev => [...prev.filter(p => !stored.some(s => s.userId === p.userId)), ...stored]);
+      if (stored.length === 1) selectUser(stored[0].userId);
+    } catch (err) {
+      alert(`Import failed: ${err instanceof Error ? err.message : err}`);
     }
   };
 
@@ -285,7 +473,7 @@ export default function Dashboard({ initialData }: DashboardProps) {
                                                   {user.email[0].toUpperCase()}
                                               </div>
                                               <div>
-                                                  <h3 className="font-semibold text-lg">{user.email.split('@')[0]}</h3>
+                                                  <h3 className="font-semibold text-lg flex items-center gap-2">{user.email.split('@')[0]} <IntegrityBadge integrity={user.integrity} /></h3>
                                                   <p className="text-xs text-muted-foreground">{user.email}</p>
                                               </div>
                                           </div>
@@ -324,6 +512,10 @@ export default function Dashboard({ initialData }: DashboardProps) {
                         <Crown className="w-8 h-8 text-amber-400" />
                     </h2>
                     <p className="text-muted-foreground mt-2">Highest token consumption across the team</p>
+                    <label className="inline-flex items-center gap-2 text-sm text-muted-foreground mt-4 cursor-pointer" title="Leave unsigned, tampered and re-keyed exports off the podium">
+                        <input type="checkbox" checked={verifiedOnly} onChange={(e) => setVerifiedOnly(e.target.checked)} className="accent-amber-500" />
+                        Verified exports only on the podium
+                    </label>
                   </div>
 
                   {/* 1. Consolidated Metrics Grid */}
@@ -403,10 +595,35 @@ export default function Dashboard({ initialData }: DashboardProps) {
                       </Card>
                   </div>
 
+                  {/* 4. Consolidated Language Table */}
+                  <div className="w-full mt-12 animate-in fade-in slide-in-from-bottom-6">
+                      <Card className="p-6">
+                        <h3 className="font-semibold text-lg mb-4 flex items-center gap-2">
+                            <FileCode className="w-5 h-5 text-indigo-400" />
+                            Team Language Breakdown
+                        </h3>
+                        <div className="overflow-x-auto">
+                            <LanguageTable languages={consolidatedStats.languages} />
+                        </div>
+                      </Card>
+                  </div>
+
+                  {/* 5. Team Weekday x Hour Heatmap */}
+                  <div className="w-full mt-12 animate-in fade-in slide-in-from-bottom-6">
+                      <Card className="p-6 overflow-x-auto">
+                        <h3 className="font-semibold text-lg mb-1 flex items-center gap-2">
+                            <Clock className="w-5 h-5 text-indigo-400" />
+                            Team Activity by Weekday × Hour
+                        </h3>
+                        <p className="text-sm text-muted-foreground mb-4">Each developer&apos;s hours are in their own time zone</p>
+                        <HourHeatmap grid={consolidatedStats.hours.grid} />
+                      </Card>
+                  </div>
+
                   {/* 2. Podium (Moved to Bottom) */}
                   <div className="flex flex-col md:flex-row items-end justify-center gap-6 md:gap-8 pb-8 mt-24">
                        {(() => {
-                            const sortedUsers = users.map(u => {
+                            const sortedUsers = users.filter(u => !verifiedOnly || u.integrity === 'verified').map(u => {
                                 const total = Object.values(u.tokenQuery).reduce((acc, d) => acc + d.inputTokens + d.outputTokens, 0);
                                 return { ...u, total };
                             }).sort((a, b) => b.total - a.total).slice(0, 3);
@@ -447,6 +664,7 @@ export default function Dashboard({ initialData }: DashboardProps) {
 
                                     <h3 className="font-bold text-lg text-center truncate w-full px-2" title={user.email}>{user.email.split('@')[0]}</h3>
                                     <p className="text-xs text-muted-foreground mb-4">{user.email}</p>
+                                    {user.integrity !== 'verified' && <div className="-mt-2 mb-4"><IntegrityBadge integrity={user.integrity} /></div>}
                                     
                                     <div className="bg-secondary/40 rounded-lg py-2 px-4 text-center w-full mt-auto">
                                         <p className="text-xs text-muted-foreground uppercase tracking-wider">Total Tokens</p>
@@ -475,8 +693,8 @@ export default function Dashboard({ initialData }: DashboardProps) {
                 {/* 2. High-Level Metrics Grid */}
                 <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6 animate-in fade-in">
                     <Metric 
-                        label="Total Tokens" 
-                        value={(totalTokens.total / 1000).toFixed(1) + 'k'} 
+                        label={totalTokens.estimatedDays > 0 ? `Total Tokens (est. on ${totalTokens.estimatedDays} days)` : 'Total Tokens'} 
+                        value={(totalTokens.estimatedDays > 0 ? '~' : '') + (totalTokens.total / 1000).toFixed(1) + 'k'} 
                         trend="12%" 
                         icon={<Database className="w-5 h-5" />} 
                         color="text-indigo-400"
@@ -494,7 +712,7 @@ export default function Dashboard({ initialData }: DashboardProps) {
                         color="text-emerald-400"
                     />
                     <Metric 
-                        label="Active Projects" 
+                        label="Active Repositories" 
                         value={projectStats.length} 
                         icon={<GitBranch className="w-5 h-5" />} 
                         color="text-pink-400"
@@ -506,7 +724,9 @@ export default function Dashboard({ initialData }: DashboardProps) {
                     <div className="flex gap-6">
                         {[
                             { id: 'overview', label: 'Overview', icon: LayoutDashboard },
-                            { id: 'projects', label: 'Project Breakdown', icon: Folder }
+                            { id: 'projects', label: 'Project Breakdown', icon: Folder },
+                            { id: 'languages', label: 'Language Breakdown', icon: FileCode },
+                            { id: 'activity', label: 'Time of Day', icon: Clock }
                         ].map(tab => (
                             <button
                                 key={tab.id}
@@ -630,11 +850,11 @@ export default function Dashboard({ initialData }: DashboardProps) {
                                 {/* 1. Horizontal Bar Chart (Input vs Output per Project) */}
                                 <Card className="p-6 h-[500px] flex flex-col">
                                     <h3 className="font-semibold text-lg mb-1">Project Token Usage</h3>
-                                    <p className="text-sm text-muted-foreground mb-6">Input vs Output tokens per project</p>
+                                    <p className="text-sm text-muted-foreground mb-6">Input vs Output tokens per repository and branch</p>
                                     <div className="flex-1 w-full min-h-0">
                                         <ResponsiveContainer width="100%" height="100%">
                                             <BarChart 
-                                                data={projectStats} 
+                                                data={projectBars} 
                                                 margin={{ top: 20, right: 30, left: 20, bottom: 5 }}
                                             >
                                                 <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#334155" opacity={0.4} />
@@ -668,39 +888,48 @@ export default function Dashboard({ initialData }: DashboardProps) {
                                                 </tr>
                                             </thead>
                                             <tbody className="divide-y divide-border/20">
-                                                {/* @ts-ignore */}
-                                                {projectStats.map((proj) => {
-                                                    const totalProjectQueries = Object.values(proj.queries).reduce((a: any, b: any) => a + b, 0);
-                                                    return (
-                                                        <>
-                                                            {/* Project Header Row */}
-                                                            <tr key={proj.name} className="bg-secondary/10">
-                                                                <td colSpan={3} className="px-4 py-2 text-xs font-bold text-muted-foreground bg-muted/20 uppercase tracking-wider flex items-center gap-2">
-                                                                    <GitBranch className="w-3 h-3" />
-                                                                    {proj.name}
-                                                                    <span className="ml-auto font-normal opacity-70">Total: {totalProjectQueries}</span>
-                                                                </td>
-                                                            </tr>
-                                                            {/* Query Type Rows */}
-                                                            {/* @ts-ignore */}
-                                                            {Object.entries(proj.queries).sort((a: any, b: any) => b[1] - a[1]).map(([qName, qCount]: [string, any]) => (
-                                                                <tr key={`${proj.name}-${qName}`} className="hover:bg-muted/10 transition-colors">
-                                                                    <td className="px-4 py-3 font-medium flex items-center gap-2 pl-8">
-                                                                        {QueryIcons[qName] || <Check className="w-4 h-4 text-gray-400" />}
-                                                                        {qName}
-                                                                    </td>
-                                                                    <td className="px-4 py-3 text-right font-mono">{qCount.toLocaleString()}</td>
-                                                                    <td className="px-4 py-3 text-right">
-                                                                        <span className="inline-block px-2 py-0.5 rounded text-xs bg-secondary text-foreground">
-                                                                            {/* @ts-ignore */}
-                                                                            {((qCount / totalProjectQueries) * 100).toFixed(1)}%
-                                                                        </span>
-                                                                    </td>
-                                                                </tr>
-                                                            ))}
-                                                        </>
-                                                    );
-                                                })}
+                                                {projectStats.map((repo) => (
+                                                    <Fragment key={repo.repoId}>
+                                                        {/* Repository Header Row */}
+                                                        <tr className="bg-secondary/20">
+                                                            <td colSpan={3} className="px-4 py-2 text-xs font-bold text-foreground bg-muted/30 uppercase tracking-wider flex items-center gap-2" title={repo.repoId}>
+                                                                <Folder className="w-3 h-3" />
+                                                                {repo.name}
+                                                                <span className="ml-auto font-normal opacity-70">{repo.branches.length} {repo.branches.length === 1 ? 'branch' : 'branches'}</span>
+                                                            </td>
+                                                        </tr>
+                                                        {repo.branches.map((branch) => {
+                                                            const totalBranchQueries = Object.values(branch.queries).reduce((a, b) => a + b, 0);
+                                                            return (
+                                                                <Fragment key={`${repo.repoId}-${branch.name}`}>
+                                                                    {/* Branch Header Row */}
+                                                                    <tr className="bg-secondary/10">
+                                                                        <td colSpan={3} className="px-4 py-2 pl-8 text-xs font-bold text-muted-foreground bg-muted/20 uppercase tracking-wider flex items-center gap-2">
+                                                                            <GitBranch className="w-3 h-3" />
+                                                                            {branch.name}
+                                                                            <span className="ml-auto font-normal opacity-70">Total: {totalBranchQueries}</span>
+                                                                        </td>
+                                                                    </tr>
+                                                                    {/* Query Type Rows */}
+                                                                    {Object.entries(branch.queries).sort((a, b) => b[1] - a[1]).map(([qName, qCount]) => (
+                                                                        <tr key={`${repo.repoId}-${branch.name}-${qName}`} className="hover:bg-muted/10 transition-colors">
+                                                                            <td className="px-4 py-3 font-medium flex items-center gap-2 pl-12">
+                                                                                {QueryIcons[qName] || <Check className="w-4 h-4 text-gray-400" />}
+                                                                                {qName}
+                                                                            </td>
+                                                                            <td className="px-4 py-3 text-right font-mono">{qCount.toLocaleString()}</td>
+                                                                            <td className="px-4 py-3 text-right">
+                                                                                <span className="inline-block px-2 py-0.5 rounded text-xs bg-secondary text-foreground">
+                                                                                    {((qCount / totalBranchQueries) * 100).toFixed(1)}%
+                                                                                </span>
+                                                                            </td>
+                                                                        </tr>
+                                                                    ))}
+                                                                </Fragment>
+                                                            );
+                                                        })}
+                                                    </Fragment>
+                                                ))}
                                             </tbody>
                                         </table>
                                     </div>
@@ -708,6 +937,74 @@ export default function Dashboard({ initialData }: DashboardProps) {
                             </div>
                         </div>
                     )}
+
+                    {/* VIEW: LANGUAGES */}
+                    {activeTab === 'languages' && (
+                        <div className="space-y-6 animate-in fade-in slide-in-from-bottom-2">
+                            <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+                                <Card className="p-6 h-[500px] flex flex-col">
+                                    <h3 className="font-semibold text-lg mb-1">Language Token Usage</h3>
+                                    <p className="text-sm text-muted-foreground mb-6">Input vs Output tokens per language</p>
+                                    <div className="flex-1 w-full min-h-0">
+                                        <ResponsiveContainer width="100%" height="100%">
+                                            <BarChart data={languageStats} layout="vertical" margin={{ top: 20, right: 30, left: 20, bottom: 5 }}>
+                                                <CartesianGrid strokeDasharray="3 3" horizontal={false} stroke="#334155" opacity={0.4} />
+                                                <XAxis type="number" stroke="#94a3b8" fontSize={12} tickLine={false} axisLine={false} tickFormatter={v => `${(v/1000).toFixed(0)}k`} />
+                                                <YAxis dataKey="name" type="category" stroke="#94a3b8" fontSize={12} tickLine={false} axisLine={false} width={110} />
+                                                <Tooltip 
+                                                    cursor={{fill: '#334155', opacity: 0.2}}
+                                                    contentStyle={{ backgroundColor: '#1e293b', borderColor: '#334155', borderRadius: '8px', color: '#f8fafc' }}
+                                                />
+                                                <Legend wrapperStyle={{ paddingTop: '20px' }} />
+                                                <Bar dataKey="input" stackId="tokens" fill="#6366f1" name="Input Tokens" />
+                                                <Bar dataKey="output" stackId="tokens" fill="#10b981" name="Output Tokens" radius={[0, 4, 4, 0]} />
+                                            </BarChart>
+                                        </ResponsiveContainer>
+                                    </div>
+                                </Card>
+
+                                <Card className="p-6 h-[500px] flex flex-col overflow-hidden">
+                                    <div className="mb-6">
+                                        <h3 className="font-semibold text-lg mb-1">Languages & File Types</h3>
+                                        <p className="text-sm text-muted-foreground">Where AI-generated code lands</p>
+                                    </div>
+                                    <div className="overflow-auto flex-1">
+                                        <LanguageTable languages={languageStats} />
+                                    </div>
+                                </Card>
+                            </div>
+                        </div>
+                    )}
+
+                    {/* VIEW: TIME OF DAY */}
+                    {activeTab === 'activity' && (
+                        <div className="space-y-6 animate-in fade-in slide-in-from-bottom-2">
+                            <Card className="p-6 h-[380px] flex flex-col">
+                                <h3 className="font-semibold text-lg mb-1">Usage by Hour of Day</h3>
+                                <p className="text-sm text-muted-foreground mb-6">
+                                    Tokens per hour in {currentUser.timeZone || 'UTC (older export)'}
+                                </p>
+                                <div className="flex-1 w-full min-h-0">
+                                    <ResponsiveContainer width="100%" height="100%">
+                                        <BarChart data={hourStats.hours} margin={{ top: 10, right: 10, left: 0, bottom: 0 }}>
+                                            <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#334155" opacity={0.4} />
+                                            <XAxis dataKey="hour" stroke="#94a3b8" fontSize={11} tickLine={false} axisLine={false} />
+                                            <YAxis stroke="#94a3b8" fontSize={12} tickLine={false} axisLine={false} tickFormatter={v => `${(v/1000).toFixed(0)}k`} />
+                                            <Tooltip 
+                                                cursor={{fill: '#334155', opacity: 0.2}}
+                                                contentStyle={{ backgroundColor: '#1e293b', borderColor: '#334155', borderRadius: '8px', color: '#f8fafc' }}
+                                            />
+                                            <Bar dataKey="tokens" fill="#6366f1" name="Tokens" radius={[4, 4, 0, 0]} />
+                                        </BarChart>
+                                    </ResponsiveContainer>
+                                </div>
+                            </Card>
+                            <Card className="p-6 overflow-x-auto">
+                                <h3 className="font-semibold text-lg mb-4">Weekday × Hour</h3>
+                                <HourHeatmap grid={hourStats.grid} />
+                            </Card>
+                        </div>
+                    )}
                 </div>
             </>
           )}
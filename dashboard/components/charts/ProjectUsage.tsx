@@ -10,12 +10,14 @@ interface ProjectUsageProps {
 }
 
 export function ProjectUsage({ data }: ProjectUsageProps) {
-  // Convert { "branchA": { inputTokens, outputTokens } } to [{ name: "branchA", input: x, output: y }]
-  const chartData = Object.entries(data).map(([branch, stats]) => ({
-    name: branch,
-    input: stats.inputTokens,
-    output: stats.outputTokens
-  }));
+  // Convert { repoId: { name, branches: { main: { inputTokens, outputTokens } } } } to [{ name: "repo / main", input: x, output: y }]
+  const chartData = Object.values(data).flatMap(repo =>
+    Object.entries(repo.branches).map(([branch, stats]) => ({
+      name: `${repo.name} / ${branch}`,
+      input: stats.inputTokens,
+      output: stats.outputTokens
+    }))
+  );
 
   return (
     <Card className="w-full bg-white/5 backdrop-blur-lg border-white/10 text-white shadow-xl">
@@ -24,7 +26,7 @@ export function ProjectUsage({ data }: ProjectUsageProps) {
           Project Breakdown
         </CardTitle>
         <CardDescription className="text-gray-400">
-          Token usage by branch/project
+          Token usage by repository and branch
         </CardDescription>
       </CardHeader>
       <CardContent>
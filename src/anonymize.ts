@@ -0,0 +1,121 @@
+import * as vscode from 'vscode';
+import * as crypto from 'crypto';
+import { BranchStats, ProjectStats } from './stats';
+import { ExportData } from './serializers';
+import { UNRESOLVED_EMAIL_DOMAIN } from './identity';
+
+export type ExportProfile = 'full' | 'anonymized';
+
+export const EXPORT_PROFILES: { [profile in ExportProfile]: { label: string; detail: string } } = {
+    full: { label: 'Full', detail: 'Email, repository ids and branch names as tracked' },
+    anonymized: { label: 'Anonymized', detail: 'Pseudonymous user, hashed or bucketed branches, low-volume days dropped' }
+};
+
+export interface AnonymizeOptions {
+    // Shared by the team, so the same person gets the same pseudonym on every machine and upload
+    salt: string;
+    branchNames: 'hash' | 'bucket' | 'keep';
+    // Days with fewer tokens than this are left out
+    minDailyTokens: number;
+}
+
+// Not identifying, and the most useful to keep readable
+const DEFAULT_BRANCHES = new Set(['main', 'master', 'develop', 'trunk']);
+
+export function getExportProfile(): ExportProfile {
+    return vscode.workspace.getConfiguration('antigravity').get<ExportProfile>('export.profile', 'full');
+}
+
+function getAnonymizeOptions(): AnonymizeOptions {
+    const config = vscode.workspace.getConfiguration('antigravity');
+    const salt = config.get<string>('anonymize.salt', '').trim();
+    // Unsalted hashes of emails can be reversed by hashing a list of likely addresses
+    if (!salt) throw new Error('Set antigravity.anonymize.salt (shared by your team) before exporting anonymized stats');
+    return {
+        salt,
+        branchNames: config.get<AnonymizeOptions['branchNames']>('anonymize.branchNames', 'bucket'),
+        minDailyTokens: Math.max(0, config.get<number>('anonymize.minDailyTokens', 500))
+    };
+}
+
+function pseudonym(salt: string, value: string, length: number): string {
+    return crypto.createHmac('sha256', salt).update(value).digest('hex').slice(0, length);
+}
+
+/**
+ * 'feature/ACME-123-login' becomes 'feature/*'; names without a prefix become 'other'.
+ */
+export function bucketBranch(branch: string): string {
+    if (DEFAULT_BRANCHES.has(branch)) return branch;
+    const slash = branch.indexOf('/');
+    return slash > 0 ? `${branch.slice(0, slash).toLowerCase()}/*` : 'other';
+}
+
+export function addBranch(into: BranchStats | undefined, from: BranchStats): BranchStats {
+    const merged: BranchStats = into || { inputTokens: 0, outputTokens: 0, queries: {} };
+    merged.inputTokens += from.inputTokens;
+    merged.outputTokens += from.outputTokens;
+    for (const [queryType, n] of Object.entries(from.queries || {})) {
+        merged.queries[queryType] = (merged.queries[queryType] || 0) + n;
+    }
+    return merged;
+}
+
+function anonymizeProjects(projects: ProjectStats, options: AnonymizeOptions): ProjectStats {
+    const result: ProjectStats = {};
+    for (const [repoId, repo] of Object.entries(projects)) {
+        // Root paths of repos without a remote contain the local user name
+        const id = `repo-${pseudonym(options.salt, repoId, 12)}`;
+        const branches: { [branch: string]: BranchStats } = {};
+        for (const [branch, stats] of Object.entries(repo.branches)) {
+            const name = options.branchNames === 'keep' || DEFAULT_BRANCHES.has(branch) ? branch
+                : options.branchNames === 'bucket' ? bucketBranch(branch)
+                : `branch-${pseudonym(options.salt, `${repoId}\n${branch}`, 8)}`;
+            branches[name] = addBranch(branches[name], stats);
+        }
+        result[id] = { name: repo.name, branches };
+    }
+    return result;
+}
+
+/**
+ * Privacy-preserving copy of `data`. The user id and email are replaced by a salted pseudonym of the
+ * email (the local user id when signed out), so the dashboard still links successive uploads of one user.
+ * Only the fields below are copied, so nothing else (machine details included) can leak into the export.
+ */
+export function anonymizeExport(data: ExportData, options: AnonymizeOptions): ExportData {
+    const identity = data.email && !data.email.endsWith(`@${UNRESOLVED_EMAIL_DOMAIN}`) ? data.email.trim().toLowerCase() : data.userId;
+    const id = `anon-${pseudonym(options.salt, identity, 16)}`;
+
+    const dayTokens = (date: string) => {
+        const day = data.tokenQuery[date];
+        return day ? day.inputTokens + day.outputTokens : Object.values(data.usage[date] || {}).reduce((a, b) => a + b, 0);
+    };
+    const keep = new Set(Object.keys({ ...data.usage, ...data.tokenQuery }).filter(date => dayTokens(date) >= options.minDailyTokens));
+    const keptDays = <T>(days: { [date: string]: T }) => {
+        const kept: { [date: string]: T } = {};
+        for (const [date, value] of Object.entries(days || {})) {
+            if (keep.has(date)) kept[date] = value;
+        }
+        return kept;
+    };
+
+    return {
+        userId: id,
+        email: `${id}@anonymized.invalid`,
+        usage: keptDays(data.usage),
+        tokenQuery: keptDays(data.tokenQuery),
+        projects: anonymizeProjects(data.projects, options),
+        languages: keptDays(data.languages),
+        hourly: keptDays(data.hourly),
+        timeZone: data.timeZone,
+        changeSources: keptDays(data.changeSources)
+    };
+}
+
+/**
+ * `data` as exported under `profile`. Throws when the anonymized profile is not configured.
+ */
+export function applyExportProfile(data: ExportData, profile: ExportProfile): ExportData {
+    return profile === 'anonymized' ? anonymizeExport(data, getAnonymizeOptions()) : data;
+}
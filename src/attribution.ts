@@ -0,0 +1,92 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { ChangeSource } from './stats';
+
+// Changes at or below this size are treated as manual typing
+const MIN_AI_CHANGE_LENGTH = 30;
+// An edit touching this many separate ranges at once is a formatter or refactoring, not an insertion
+const MULTI_RANGE_EDIT_THRESHOLD = 3;
+// How long after a save/disk event we still attribute changes to it
+const EVENT_WINDOW_MS = 2000;
+
+export interface ChangeAttributor extends vscode.Disposable {
+    classify(event: vscode.TextDocumentChangeEvent, change: vscode.TextDocumentContentChangeEvent): Promise<ChangeSource>;
+}
+
+/**
+ * Sort document changes into AI output vs. everything else that also inserts text:
+ * pastes, undo/redo, format-on-save / refactors and files reloaded from disk (git checkout, external tools).
+ */
+export function createChangeAttributor(): ChangeAttributor {
+    const savingUntil = new Map<string, number>();
+    const diskChangedAt = new Map<string, number>();
+    const disposables: vscode.Disposable[] = [];
+
+    disposables.push(vscode.workspace.onWillSaveTextDocument((e) => {
+        savingUntil.set(e.document.uri.toString(), Date.now() + EVENT_WINDOW_MS);
+    }));
+    disposables.push(vscode.workspace.onDidSaveTextDocument((doc) => {
+        savingUntil.delete(doc.uri.toString());
+    }));
+
+    // Only open documents can receive a reload, so only they are watched (one watcher each, not the whole workspace)
+    const watchers = new Map<string, vscode.Disposable>();
+    const watch = (doc: vscode.TextDocument) => {
+        const key = doc.uri.toString();
+        if (doc.uri.scheme !== 'file' || watchers.has(key)) return;
+        const watcher = vscode.workspace.createFileSystemWatcher(
+            new vscode.RelativePattern(vscode.Uri.file(path.dirname(doc.uri.fsPath)), path.basename(doc.uri.fsPath)), true, false, true);
+        watcher.onDidChange(() => diskChangedAt.set(key, Date.now()));
+        watchers.set(key, watcher);
+    };
+    const unwatch = (doc: vscode.TextDocument) => {
+        const key = doc.uri.toString();
+        watchers.get(key)?.dispose();
+        watchers.delete(key);
+        diskChangedAt.delete(key);
+    };
+    vscode.workspace.textDocuments.forEach(watch);
+    disposables.push(vscode.workspace.onDidOpenTextDocument(watch));
+    disposables.push(vscode.workspace.onDidCloseTextDocument(unwatch));
+    disposables.push({ dispose: () => watchers.forEach(w => w.dispose()) });
+
+    const isRecentDiskChange = (uri: vscode.Uri) => {
+        const at = diskChangedAt.get(uri.toString());
+        return at !== undefined && Date.now() - at < EVENT_WINDOW_MS;
+    };
+
+    return {
+        async classify(event, change) {
+            if (event.reason === vscode.TextDocumentChangeReason.Undo || event.reason === vscode.TextDocumentChangeReason.Redo) {
+                return 'undoRedo';
+            }
+
+            // A reload from disk leaves the document clean; an edit never does
+            const key = event.document.uri.toString();
+            if (!event.document.isDirty || isRecentDiskChange(event.document.uri)) {
+                return 'external';
+            }
+
+            const saveDeadline = savingUntil.get(key);
+            if ((saveDeadline !== undefined && Date.now() < saveDeadline) || event.contentChanges.length >= MULTI_RANGE_EDIT_THRESHOLD) {
+                return 'formatter';
+            }
+
+            if (change.text.length <= MIN_AI_CHANGE_LENGTH) {
+                return 'manual';
+            }
+
+            try {
+                const clipboard = await vscode.env.clipboard.readText();
+                if (clipboard && clipboard.trim() === change.text.trim()) {
+                    return 'paste';
+                }
+            } catch (e) { /* clipboard unavailable (e.g. remote/web) */ }
+
+            return 'ai';
+        },
+        dispose() {
+            disposables.forEach(d => d.dispose());
+        }
+    };
+}
@@ -0,0 +1,116 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import { STATS_STORAGE_KEYS } from './stats';
+import { initJournal, snapshotJournal, restoreJournal } from './journal';
+import { DAY_BUCKET_TIMEZONE_KEY } from './time';
+
+// Older backups beyond this count are deleted when a new one is written
+const MAX_BACKUPS = 30;
+
+export interface BackupInfo {
+    file: string;
+    reason: string;
+    createdAt: string;
+    schemaVersion: number;
+    // Whether the backup also holds the event journal (every backup since journal-inclusive backups)
+    hasJournal?: boolean;
+}
+
+interface BackupFile extends BackupInfo {
+    stores: { [storageKey: string]: any };
+    journal?: { [fileName: string]: string };
+    // Zone the stores' day keys were bucketed in; null when they predate the setting (UTC)
+    dayBucketTimeZone?: string | null;
+}
+
+export function getBackupDir(context: vscode.ExtensionContext): string {
+    const dir = path.join(context.globalStorageUri.fsPath, 'backups');
+    fs.mkdirSync(dir, { recursive: true });
+    return dir;
+}
+
+/**
+ * Write every usage store, the event journal and the zone the days are bucketed in to
+ * `backups/<timestamp>-<reason>.json`. The rollups are rebuilt from the journal, so restoring
+ * one without the other would be undone by the next rebuild.
+ * Returns the file path, or null when there is no data to back up.
+ */
+export function createBackup(context: vscode.ExtensionContext, reason: string, schemaVersion: number): string | null {
+    const stores: { [storageKey: string]: any } = {};
+    for (const key of STATS_STORAGE_KEYS) {
+        const value = context.globalState.get(key);
+        if (value !== undefined && Object.keys(value as object).length > 0) stores[key] = value;
+    }
+    if (Object.keys(stores).length === 0) return null;
+
+    const dir = getBackupDir(context);
+    const createdAt = new Date().toISOString();
+    const file = path.join(dir, `${createdAt.replace(/[:.]/g, '-')}-${reason.replace(/[^a-zA-Z0-9-]/g, '_')}.json`);
+    const backup: BackupFile = {
+        file: path.basename(file), reason, createdAt, schemaVersion, stores,
+        hasJournal: true,
+        journal: snapshotJournal(context),
+        dayBucketTimeZone: context.globalState.get<string>(DAY_BUCKET_TIMEZONE_KEY) ?? null
+    };
+    fs.writeFileSync(file, JSON.stringify(backup));
+
+    // Keep the newest MAX_BACKUPS
+    const all = fs.readdirSync(dir).filter(f => f.endsWith('.json')).sort();
+    for (const old of all.slice(0, Math.max(0, all.length - MAX_BACKUPS))) {
+        fs.unlinkSync(path.join(dir, old));
+    }
+    console.log('Antigravity Monitor: Wrote backup', path.basename(file));
+    return file;
+}
+
+/**
+ * Backups on disk, newest first.
+ */
+export function listBackups(context: vscode.ExtensionContext): BackupInfo[] {
+    const dir = getBackupDir(context);
+    const backups: BackupInfo[] = [];
+    for (const file of fs.readdirSync(dir).filter(f => f.endsWith('.json')).sort().reverse()) {
+        try {
+            const { reason, createdAt, schemaVersion, hasJournal }: BackupFile = JSON.parse(fs.readFileSync(path.join(dir, file), 'utf8'));
+            backups.push({ file: path.join(dir, file), reason, createdAt, schemaVersion, hasJournal });
+        } catch (e) {
+            console.log('Antigravity Monitor: Skipping unreadable backup', file);
+        }
+    }
+    return backups;
+}
+
+/**
+ * Replace every usage store with the backup's contents (stores missing from the backup are cleared),
+ * and the event journal and bucket time zone when the backup holds them. A journal snapshot taken
+ * before the journal existed is empty; it is seeded again from the restored stores.
+ * Returns the schema version the backup was taken at.
+ */
+export async function restoreBackup(context: vscode.ExtensionContext, file: string): Promise<number> {
+    const backup: BackupFile = JSON.parse(fs.readFileSync(file, 'utf8'));
+    if (!backup.stores || typeof backup.stores !== 'object') {
+        throw new Error(`${path.basename(file)} is not a stats backup`);
+    }
+    for (const key of STATS_STORAGE_KEYS) {
+        await context.globalState.update(key, backup.stores[key]);
+    }
+    if (backup.dayBucketTimeZone !== undefined) {
+        await context.globalState.update(DAY_BUCKET_TIMEZONE_KEY, backup.dayBucketTimeZone ?? undefined);
+    }
+    if (backup.journal) {
+        restoreJournal(context, backup.journal);
+        initJournal(context);
+    }
+    return backup.schemaVersion;
+}
+
+/**
+ * Delete every backup. Returns how many were deleted.
+ */
+export function deleteBackups(context: vscode.ExtensionContext): number {
+    const dir = getBackupDir(context);
+    const files = fs.readdirSync(dir).filter(f => f.endsWith('.json'));
+    for (const file of files) fs.unlinkSync(path.join(dir, file));
+    return files.length;
+}
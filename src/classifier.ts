@@ -0,0 +1,181 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import { isCssColor } from './colors';
+
+export interface ClassificationRule {
+    category: string;
+    // Case-insensitive regular expressions
+    patterns: string[];
+    // Score added per matching pattern (default 1)
+    weight?: number;
+    // Only apply to these VS Code language ids
+    languages?: string[];
+    color?: string;
+}
+
+export interface Classification {
+    // Highest-scoring category; this is what the query counts are keyed by
+    primary: string;
+    // Every category scoring close enough to the primary one
+    labels: string[];
+}
+
+export const FALLBACK_CATEGORY = 'General Question';
+
+// Repo-level rules, merged on top of the settings
+export const REPO_RULES_FILE = path.join('.antigravity', 'classification.json');
+
+// How much of each insertion the journal keeps for re-classification
+export const EXCERPT_LENGTH = 2000;
+
+// Each pattern counts at most this many times so one noisy keyword can't dominate
+const MAX_MATCHES_PER_PATTERN = 3;
+
+// Longer patterns are skipped and only this much of an insertion is matched, which bounds
+// how long a badly written (or hostile) pattern can block the extension host
+const MAX_PATTERN_LENGTH = 200;
+const MAX_CLASSIFIED_LENGTH = EXCERPT_LENGTH;
+
+const DEFAULT_RULES: ClassificationRule[] = [
+    { category: 'Debugging', weight: 3, patterns: ['\\b(exception|traceback|stack\\s*trace|crash|segfault|panic)\\b'], color: 'rgba(239, 68, 68, 0.8)' },
+    { category: 'Debugging', weight: 1, patterns: ['\\b(error|bug|fix|debug|failed|issue)\\b', 'console\\.(error|warn)|catch\\s*\\('] },
+    { category: 'Search', weight: 2, patterns: ['\\b(search|find|lookup|grep|locate)\\b', '\\bselect\\s+.+\\s+from\\b'], color: 'rgba(249, 115, 22, 0.8)' },
+    { category: 'Documentation', weight: 2, patterns: ['\\b(docstring|jsdoc|readme|documentation)\\b', '@param|@returns?|@description|/\\*\\*|"""'], color: 'rgba(45, 212, 191, 0.8)' },
+    { category: 'Documentation', weight: 3, languages: ['markdown', 'plaintext', 'restructuredtext'], patterns: ['^#+\\s', '\\w+'] },
+    { category: 'Planning', weight: 2, patterns: ['\\b(plan|todo|design|architecture|roadmap|milestone)\\b', '\\b(refactor|restructure|migrate)\\b'], color: 'rgba(139, 92, 246, 0.8)' },
+    { category: 'Coding', weight: 1, patterns: ['\\b(function|class|const|let|var|import|export|return|def|async|await|interface|struct|fn)\\b', '=>|[{};]', '\\b(if|for|while|switch)\\s*\\('], color: 'rgba(59, 130, 246, 0.8)' },
+    { category: 'Testing', weight: 3, patterns: ['\\b(describe|it|test)\\s*\\(', '\\b(expect|assert\\w*)\\s*[.(]', '\\b(pytest|jest|mocha|vitest|unittest)\\b'], color: 'rgba(236, 72, 153, 0.8)' },
+    { category: 'Review', weight: 2, patterns: ['\\b(review|nit|lgtm|suggestion|consider)\\b', '^\\s*(//|#)\\s*(note|nb|why)\\b'], color: 'rgba(168, 162, 158, 0.8)' },
+    { category: FALLBACK_CATEGORY, weight: 0, patterns: [], color: 'rgba(34, 197, 94, 0.8)' }
+];
+
+function readRepoRules(folder: vscode.WorkspaceFolder): ClassificationRule[] {
+    const file = path.join(folder.uri.fsPath, REPO_RULES_FILE);
+    if (!fs.existsSync(file)) return [];
+    try {
+        const parsed = JSON.parse(fs.readFileSync(file, 'utf8'));
+        return Array.isArray(parsed?.rules) ? parsed.rules : [];
+    } catch (e: any) {
+        console.log(`Antigravity Monitor: Ignoring invalid ${file}:`, e?.message || e);
+        return [];
+    }
+}
+
+/**
+ * Default rules (unless disabled) + `antigravity.classification.rules` + every workspace folder's
+ * `.antigravity/classification.json`. Repo rules come from whoever wrote the repository, so they
+ * are only read once the workspace is trusted.
+ */
+export function loadClassificationRules(): ClassificationRule[] {
+    const config = vscode.workspace.getConfiguration('antigravity.classification');
+    const rules: ClassificationRule[] = [];
+    if (config.get<boolean>('includeDefaultRules', true)) rules.push(...DEFAULT_RULES);
+    rules.push(...config.get<ClassificationRule[]>('rules', []));
+    if (vscode.workspace.isTrusted) {
+        for (const folder of vscode.workspace.workspaceFolders || []) {
+            rules.push(...readRepoRules(folder));
+        }
+    }
+    return rules.filter(r => r && r.category && Array.isArray(r.patterns));
+}
+
+/**
+ * Chart colors per category, for categories whose rule sets a valid CSS color.
+ */
+export function getCategoryColors(rules: ClassificationRule[] = loadClassificationRules()): { [category: string]: string } {
+    const colors: { [category: string]: string } = {};
+    for (const rule of rules) {
+        if (isCssColor(rule.color) && !colors[rule.category]) colors[rule.category] = rule.color;
+    }
+    return colors;
+}
+
+interface CompiledRule {
+    rule: ClassificationRule;
+    regexes: RegExp[];
+}
+
+function compile(rules: ClassificationRule[]): CompiledRule[] {
+    return rules.map(rule => ({
+        rule,
+        regexes: rule.patterns.flatMap(p => {
+            if (typeof p !== 'string' || p.length > MAX_PATTERN_LENGTH) {
+                console.log(`Antigravity Monitor: Skipping classification pattern for ${rule.category} longer than ${MAX_PATTERN_LENGTH} characters`);
+                return [];
+            }
+            try {
+                return [new RegExp(p, 'gim')];
+            } catch (e) {
+                console.log(`Antigravity Monitor: Invalid classification pattern for ${rule.category}: ${p}`);
+                return [];
+            }
+        })
+    }));
+}
+
+/**
+ * Score every category against the text. All matching rules contribute, so a snippet that
+ * mentions `null` once but is otherwise code still scores highest as Coding.
+ */
+export function scoreText(text: string, languageId: string | undefined, compiled: CompiledRule[]): Map<string, number> {
+    const scores = new Map<string, number>();
+    text = text.slice(0, MAX_CLASSIFIED_LENGTH);
+    for (const { rule, regexes } of compiled) {
+        if (rule.languages && rule.languages.length > 0 && (!languageId || !rule.languages.includes(languageId))) continue;
+        const weight = rule.weight ?? 1;
+        for (const regex of regexes) {
+            regex.lastIndex = 0;
+            const matches = Math.min(MAX_MATCHES_PER_PATTERN, (text.match(regex) || []).length);
+            if (matches > 0) scores.set(rule.category, (scores.get(rule.category) || 0) + matches * weight);
+        }
+    }
+    return scores;
+}
+
+export interface Classifier extends vscode.Disposable {
+    classify(text: string, languageId?: string): Classification;
+    /** Fires when settings or a repo rules file change, or the workspace becomes trusted */
+    onDidChangeRules: vscode.Event<void>;
+}
+
+export function createClassifier(): Classifier {
+    let compiled = compile(loadClassificationRules());
+    const changeEmitter = new vscode.EventEmitter<void>();
+
+    const reload = () => {
+        compiled = compile(loadClassificationRules());
+        changeEmitter.fire();
+    };
+
+    const configListener = vscode.workspace.onDidChangeConfiguration((e) => {
+        if (e.affectsConfiguration('antigravity.classification')) reload();
+    });
+    const watcher = vscode.workspace.createFileSystemWatcher('**/' + REPO_RULES_FILE.replace(/\\/g, '/'));
+    watcher.onDidChange(reload);
+    watcher.onDidCreate(reload);
+    watcher.onDidDelete(reload);
+    const trustListener = vscode.workspace.onDidGrantWorkspaceTrust(reload);
+
+    return {
+        classify(text, languageId) {
+            const scores = scoreText(text, languageId, compiled);
+            const ranked = Array.from(scores.entries()).filter(([, s]) => s > 0).sort((a, b) => b[1] - a[1]);
+            if (ranked.length === 0) return { primary: FALLBACK_CATEGORY, labels: [FALLBACK_CATEGORY] };
+
+            const ratio = vscode.workspace.getConfiguration('antigravity.classification').get<number>('multiLabelRatio', 0.6);
+            const top = ranked[0][1];
+            return {
+                primary: ranked[0][0],
+                labels: ranked.filter(([, s]) => s >= top * ratio).map(([c]) => c)
+            };
+        },
+        onDidChangeRules: changeEmitter.event,
+        dispose() {
+            configListener.dispose();
+            watcher.dispose();
+            trustListener.dispose();
+            changeEmitter.dispose();
+        }
+    };
+}
@@ -0,0 +1,6 @@
+// Colors from settings and repo rules end up in the dashboard's inline styles, so only plain CSS color values pass
+const CSS_COLOR = /^(#[0-9a-f]{3,4}|#[0-9a-f]{6}|#[0-9a-f]{8}|(rgba?|hsla?)\(\s*[0-9.,%\s/deg+-]+\)|[a-z]+)$/i;
+
+export function isCssColor(value: unknown): value is string {
+    return typeof value === 'string' && value.length <= 64 && CSS_COLOR.test(value.trim());
+}
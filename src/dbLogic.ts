@@ -1,129 +1,126 @@
 
-import * as path from 'path';
-import * as fs from 'fs';
-import * as os from 'os';
-// @ts-ignore
-const initSqlJs = require('sql.js');
+import type { Database } from 'sql.js';
+import { StateDbHit, StateDbReader } from './stateDb';
 
-export async function getUserEmailFromDB(): Promise<string | null> {
+/**
+ * The signed-in account's email, from the first state DB that has one.
+ */
+export async function getUserEmailFromDB(stateDb: StateDbReader): Promise<StateDbHit<string> | null> {
     try {
-        const homeDir = os.homedir();
-        // Candidate paths for VS Code / Antigravity global state DB
-        // Prioritize Antigravity as requested by user
-        const candidatePaths = [
-            path.join(homeDir, 'Library/Application Support/Antigravity/User/globalStorage/state.vscdb'),
-            path.join(homeDir, 'Library/Application Support/Code/User/globalStorage/state.vscdb'),
-            path.join(homeDir, 'Library/Application Support/Code - Insiders/User/globalStorage/state.vscdb'),
-            path.join(homeDir, 'Library/Application Support/Cursor/User/globalStorage/state.vscdb'),
-            // Windows
-            path.join(homeDir, 'AppData/Roaming/Antigravity/User/globalStorage/state.vscdb'),
-            path.join(homeDir, 'AppData/Roaming/Code/User/globalStorage/state.vscdb'),
-            // Linux
-            path.join(homeDir, '.config/antigravity/User/globalStorage/state.vscdb'),
-            path.join(homeDir, '.config/Code/User/globalStorage/state.vscdb'),
-        ];
-
-        let dbPath = '';
-        for (const p of candidatePaths) {
-            if (fs.existsSync(p)) {
-                dbPath = p;
-                break;
-            }
-        }
-
-        if (!dbPath) {
-            console.log('Antigravity Monitor: Could not find state.vscdb');
-            return null;
-        }
+        return await stateDb.lookup('Email', readUserEmail);
+    } catch (err: any) {
+        console.error('Antigravity Monitor: DB read error:', err.message);
+        return null;
+    }
+}
 
-        console.log(`Antigravity Monitor: Reading DB from ${dbPath}`);
-        
-        // Initialize sql.js
-        const SQL = await initSqlJs();
-        
-        // Read DB file
-        const filebuffer = fs.readFileSync(dbPath);
+function readUserEmail(db: Database): string | null {
+    // Query for keys. User saw 'thStatus' in the file.
+    // We'll search for typical auth keys and the one observed by user.
         
-        // Load the db
-        const db = new SQL.Database(filebuffer);
-        
-        // Query for keys. User saw 'thStatus' in the file.
-        // We'll search for typical auth keys and the one observed by user.
-        
-        // Check tables first
-        try {
-            /*
-            const tables = db.exec("SELECT name FROM sqlite_master WHERE type='table'");
-            if (tables.length > 0 && tables[0].values) {
-                console.log('Antigravity Monitor: Tables in DB:', tables[0].values.flat());
-            }
-            */
+    // Check tables first
+    try {
+        /*
+        const tables = db.exec("SELECT name FROM sqlite_master WHERE type='table'");
+        if (tables.length > 0 && tables[0].values) {
+            console.log('Antigravity Monitor: Tables in DB:', tables[0].values.flat());
+        }
+        */
 
-            // Search for specific known keys AND keys ending in thStatus that might contain the email
-            const stmt = db.prepare("SELECT key, value FROM ItemTable WHERE key LIKE '%thStatus' OR key IN ('antigravityUnifiedStateSync.oauthToken', 'jetskiStateSync.agentManagerInitState')");
-            // stmt.bind(keysToCheck); // Not binding for this broad search
+        // Search for specific known keys AND keys ending in thStatus that might contain the email
+        const stmt = db.prepare("SELECT key, value FROM ItemTable WHERE key LIKE '%thStatus' OR key IN ('antigravityUnifiedStateSync.oauthToken', 'jetskiStateSync.agentManagerInitState')");
+        // stmt.bind(keysToCheck); // Not binding for this broad search
             
-            let foundEmail: string | null = null;
+        let foundEmail: string | null = null;
 
-            while (stmt.step()) {
-                const row = stmt.getAsObject();
-                const key = row.key as string;
-                const value = row.value as string;
+        while (stmt.step()) {
+            const row = stmt.getAsObject();
+            const key = row.key as string;
+            const value = row.value as string;
                 
-                // Debug log
-                // console.log(`Antigravity Monitor: Found key: ${key}`);
+            // Debug log
+            // console.log(`Antigravity Monitor: Found key: ${key}`);
                 
-                if (value) {
-                    try {
-                        const parsed = JSON.parse(value);
-                        // console.log(`Antigravity Monitor: Parsed value for ${key}:`, JSON.stringify(parsed, null, 2).slice(0, 200) + '...');
+            if (value) {
+                try {
+                    const parsed = JSON.parse(value);
+                    // console.log(`Antigravity Monitor: Parsed value for ${key}:`, JSON.stringify(parsed, null, 2).slice(0, 200) + '...');
 
-                        // Case 1: antigravityUnifiedStateSync.oauthToken
-                        if (key === 'antigravityUnifiedStateSync.oauthToken') {
-                             // Logic to extract email from oauth token structure
-                             // Often it has 'email' or 'user' field
-                             if (parsed.email) foundEmail = parsed.email;
-                             else if (parsed.user && parsed.user.email) foundEmail = parsed.user.email;
-                             else if (parsed.accessToken) {
-                                // Sometimes access token is JWT, maybe decode it? 
-                                // Or look for other fields like 'account'
-                                if (parsed.account && parsed.account.label) foundEmail = parsed.account.label;
-                             }
-                             // Log if found
-                             if (foundEmail) console.log(`Antigravity Monitor: Found email in ${key}: ${foundEmail}`);
-                        }
-                        // Case 2: jetskiStateSync.agentManagerInitState
-                        else if (key === 'jetskiStateSync.agentManagerInitState') {
-                            if (parsed.user && parsed.user.email) foundEmail = parsed.user.email;
-                            else if (parsed.email) foundEmail = parsed.email;
-                            // Log if found
-                            if (foundEmail) console.log(`Antigravity Monitor: Found email in ${key}: ${foundEmail}`);
-                        }
-                        // Case 3: Keys ending in 'thStatus' (e.g. observed by user)
-                        if (key.endsWith('thStatus')) {
-                            if (parsed.email) foundEmail = parsed.email;
-                            if (foundEmail) console.log(`Antigravity Monitor: Found email in ${key}: ${foundEmail}`);
-                        }
-                    } catch (e) {
-                         // Some values might not be JSON, ignore errors
-                        // console.log(`Antigravity Monitor: Error parsing JSON for key ${key}`, e);
+                    // Case 1: antigravityUnifiedStateSync.oauthToken
+                    if (key === 'antigravityUnifiedStateSync.oauthToken') {
+                         // Logic to extract email from oauth token structure
+                         // Often it has 'email' or 'user' field
+                         if (parsed.email) foundEmail = parsed.email;
+                         else if (parsed.user && parsed.user.email) foundEmail = parsed.user.email;
+                         else if (parsed.accessToken) {
+                            // Sometimes access token is JWT, maybe decode it? 
+                            // Or look for other fields like 'account'
+                            if (parsed.account && parsed.account.label) foundEmail = parsed.account.label;
+                         }
+                         // Log if found
+                         if (foundEmail) console.log(`Antigravity Monitor: Found email in ${key}: ${foundEmail}`);
+                    }
+                    // Case 2: jetskiStateSync.agentManagerInitState
+                    else if (key === 'jetskiStateSync.agentManagerInitState') {
+                        if (parsed.user && parsed.user.email) foundEmail = parsed.user.email;
+                        else if (parsed.email) foundEmail = parsed.email;
+                        // Log if found
+                        if (foundEmail) console.log(`Antigravity Monitor: Found email in ${key}: ${foundEmail}`);
                     }
+                    // Case 3: Keys ending in 'thStatus' (e.g. observed by user)
+                    if (key.endsWith('thStatus')) {
+                        if (parsed.email) foundEmail = parsed.email;
+                        if (foundEmail) console.log(`Antigravity Monitor: Found email in ${key}: ${foundEmail}`);
+                    }
+                } catch (e) {
+                     // Some values might not be JSON, ignore errors
+                    // console.log(`Antigravity Monitor: Error parsing JSON for key ${key}`, e);
                 }
-                if (foundEmail) break;
             }
-            if (stmt) stmt.free();
-            db.close();
+            if (foundEmail) break;
+        }
+        if (stmt) stmt.free();
 
-            return foundEmail;
+        return foundEmail;
 
-        } catch (e) {
-            console.log('Antigravity Monitor: Error querying ItemTable', e);
-            db.close();
-            return null;
-        }
+    } catch (e) {
+        console.log('Antigravity Monitor: Error querying ItemTable', e);
+        return null;
+    }
+}
 
+/**
+ * Read the model currently selected in the Antigravity agent panel from state.vscdb.
+ * The value is either a plain model id or a JSON object carrying a label/model field.
+ */
+export async function getSelectedModelFromDB(stateDb: StateDbReader): Promise<string | null> {
+    try {
+        const hit = await stateDb.lookup('Selected model', readSelectedModel);
+        return hit?.value ?? null;
     } catch (err: any) {
-        console.error('Antigravity Monitor: DB read error:', err.message);
+        console.log('Antigravity Monitor: Could not read selected model from DB:', err.message);
         return null;
     }
 }
+
+function readSelectedModel(db: Database): string | null {
+    const stmt = db.prepare("SELECT key, value FROM ItemTable WHERE key LIKE '%selectedModel%' OR key LIKE '%lastUsedModel%'");
+    let model: string | null = null;
+    try {
+        while (stmt.step() && !model) {
+            const value = stmt.getAsObject().value as string;
+            if (!value) continue;
+            try {
+                const parsed = JSON.parse(value);
+                if (typeof parsed === 'string') model = parsed;
+                else model = parsed?.label || parsed?.model || parsed?.name || null;
+            } catch (e) {
+                // Not JSON - stored as the raw model id
+                model = value;
+            }
+        }
+    } finally {
+        stmt.free();
+    }
+    return model;
+}
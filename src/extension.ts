@@ -2,78 +2,50 @@ import * as vscode from 'vscode';
 import * as fs from 'fs';
 import * as path from 'path';
 import * as os from 'os';
-import * as https from 'https';
-import { execSync } from 'child_process';
-import { getUserEmailFromDB } from './dbLogic';
+import { createLanguageServerClient } from './languageServer';
+import { StateDbCandidate, createStateDbReader } from './stateDb';
+import { Identity, IDENTITY_SOURCE_LABELS, UNRESOLVED_EMAIL_DOMAIN, createIdentityProviders, resolveIdentity } from './identity';
+import { startUsageCollector } from './usageCollector';
+import { createChangeAttributor } from './attribution';
+import { createModelDetector, getModelColors } from './models';
+import { countTokens, preloadTokenizers, disposeTokenizers } from './tokenizers';
+import { ProjectIdentity, getProjectForUri } from './projects';
+import { runMigrations, getSchemaVersion, getMigrationHistory, SCHEMA_VERSION_KEY } from './migrations';
+import { createBackup, listBackups, restoreBackup } from './backups';
+import { ImportStrategy, readImportFile, summarizeStats, mergeStats, importStats } from './importStats';
+import { DeviceStats, DeviceSummary, createDeviceSync, getDeviceId } from './sync';
+import { UploadStatus, createUploader, getUploadUrl, promptForUploadToken } from './upload';
+import { startScheduledExports } from './scheduledExport';
+import { DateRange, EXPORT_FORMATS, ExportData, ExportFormat, filterExportData, rowsToCsv, serializeExport } from './serializers';
+import { EXPORT_PROFILES, ExportProfile, applyExportProfile, getExportProfile } from './anonymize';
+import { DAY_BUCKET_TIMEZONE_KEY, getTimeZone, toDateKey, toHour, daysAgoKey } from './time';
+import { createClassifier, getCategoryColors, EXCERPT_LENGTH } from './classifier';
+import { initJournal, compactJournalIfDue, rebuildRollups, rebucketHistory, rewriteEvents } from './journal';
+import { UsageBuffer, createUsageBuffer, recoverOrphanedBuffers } from './usageBuffer';
+import { DailyStats, TokenQueryStats, UsageSource, ChangeSourceStats, LanguageStats, HourlyStats, RolledUpPeriods, USAGE_STORAGE_KEY, TOKEN_QUERY_STORAGE_KEY, ROLLED_UP_PERIODS_KEY } from './stats';
+import { applyRetention, getRetentionPolicy, isNewPolicy } from './retention';
+import { DeletionFilter, previewDeletion, deleteData } from './manageData';
+import { createLazyExportSigner } from './signing';
+import { PRIVACY_CATEGORIES, LEGACY_EMAIL_CONSENT_KEY, PrivacyCategory, PrivacyControls, createPrivacyControls, purgeCollectedData } from './privacy';
 
 let aiUsageCount = 0;
 let aiGeneratedChars = 0;
 let statusBarItem: vscode.StatusBarItem;
 let activePanel: vscode.WebviewPanel | undefined;
-const USAGE_STORAGE_KEY = 'daily_usage_stats';
-const TOKEN_QUERY_STORAGE_KEY = 'daily_token_query_stats';
-const PROJECT_STORAGE_KEY = 'project_usage_stats';
-
-// Cached git branch (refreshed every 30s)
-let cachedBranch = 'unknown';
-let branchLastChecked = 0;
-
-function getCurrentBranch(): string {
-    // Strategy 1: Use VS Code's built-in Git extension API (Fast, no cache needed)
-    try {
-        const gitExtension = vscode.extensions.getExtension('vscode.git');
-        if (gitExtension) {
-            const gitApi = gitExtension.exports.getAPI(1);
-            if (gitApi && gitApi.repositories && gitApi.repositories.length > 0) {
-                // Find the repository for the current active file, or default to the first one
-                let repo = gitApi.repositories[0];
-                if (vscode.window.activeTextEditor) {
-                    const editorPath = vscode.window.activeTextEditor.document.uri.fsPath;
-                    const specificRepo = gitApi.repositories.find((r: any) => editorPath.startsWith(r.rootUri.fsPath));
-                    if (specificRepo) repo = specificRepo;
-                }
-                
-                const branchName = repo.state?.HEAD?.name;
-                if (branchName) {
-                    cachedBranch = branchName;
-                    // console.log('Antigravity Monitor: Branch from Git API =', cachedBranch);
-                    return cachedBranch;
-                }
-            }
-        }
-    } catch (e: any) {
-        // console.log('Antigravity Monitor: Git API failed:', e?.message || e);
-    }
-
-    const now = Date.now();
-    if (now - branchLastChecked < 10000 && cachedBranch !== 'unknown' && cachedBranch !== 'no-git-repo') {
-        return cachedBranch;
-    }
-
-    // Strategy 2: execSync with workspace folder as cwd (Slow, use cache)
-    try {
-        const wsFolder = vscode.workspace.workspaceFolders?.[0]?.uri.fsPath;
-        // console.log('Antigravity Monitor: Trying execSync with cwd =', wsFolder || '(none)');
-        if (wsFolder) {
-            cachedBranch = execSync('git rev-parse --abbrev-ref HEAD', { cwd: wsFolder, timeout: 3000 }).toString().trim();
-            console.log('Antigravity Monitor: Branch from execSync =', cachedBranch);
-        }
-    } catch (e: any) {
-        console.log('Antigravity Monitor: execSync git failed:', e?.message || e);
-        cachedBranch = 'no-git-repo';
-    }
-
-    branchLastChecked = now;
-
-    return cachedBranch;
-}
+let usageBuffer: UsageBuffer | undefined;
+let uploadStatus: UploadStatus | undefined;
 
+// '' for whatever the user has not consented to
 interface SystemInfo {
     hostname: string;
     mac: string;
 }
 
-function getSystemInfo(): SystemInfo {
+function getSystemInfo(privacy: PrivacyControls): SystemInfo {
+    const hostname = privacy.isAllowed('hostname') ? os.hostname() : '';
+    if (hostname) privacy.record('hostname', 'read', 'os.hostname()');
+    if (!privacy.isAllowed('mac')) return { hostname, mac: '' };
+
     let mac = 'unknown';
     try {
         const interfaces = os.networkInterfaces();
@@ -91,327 +63,327 @@ function getSystemInfo(): SystemInfo {
         }
     } catch (e) {}
 
-    return { hostname: os.hostname(), mac };
-}
-
-const QUERY_TYPES = ['Coding', 'Debugging', 'Planning', 'Search', 'Documentation', 'General Question'] as const;
-
-function classifyQuery(text: string): string {
-    const lower = text.toLowerCase();
-    // Debugging: error messages, stack traces, fix attempts
-    if (/\b(error|exception|bug|fix|debug|traceback|stack\s*trace|undefined|null|crash|failed|issue)\b/.test(lower)) {
-        return 'Debugging';
-    }
-    // Search/lookup patterns
-    if (/\b(search|find|lookup|where|grep|locate|query|select\s+from)\b/.test(lower)) {
-        return 'Search';
-    }
-    // Documentation/comments
-    if (/\b(docstring|jsdoc|readme|comment|documentation|@param|@return|@description|\/\*\*)\b/.test(lower)) {
-        return 'Documentation';
-    }
-    // Planning: architecture, design, todo
-    if (/\b(plan|todo|design|architecture|refactor|restructure|migrate|roadmap|implement\s+feature)\b/.test(lower)) {
-        return 'Planning';
-    }
-    // Coding: code patterns (functions, classes, imports, variables)
-    if (/\b(function|class|const|let|var|import|export|return|if|for|while|def |async|await|=>)\b/.test(lower)
-        || /[{};()\[\]]/.test(text)) {
-        return 'Coding';
-    }
-    return 'General Question';
+    privacy.record('mac', 'read', 'network interfaces');
+    return { hostname, mac };
 }
 
-// Updated interface to track tokens per model
-interface DailyStats {
-    [date: string]: {
-        [model: string]: number; 
-    };
-}
+let userIdentity: Identity | null = null;
 
-interface LegacyDailyStats {
-    [date: string]: number;
+// Header text for the webview: the email and which provider it came from
+function getIdentityDisplay(): { email: string; source: string } {
+    return userIdentity
+        ? { email: userIdentity.email, source: IDENTITY_SOURCE_LABELS[userIdentity.source] + (userIdentity.detail ? ` (${userIdentity.detail})` : '') }
+        : { email: 'Guest', source: 'not resolved' };
 }
 
-const MODELS = [
-    'Gemini 1.5 Pro',
-    'Gemini 3 Flash',
-    'Claude Sonnet 4.5',
-    'GPT-OSS 120B (Medium)'
-];
-
-let userEmail = 'Guest';
-
 export async function activate(context: vscode.ExtensionContext) {
     console.log('Antigravity Monitor: now active!');
+
+    // One client for every caller, so the server is discovered (and its certificate pinned) once
+    const languageServer = createLanguageServerClient();
+    // State DBs of this editor and its siblings, read through snapshots; remembers which one answered
+    const stateDb = createStateDbReader(context);
     
-    // ── Get signed-in email from Antigravity local process API ──────────────────
-    // Approach: scan for Antigravity process → extract port+CSRF → call getUserStatus
-    // This is the same technique used by vscode-antigravity-cockpit.
-    async function getAntigravityEmail(): Promise<string | null> {
-        // SECURITY CHECK: Flag behavior as not safe and ask for user consent
-        const consentKey = 'antigravity.unsafeEmailAccessConsent';
-        const hasConsented = context.globalState.get<boolean>(consentKey, false);
-
-        if (!hasConsented) {
-            const friendlyMsg = 'Antigravity Monitor: To display your email address in the dashboard, we need permission to read your VS Code profile. Do you want to allow this?';
+    // ── Privacy: what may be collected, per category (Privacy Settings), and an audit log of every read ──
+    const privacy = createPrivacyControls(context);
+    context.subscriptions.push(privacy);
+    const privacyCategories = Object.keys(PRIVACY_CATEGORIES) as PrivacyCategory[];
+
+    // JSON exports and uploads carry a signature by this installation's key, so the dashboard can detect edits.
+    // The key is loaded on the first export; when it can't be, exports go out unsigned (warned once per session).
+    let unsignedWarningShown = false;
+    const signer = createLazyExportSigner(context, (reason) => {
+        console.log('Antigravity Monitor: Export signing key unavailable, exporting unsigned:', reason);
+        if (!unsignedWarningShown) vscode.window.showWarningMessage(`Exports are not signed because the signing key could not be loaded: ${reason}`);
+        unsignedWarningShown = true;
+    });
+
+    // ── Identity: first provider in antigravity.identity.providers that knows the user's email ──
+    // Looking the email up needs the user's consent (asked once, changed in Privacy Settings)
+    let consentAnswer: Promise<boolean> | undefined;
+    function hasEmailAccessConsent(): Promise<boolean> {
+        if (privacy.getConsent('email')) return Promise.resolve(privacy.isAllowed('email'));
+        consentAnswer = consentAnswer || (async () => {
+            const friendlyMsg = 'Antigravity Monitor: To label your stats with your email address, we need permission to look it up (signed-in accounts, the editor state DB, the language server or git). Do you want to allow this?';
             const selection = await vscode.window.showInformationMessage(friendlyMsg, 'Allow', 'No');
-            
-            if (selection === 'Allow') {
-                await context.globalState.update(consentKey, true);
-            } else {
-                console.log('Antigravity Monitor: User denied email access.');
-                return null;
-            }
-        }
+            // Dismissed: ask again next session
+            if (!selection) return false;
+            await privacy.setConsent('email', selection === 'Allow');
+            if (selection !== 'Allow') console.log('Antigravity Monitor: User denied email access.');
+            return selection === 'Allow';
+        })();
+        return consentAnswer;
+    }
+    const identityProviders = createIdentityProviders(languageServer, stateDb, async (source) => {
+        if (!await hasEmailAccessConsent()) return false;
+        privacy.record('email', 'read', IDENTITY_SOURCE_LABELS[source]);
+        return true;
+    });
 
-        // Strategy 0: Read from global state DB (New & Preferred)
-        const dbEmail = await getUserEmailFromDB();
-        if (dbEmail) {
-            console.log('Antigravity Monitor: Found email in global state DB:', dbEmail);
-            return dbEmail;
+    async function refreshIdentity() {
+        userIdentity = await resolveIdentity(identityProviders);
+        if (userIdentity) {
+            console.log(`Antigravity Monitor: ✅ Identity ${userIdentity.email} (${userIdentity.source})`);
+        } else {
+            console.log('Antigravity Monitor: Identity not resolved, showing Guest');
         }
+        if (activePanel) activePanel.webview.postMessage({ command: 'updateEmail', ...getIdentityDisplay() });
+    }
 
-        try {
-            // Scan running processes for the Antigravity language server
-            const cmd = process.platform === 'win32'
-                ? 'wmic process where "name=\'antigravity.exe\'" get commandline /format:list'
-                : 'ps aux';
-            const output = execSync(cmd, { timeout: 5000 }).toString();
+    // Run in background — update panel when resolved
+    refreshIdentity();
+    context.subscriptions.push(vscode.workspace.onDidChangeConfiguration(e => {
+        if (e.affectsConfiguration('antigravity.identity')) refreshIdentity();
+    }));
 
-            // Look for the process line containing port and csrf_token
-            const lines = output.split('\n');
-            let port: number | null = null;
-            let csrfToken: string | null = null;
+    console.log('Antigravity Monitor: Email resolution started in background.');
 
-            for (const line of lines) {
-                if (!line.includes('csrf_token') && !line.includes('csrf-token')) continue;
-                if (!line.toLowerCase().includes('antigravity') && !line.includes('language_server')) continue;
+    // Hostname, MAC address, branch names and file paths are left out until the user allows them
+    const undecided = privacyCategories.filter(c => c !== 'email' && !privacy.getConsent(c));
+    if (undecided.length > 0) {
+        const labels = undecided.map(c => PRIVACY_CATEGORIES[c].label).join(', ');
+        vscode.window.showInformationMessage(`Antigravity Monitor: Allow collecting these with your usage stats: ${labels}? Until you do, they are left out.`, 'Allow', 'Choose...', 'Deny').then(async (selection) => {
+            if (selection === 'Choose...') {
+                vscode.commands.executeCommand('antigravity.privacySettings');
+            } else if (selection) {
+                for (const category of undecided) await privacy.setConsent(category, selection === 'Allow');
+            }
+        });
+    }
+    
+    vscode.window.showInformationMessage('Antigravity Monitor: Loaded v9 (Real Data Tracking)');
 
-                const portMatch = line.match(/--port[=\s](\d+)/);
-                const tokenMatch = line.match(/--?(csrf[_-]token)[=\s](\S+)/);
+    // Bring stored data up to the current schema (each step backed up to globalStorageUri/backups first)
+    try {
+        await runMigrations(context);
+    } catch (e: any) {
+        console.log('Antigravity Monitor: Migration failed, will retry on next activation:', e?.message || e);
+    }
 
-                if (portMatch) port = parseInt(portMatch[1], 10);
-                if (tokenMatch) csrfToken = tokenMatch[2];
+    // Status Bar Init
+    const today = toDateKey();
+    const todayTokens = Object.values(context.globalState.get<DailyStats>(USAGE_STORAGE_KEY, {})[today] || {}).reduce((a, b) => a + b, 0);
 
-                if (port && csrfToken) break;
-            }
+    statusBarItem = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Right, 100);
+    statusBarItem.command = 'antigravity.showDailyChart';
+    context.subscriptions.push(statusBarItem);
 
-            if (!port || !csrfToken) {
-                console.log('Antigravity Monitor: Could not find Antigravity process port/CSRF');
-                return null;
-            }
+    // The identity provider chain (refreshIdentity above) resolves the email in the background and updates the open panel
+    const todaySource = context.globalState.get<TokenQueryStats>(TOKEN_QUERY_STORAGE_KEY, {})[today]?.source;
+    updateStatusBar(todayTokens, todaySource);
+    statusBarItem.show();
 
-            console.log(`Antigravity Monitor: Found Antigravity process on port ${port}`);
+    // Usage event journal: seeded once from pre-journal history, old events compacted daily
+    try {
+        initJournal(context);
+        compactJournalIfDue(context);
+    } catch (e: any) {
+        console.log('Antigravity Monitor: Journal init failed:', e?.message || e);
+    }
 
-            // Call Antigravity local API to get user status (same endpoint as cockpit)
-            const email = await new Promise<string | null>((resolve) => {
-                const payload = JSON.stringify({
-                    metadata: { ideName: 'antigravity', extensionName: 'antigravity', locale: 'en' }
-                });
-                const req = https.request({
-                    hostname: '127.0.0.1',
-                    port,
-                    path: '/exa.language_server_pb.LanguageServerService/GetUserStatus',
-                    method: 'POST',
-                    headers: {
-                        'Content-Type': 'application/json',
-                        'Content-Length': Buffer.byteLength(payload),
-                        'Connect-Protocol-Version': '1',
-                        'X-Codeium-Csrf-Token': csrfToken,
-                    },
-                    rejectUnauthorized: false,
-                    timeout: 5000,
-                    agent: false,
-                }, (res) => {
-                    let body = '';
-                    res.on('data', (chunk) => body += chunk);
-                    res.on('end', () => {
-                        try {
-                            const data = JSON.parse(body);
-                            const email = data?.userStatus?.email ||
-                                          data?.userStatus?.name ||
-                                          null;
-                            console.log('Antigravity Monitor: API response email:', email);
-                            resolve(email);
-                        } catch {
-                            resolve(null);
-                        }
-                    });
-                });
-                req.on('error', (e) => {
-                    console.log('Antigravity Monitor: API request error:', e.message);
-                    resolve(null);
-                });
-                req.on('timeout', () => { req.destroy(); resolve(null); });
-                req.write(payload);
-                req.end();
-            });
+    // Replay anything a crashed window left in its write-ahead log, then start buffering
+    try {
+        await recoverOrphanedBuffers(context);
+    } catch (e: any) {
+        console.log('Antigravity Monitor: Buffer recovery failed:', e?.message || e);
+    }
 
-            return email;
+    // Day and hour buckets follow antigravity.timezone (system zone by default). History stored
+    // under another zone - including the UTC keys used before this setting - is re-bucketed from the journal.
+    const bucketTimeZone = getTimeZone();
+    if (context.globalState.get<string>(DAY_BUCKET_TIMEZONE_KEY) !== bucketTimeZone) {
+        try {
+            await rebucketHistory(context, bucketTimeZone);
         } catch (e: any) {
-            console.log('Antigravity Monitor: Process scan failed:', e?.message);
-            return null;
+            console.log('Antigravity Monitor: Re-bucketing history failed:', e?.message || e);
         }
     }
 
-    // Run in background — update panel when resolved
-    (async () => {
-        const email = await getAntigravityEmail();
-        if (email) {
-            userEmail = email;
-            console.log('Antigravity Monitor: ✅ Signed-in email:', userEmail);
-            if (activePanel) activePanel.webview.postMessage({ command: 'updateEmail', email: userEmail });
-        } else {
-            console.log('Antigravity Monitor: Email not resolved, showing Guest');
+    // Daily detail older than antigravity.retention.dailyDetailDays is rolled up into weeks or months.
+    // Enabling or changing the policy backs the stats up first; later runs only roll up the day that aged out.
+    const retentionPolicy = getRetentionPolicy();
+    if (retentionPolicy) {
+        try {
+            if (isNewPolicy(context, retentionPolicy)) createBackup(context, 'retention', getSchemaVersion(context));
+            await applyRetention(context, retentionPolicy);
+        } catch (e: any) {
+            console.log('Antigravity Monitor: Applying the retention policy failed:', e?.message || e);
+        }
+    }
+    const buffer = createUsageBuffer(context, (patch) => {
+        if (!activePanel) return;
+        // A patch only has this device's values for the changed days; merged views need the full message
+        if (deviceSync.hasRemoteDevices()) {
+            postLiveUpdate();
+            return;
         }
-    })();
+        try {
+            activePanel.webview.postMessage({ command: 'livePatch', ...patch, projects: privacy.redactProjects(patch.projects), currentProject: privacy.redactProject(getProjectForUri()) });
+        } catch (e) { /* panel might be disposed */ }
+    });
+    usageBuffer = buffer;
+    context.subscriptions.push(buffer);
 
-    console.log('Antigravity Monitor: Email resolution started in background.');
-    
-    vscode.window.showInformationMessage('Antigravity Monitor: Loaded v9 (Real Data Tracking)');
+    function getLocalStats(): DeviceStats {
+        return { ...buffer.getRollups(), changeSources: buffer.getChangeSources() };
+    }
 
-    // Data Migration & Initialization
-    const today = new Date().toISOString().split('T')[0];
-    let rawStats: any = context.globalState.get(USAGE_STORAGE_KEY, {});
-    let stats: DailyStats = {};
+    // Usage from every synced device (just this one unless antigravity.sync.folder is set)
+    // The shard is shared with other devices, so it gets what the dashboard would show
+    const deviceSync = createDeviceSync(context, () => getSystemInfo(privacy).hostname, () => {
+        const local = getLocalStats();
+        return { ...local, projects: privacy.redactProjects(local.projects) };
+    });
+    context.subscriptions.push(deviceSync);
 
-    // Check for legacy data
-    const dates = Object.keys(rawStats);
-    if (dates.length > 0 && typeof rawStats[dates[0]] === 'number') {
-        for (const d of dates) {
-            stats[d] = { 'Gemini 1.5 Pro': rawStats[d] as number };
-        }
-        context.globalState.update(USAGE_STORAGE_KEY, stats);
-    } else {
-        stats = rawStats;
+    function getMergedStats(): DeviceStats {
+        return deviceSync.merge(getLocalStats());
     }
 
-    // Status Bar Init
-    const todayData = stats[today] || {};
-    const todayTokens = Object.values(todayData).reduce((a, b) => a + b, 0);
-    
-    statusBarItem = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Right, 100);
-    statusBarItem.command = 'antigravity.showDailyChart';
-    context.subscriptions.push(statusBarItem);
+    function getLiveUpdateMessage() {
+        const local = getLocalStats();
+        const merged = deviceSync.merge(local);
+        return {
+            command: 'liveUpdate',
+            modelStats: merged.usage,
+            tokenQueryStats: merged.tokenQuery,
+            projectStats: privacy.redactProjects(merged.projects),
+            languageStats: merged.languages,
+            hourlyStats: merged.hourly,
+            changeSourceStats: merged.changeSources,
+            deviceStats: deviceSync.getDevices(local),
+            syncEnabled: deviceSync.isEnabled(),
+            rolledUpPeriods: context.globalState.get<RolledUpPeriods>(ROLLED_UP_PERIODS_KEY, {}),
+            currentProject: privacy.redactProject(getProjectForUri()),
+            timeZone: getTimeZone()
+        };
+    }
 
-    // (email resolution runs in background via getAntigravityEmail IIFE above)
-    updateStatusBar(todayTokens);
-    statusBarItem.show();
-    // Seed token/query data from existing model data (one-time, date-based so it's safe)
-    const existingTokenQuery: any = context.globalState.get(TOKEN_QUERY_STORAGE_KEY, {});
-    if (Object.keys(existingTokenQuery).length === 0 && Object.keys(stats).length > 0) {
-        console.log('Antigravity Monitor: Seeding Token/Query data from existing model stats...');
-        const seededTQ: any = {};
-        for (const [date, models] of Object.entries(stats)) {
-            const dayTotal = (Object.values(models as Record<string, number>)).reduce((a, b) => a + b, 0);
-            seededTQ[date] = {
-                inputTokens: Math.ceil(dayTotal * 0.2),
-                outputTokens: Math.ceil(dayTotal * 0.8),
-                queries: { 'Coding': Math.ceil(dayTotal / 100) }
-            };
-        }
-        context.globalState.update(TOKEN_QUERY_STORAGE_KEY, seededTQ);
-        console.log('Antigravity Monitor: Seeded Token/Query data for', Object.keys(seededTQ).length, 'days');
+    function postLiveUpdate() {
+        if (!activePanel) return;
+        try {
+            activePanel.webview.postMessage(getLiveUpdateMessage());
+        } catch (e) { /* panel might be disposed */ }
     }
 
-    // Clean up incorrectly seeded/migrated project data (one-time cleanup)
-    const existingProject: any = context.globalState.get(PROJECT_STORAGE_KEY, {});
-    const projectKeys = Object.keys(existingProject);
-    if (projectKeys.length > 0) {
-        let needsCleanup = false;
-        for (const key of projectKeys) {
-            const proj = existingProject[key];
-            // Detect seeded data: it only has 'Coding' queries with count = ceil(tokens/100)
-            if (proj && proj.queries && Object.keys(proj.queries).length === 1 && proj.queries['Coding']) {
-                const expectedFromSeed = Math.ceil((proj.inputTokens + proj.outputTokens) / 100);
-                if (proj.queries['Coding'] === expectedFromSeed || key === 'unknown') {
-                    console.log('Antigravity Monitor: Removing incorrectly seeded project data for:', key);
-                    delete existingProject[key];
-                    needsCleanup = true;
-                }
-            }
-        }
-        if (needsCleanup) {
-            context.globalState.update(PROJECT_STORAGE_KEY, existingProject);
-            console.log('Antigravity Monitor: Project data cleaned. Remaining branches:', Object.keys(existingProject));
-        }
+    function refreshStatusBar() {
+        const dateKey = toDateKey();
+        const stats = getMergedStats();
+        const totalToday = Object.values(stats.usage[dateKey] || {}).reduce((a, b) => a + b, 0);
+        updateStatusBar(totalToday, stats.tokenQuery[dateKey]?.source);
     }
 
+    context.subscriptions.push(deviceSync.onDidChangeShards(() => {
+        refreshStatusBar();
+        postLiveUpdate();
+    }));
+    refreshStatusBar();
+
+    // Consent changes apply to the open dashboard and this device's sync shard right away
+    context.subscriptions.push(privacy.onDidChange((category) => {
+        if (category === 'email') refreshIdentity();
+        deviceSync.refresh();
+        postLiveUpdate();
+        if (activePanel) activePanel.webview.postMessage({ command: 'updateSystemInfo', ...getSystemInfo(privacy) });
+    }));
+
+    context.subscriptions.push(vscode.workspace.onDidChangeConfiguration(async (e) => {
+        if (!e.affectsConfiguration('antigravity.timezone')) return;
+        try {
+            await buffer.flush();
+            await rebucketHistory(context, getTimeZone());
+            buffer.reload();
+            refreshStatusBar();
+            postLiveUpdate();
+        } catch (error: any) {
+            vscode.window.showErrorMessage(`Re-bucketing usage history failed: ${error.message}`);
+        }
+    }));
+
     // Event Listener - tracks model usage, token I/O, query type, and project/branch
-    context.subscriptions.push(vscode.workspace.onDidChangeTextDocument((event) => {
+    // Only changes attributed to AI count as usage; pastes, undo/redo, formatting and
+    // disk reloads are tallied separately under CHANGE_SOURCE_STORAGE_KEY.
+    const attributor = createChangeAttributor();
+    context.subscriptions.push(attributor);
+
+    const modelDetector = createModelDetector(languageServer, stateDb);
+    context.subscriptions.push(modelDetector);
+
+    // Slow vocabularies build in a worker; insertions are estimated until they are ready
+    preloadTokenizers();
+    context.subscriptions.push({ dispose: disposeTokenizers });
+
+    const classifier = createClassifier();
+    context.subscriptions.push(classifier);
+
+    context.subscriptions.push(vscode.workspace.onDidChangeTextDocument(async (event) => {
         if (event.contentChanges.length === 0) return;
 
-        for (const change of event.contentChanges) {
-            if (change.text.length > 30) {
-                aiUsageCount++;
-                const newChars = change.text.length;
-                aiGeneratedChars += newChars;
-                
-                const estimatedOutputTokens = Math.ceil(newChars / 4);
-                // Estimate input tokens as ~20% of output (prompt is usually shorter than response)
-                const estimatedInputTokens = Math.ceil(estimatedOutputTokens * 0.2);
-                const estimatedTokens = estimatedInputTokens + estimatedOutputTokens;
+        // A failure here would otherwise be an unhandled rejection on every keystroke
+        try {
+            for (const change of event.contentChanges) {
+                if (change.text.length === 0) continue;
+                const source = await attributor.classify(event, change);
+                const now = new Date();
+                buffer.addChangeSource(toDateKey(now), source, change.text.length);
+
+                if (source === 'ai') {
+                    aiUsageCount++;
+                    const newChars = change.text.length;
+                    aiGeneratedChars += newChars;
                 
-                const dateKey = new Date().toISOString().split('T')[0];
-
-                // 1. Model usage (existing)
-                const currentStats: DailyStats = context.globalState.get(USAGE_STORAGE_KEY, {});
-                if (!currentStats[dateKey]) currentStats[dateKey] = {};
-                const defaultModel = 'Gemini 1.5 Pro'; 
-                currentStats[dateKey][defaultModel] = (currentStats[dateKey][defaultModel] || 0) + estimatedTokens;
-                context.globalState.update(USAGE_STORAGE_KEY, currentStats);
+                    const activeModel = modelDetector.getActiveModel();
+                    const { tokens: estimatedOutputTokens, tokenizer } = await countTokens(activeModel, change.text);
+                    // Estimate input tokens as ~20% of output (prompt is usually shorter than response)
+                    const estimatedInputTokens = Math.ceil(estimatedOutputTokens * 0.2);
                 
-                const totalToday = Object.values(currentStats[dateKey]).reduce((a, b) => a + b, 0);
-                updateStatusBar(totalToday);
+                    const { primary: queryType, labels: queryLabels } = classifier.classify(change.text, event.document.languageId);
+                    // Attribute to the repository that owns the edited file, not the active editor's or the first folder's.
+                    // Branch names and paths are only kept as far as the user allowed.
+                    const project = privacy.redactProject(getProjectForUri(event.document.uri));
+                    const workspaceFolder = privacy.isAllowed('filePaths') ? vscode.workspace.getWorkspaceFolder(event.document.uri) : undefined;
+                    if (privacy.isAllowed('branchNames')) privacy.record('branchNames', 'read', 'git');
+                    if (workspaceFolder) privacy.record('filePaths', 'read', 'edited file');
+
+                    // Journal the insertion; the daily/token/project views are rollups of these events.
+                    // Days already covered by language-server counters keep their measured token
+                    // totals and the estimate only contributes the query count.
+                    buffer.addEvent({
+                        ts: now.toISOString(),
+                        date: toDateKey(now),
+                        hour: toHour(now),
+                        model: activeModel,
+                        branch: project.branch,
+                        repo: project.repoName,
+                        repoId: project.repoId,
+                        language: event.document.languageId,
+                        file: workspaceFolder ? path.relative(workspaceFolder.uri.fsPath, event.document.uri.fsPath) : undefined,
+                        queryType,
+                        queryLabels,
+                        excerpt: change.text.slice(0, EXCERPT_LENGTH),
+                        chars: newChars,
+                        inputTokens: estimatedInputTokens,
+                        outputTokens: estimatedOutputTokens,
+                        source: 'estimated',
+                        tokenizer
+                    });
+                    console.log('Antigravity Monitor: Tracked', queryType, '| Input:', estimatedInputTokens, '| Output:', estimatedOutputTokens, '| Project:', project.repoName + '@' + project.branch);
 
-                // 2. Token & Query tracking
-                const tqStats: any = context.globalState.get(TOKEN_QUERY_STORAGE_KEY, {});
-                if (!tqStats[dateKey]) {
-                    tqStats[dateKey] = { inputTokens: 0, outputTokens: 0, queries: {} };
-                }
-                tqStats[dateKey].inputTokens = (tqStats[dateKey].inputTokens || 0) + estimatedInputTokens;
-                tqStats[dateKey].outputTokens = (tqStats[dateKey].outputTokens || 0) + estimatedOutputTokens;
-                
-                const queryType = classifyQuery(change.text);
-                if (!tqStats[dateKey].queries) tqStats[dateKey].queries = {};
-                tqStats[dateKey].queries[queryType] = (tqStats[dateKey].queries[queryType] || 0) + 1;
-                context.globalState.update(TOKEN_QUERY_STORAGE_KEY, tqStats);
-                console.log('Antigravity Monitor: Tracked', queryType, '| Input:', estimatedInputTokens, '| Output:', estimatedOutputTokens);
-
-                // 3. Project/branch tracking
-                const branch = getCurrentBranch();
-                const projStats: any = context.globalState.get(PROJECT_STORAGE_KEY, {});
-                if (!projStats[branch]) {
-                    projStats[branch] = { inputTokens: 0, outputTokens: 0, queries: {} };
-                }
-                projStats[branch].inputTokens = (projStats[branch].inputTokens || 0) + estimatedInputTokens;
-                projStats[branch].outputTokens = (projStats[branch].outputTokens || 0) + estimatedOutputTokens;
-                if (!projStats[branch].queries) projStats[branch].queries = {};
-                projStats[branch].queries[queryType] = (projStats[branch].queries[queryType] || 0) + 1;
-                context.globalState.update(PROJECT_STORAGE_KEY, projStats);
-                console.log('Antigravity Monitor: Project tracked on branch:', branch);
-
-                // 4. Push live update to open dashboard panel
-                if (activePanel) {
-                    try {
-                        activePanel.webview.postMessage({
-                            command: 'liveUpdate',
-                            modelStats: context.globalState.get(USAGE_STORAGE_KEY, {}),
-                            tokenQueryStats: context.globalState.get(TOKEN_QUERY_STORAGE_KEY, {}),
-                            projectStats: context.globalState.get(PROJECT_STORAGE_KEY, {}),
-                            currentBranch: getCurrentBranch()
-                        });
-                    } catch (e) { /* panel might be disposed */ }
+                    refreshStatusBar();
                 }
             }
+        } catch (e: any) {
+            console.log('Antigravity Monitor: Tracking a document change failed:', e?.message || e);
         }
     }));
 
+    // Real per-model usage from the Antigravity language server (replaces estimates when available)
+    context.subscriptions.push(startUsageCollector(context, languageServer, (event) => buffer.addEvent(event), refreshStatusBar));
+
     // Show Metrics Command
     let disposableMetrics = vscode.commands.registerCommand('antigravity.showMetrics', () => {
-        const stats: DailyStats = context.globalState.get(USAGE_STORAGE_KEY, {});
-        const dateKey = new Date().toISOString().split('T')[0];
+        const stats: DailyStats = getMergedStats().usage;
+        const dateKey = toDateKey();
         const dayStats = stats[dateKey] || {};
         const total = Object.values(dayStats).reduce((a, b) => a + b, 0);
         
@@ -432,20 +404,26 @@ export async function activate(context: vscode.ExtensionContext) {
             }
         );
 
-        // Load real data from globalState
-        const viewStats: DailyStats = context.globalState.get(USAGE_STORAGE_KEY, {});
-        const tokenQueryData: any = context.globalState.get(TOKEN_QUERY_STORAGE_KEY, {});
-        const projectData: any = context.globalState.get(PROJECT_STORAGE_KEY, {});
-        const currentBranch = getCurrentBranch();
-        const sysInfo = getSystemInfo();
+        // Load real data from globalState (plus other devices' shards when syncing)
+        const localStats = getLocalStats();
+        const merged = deviceSync.merge(localStats);
+        const viewStats: DailyStats = merged.usage;
+        const tokenQueryData: any = merged.tokenQuery;
+        const projectData: any = privacy.redactProjects(merged.projects);
+        const languageData: LanguageStats = merged.languages;
+        const hourlyData: HourlyStats = merged.hourly;
+        const changeSourceData: ChangeSourceStats = merged.changeSources;
+        const deviceData = deviceSync.getDevices(localStats);
+        const currentProject = privacy.redactProject(getProjectForUri());
+        const sysInfo = getSystemInfo(privacy);
 
         console.log('Antigravity Monitor: Opening dashboard');
         console.log('  Model data dates:', Object.keys(viewStats).length);
         console.log('  Token/Query data dates:', Object.keys(tokenQueryData).length);
-        console.log('  Project data branches:', Object.keys(projectData));
-        console.log('  Current branch:', currentBranch);
+        console.log('  Project data repositories:', Object.keys(projectData));
+        console.log('  Current project:', currentProject.repoId, currentProject.branch);
 
-        panel.webview.html = getWebviewContent(viewStats, tokenQueryData, projectData, currentBranch, sysInfo.hostname, sysInfo.mac, userEmail);
+        panel.webview.html = getWebviewContent(viewStats, tokenQueryData, projectData, languageData, hourlyData, changeSourceData, deviceData, deviceSync.isEnabled(), context.globalState.get<RolledUpPeriods>(ROLLED_UP_PERIODS_KEY, {}), currentProject, sysInfo.hostname, sysInfo.mac, getIdentityDisplay());
 
         // Track panel reference for live updates
         activePanel = panel;
@@ -473,7 +451,8 @@ export async function activate(context: vscode.ExtensionContext) {
                         }
                         break;
                     case 'saveCSV':
-                        const csvContent = message.data;
+                        if (!Array.isArray(message.rows) || !message.rows.every(Array.isArray)) break;
+                        const csvContent = rowsToCsv(message.rows);
                         const csvName = message.filename || 'usage-quota.csv';
 
                         const csvUri = await vscode.window.showSaveDialog({
@@ -487,13 +466,7 @@ export async function activate(context: vscode.ExtensionContext) {
                         }
                         break;
                     case 'refreshData':
-                        panel.webview.postMessage({
-                            command: 'liveUpdate',
-                            modelStats: context.globalState.get(USAGE_STORAGE_KEY, {}),
-                            tokenQueryStats: context.globalState.get(TOKEN_QUERY_STORAGE_KEY, {}),
-                            projectStats: context.globalState.get(PROJECT_STORAGE_KEY, {}),
-                            currentBranch: getCurrentBranch()
-                        });
+                        panel.webview.postMessage(getLiveUpdateMessage());
                         break;
                 }
             },
@@ -505,11 +478,260 @@ export async function activate(context: vscode.ExtensionContext) {
     context.subscriptions.push(disposableMetrics);
     context.subscriptions.push(disposableChart);
 
+    // Rebuild Rollups Command - recompute the daily/token/project views from the event journal
+    const disposableRebuild = vscode.commands.registerCommand('antigravity.rebuildRollups', async () => {
+        try {
+            await buffer.flush();
+            const rollups = await rebuildRollups(context);
+            buffer.reload();
+            refreshStatusBar();
+            postLiveUpdate();
+            vscode.window.showInformationMessage(`Rebuilt usage stats from journal (${Object.keys(rollups.tokenQuery).length} days).`);
+        } catch (error: any) {
+            vscode.window.showErrorMessage(`Rebuild failed: ${error.message}`);
+        }
+    });
+    context.subscriptions.push(disposableRebuild);
+
+    // Apply Retention Command - roll up old daily detail now instead of on the next startup
+    const disposableRetention = vscode.commands.registerCommand('antigravity.applyRetention', async () => {
+        const policy = getRetentionPolicy();
+        if (!policy) {
+            const choice = await vscode.window.showInformationMessage('No retention policy is set: daily detail is kept forever.', 'Open Settings');
+            if (choice === 'Open Settings') vscode.commands.executeCommand('workbench.action.openSettings', 'antigravity.retention');
+            return;
+        }
+        const confirm = await vscode.window.showWarningMessage(
+            `Roll up daily stats older than ${policy.detailDays} days into ${policy.granularity} totals? Totals are kept, the split across days is not. The current stats are backed up first.`,
+            { modal: true }, 'Roll Up'
+        );
+        if (confirm !== 'Roll Up') return;
+        try {
+            await buffer.flush();
+            createBackup(context, 'retention', getSchemaVersion(context));
+            const rolled = await applyRetention(context, policy);
+            buffer.reload();
+            refreshStatusBar();
+            postLiveUpdate();
+            vscode.window.showInformationMessage(rolled > 0
+                ? `Rolled up ${rolled} day${rolled === 1 ? '' : 's'} into ${policy.granularity} totals.`
+                : `Nothing older than ${policy.detailDays} days to roll up.`);
+        } catch (error: any) {
+            vscode.window.showErrorMessage(`Applying the retention policy failed: ${error.message}`);
+        }
+    });
+    context.subscriptions.push(disposableRetention);
+
+    // Schema Info Command - current storage schema version and the migrations applied so far
+    const disposableSchemaInfo = vscode.commands.registerCommand('antigravity.showSchemaInfo', async () => {
+        const history = getMigrationHistory(context);
+        const items: vscode.QuickPickItem[] = history.slice().reverse().map(r => ({
+            label: `v${r.version}: ${r.name}`,
+            description: new Date(r.appliedAt).toLocaleString() + (r.changed ? '' : ' (nothing to change)'),
+            detail: r.backup ? `Backup: ${r.backup}` : 'No backup (no data yet)'
+        }));
+        if (items.length === 0) items.push({ label: 'No migrations recorded yet' });
+        await vscode.window.showQuickPick(items, { title: `Antigravity Monitor storage schema v${getSchemaVersion(context)}`, placeHolder: 'Migration history (newest first)' });
+    });
+    context.subscriptions.push(disposableSchemaInfo);
+
+    // State DB Diagnostics Command - which state.vscdb files were searched, and which one each lookup used
+    const disposableStateDb = vscode.commands.registerCommand('antigravity.showStateDbDiagnostics', async () => {
+        const describe = (c: StateDbCandidate) => `${c.product}${c.profile ? ` (profile ${c.profile})` : ''}`;
+        type DiagnosticsItem = vscode.QuickPickItem & { dbPath?: string };
+        const items: DiagnosticsItem[] = [{ label: 'Lookups', kind: vscode.QuickPickItemKind.Separator }];
+        const lookups = stateDb.lastLookups();
+        for (const lookup of lookups) {
+            const skipped = lookup.attempts.filter(a => a.outcome !== 'used')
+                .map(a => `${describe(a.candidate)}: ${a.outcome}${a.error ? ` (${a.error})` : ''}`);
+            items.push({
+                label: `${lookup.purpose}: ${lookup.used ? describe(lookup.used) : 'not found'}`,
+                description: new Date(lookup.at).toLocaleString(),
+                detail: (lookup.used ? `${lookup.used.path} — first DB with a value. ` : 'No DB had a value. ') + (skipped.length ? `Before it: ${skipped.join('; ')}` : ''),
+                dbPath: lookup.used?.path
+            });
+        }
+        if (lookups.length === 0) items.push({ label: 'Nothing read from a state DB yet', detail: 'The email is only read with your consent; the selected model only when the language server does not report it' });
+
+        items.push({ label: 'Candidates, in lookup order', kind: vscode.QuickPickItemKind.Separator });
+        for (const c of stateDb.candidates()) {
+            items.push({
+                label: `${c.exists ? '$(database)' : '$(circle-slash)'} ${describe(c)}`,
+                description: c.exists ? `${((c.size || 0) / 1024 / 1024).toFixed(1)} MB, modified ${new Date(c.modified || 0).toLocaleString()}` : 'not found',
+                detail: `${c.path} — ${c.reason}`,
+                dbPath: c.exists ? c.path : undefined
+            });
+        }
+        const picked = await vscode.window.showQuickPick(items, {
+            title: `State DBs for ${vscode.env.appName}`,
+            placeHolder: 'Pick a DB to reveal it in the file manager',
+            matchOnDetail: true
+        });
+        if (picked?.dbPath) vscode.commands.executeCommand('revealFileInOS', vscode.Uri.file(picked.dbPath));
+    });
+    context.subscriptions.push(disposableStateDb);
+
+    // Restore Backup Command - put back the stats stores from a backup, then re-run newer migrations
+    const disposableRestore = vscode.commands.registerCommand('antigravity.restoreBackup', async () => {
+        const backups = listBackups(context);
+        if (backups.length === 0) {
+            vscode.window.showInformationMessage('No stats backups found.');
+            return;
+        }
+        const picked = await vscode.window.showQuickPick(backups.map(b => ({
+            label: new Date(b.createdAt).toLocaleString(),
+            description: `${b.reason} (schema v${b.schemaVersion})`,
+            detail: b.file,
+            backup: b
+        })), { placeHolder: 'Select a backup to restore' });
+        if (!picked) return;
+
+        const confirm = await vscode.window.showWarningMessage(
+            `Replace all current usage stats with the backup from ${picked.label}? Usage tracked since then will be lost` +
+            (picked.backup.hasJournal ? ' (the event journal is restored too).' : ' (the journal is not changed).'),
+            { modal: true }, 'Restore'
+        );
+        if (confirm !== 'Restore') return;
+
+        try {
+            await buffer.flush();
+            const version = await restoreBackup(context, picked.backup.file);
+            await context.globalState.update(SCHEMA_VERSION_KEY, version);
+            await runMigrations(context);
+            // Days in the backup may be bucketed in another zone than the one configured now
+            if (context.globalState.get<string>(DAY_BUCKET_TIMEZONE_KEY) !== getTimeZone()) await rebucketHistory(context, getTimeZone());
+            buffer.reload();
+            refreshStatusBar();
+            postLiveUpdate();
+            vscode.window.showInformationMessage(`Restored usage stats from ${picked.label}.`);
+        } catch (error: any) {
+            vscode.window.showErrorMessage(`Restore failed: ${error.message}`);
+        }
+    });
+    context.subscriptions.push(disposableRestore);
+
+    // Manage Data Command - delete a date range, model, branch or query type (or everything), backed up first
+    const disposableManageData = vscode.commands.registerCommand('antigravity.manageData', async () => {
+        const local = getLocalStats();
+        const scopes: (vscode.QuickPickItem & { scope: 'dates' | 'model' | 'branch' | 'queryType' | 'seeded' | 'reset' })[] = [
+            { label: '$(calendar) Date range', detail: 'Everything tracked on the chosen days', scope: 'dates' },
+            { label: '$(hubot) Model', detail: 'One model\'s usage', scope: 'model' },
+            { label: '$(git-branch) Branch', detail: 'Usage tracked on one repository branch', scope: 'branch' },
+            { label: '$(symbol-enum) Query type', detail: 'Queries counted under one category (their tokens are kept)', scope: 'queryType' },
+            { label: '$(history) Seeded data from older versions', detail: 'Made-up query counts created from model totals before v9; the token split is re-estimated', scope: 'seeded' },
+            { label: '$(trash) Reset all data', detail: 'Every day, model, repository and query count', scope: 'reset' }
+        ];
+        const scope = await vscode.window.showQuickPick(scopes, { placeHolder: 'What do you want to delete?' });
+        if (!scope) return;
+
+        const byTotal = (totals: Map<string, number>, unit: string) => [...totals.entries()]
+            .sort((a, b) => b[1] - a[1])
+            .map(([label, n]) => ({ label, description: `${n.toLocaleString()} ${unit}` }));
+        let filter: DeletionFilter = { range: {} };
+        let what = '';
+        if (scope.scope === 'model') {
+            const totals = new Map<string, number>();
+            for (const models of Object.values(local.usage)) {
+                for (const [model, n] of Object.entries(models)) totals.set(model, (totals.get(model) || 0) + n);
+            }
+            const picked = await vscode.window.showQuickPick(byTotal(totals, 'tokens'), { placeHolder: 'Model to delete' });
+            if (!picked) return;
+            filter.model = picked.label;
+            what = `model ${picked.label}`;
+        } else if (scope.scope === 'branch') {
+            const items = Object.entries(local.projects).flatMap(([repoId, repo]) => Object.entries(repo.branches).map(([branch, b]) => ({
+                label: `${repo.name} / ${branch}`, description: `${(b.inputTokens + b.outputTokens).toLocaleString()} tokens`, detail: repoId, repoId, branch
+            })));
+            const picked = await vscode.window.showQuickPick(items, { placeHolder: 'Branch to delete' });
+            if (!picked) return;
+            filter = { range: {}, repoId: picked.repoId, branch: picked.branch };
+            what = `branch ${picked.label}`;
+        } else if (scope.scope === 'queryType') {
+            const totals = new Map<string, number>();
+            for (const day of Object.values(local.tokenQuery)) {
+                for (const [type, n] of Object.entries(day.queries || {})) totals.set(type, (totals.get(type) || 0) + n);
+            }
+            const picked = await vscode.window.showQuickPick(byTotal(totals, 'queries'), { placeHolder: 'Query type to delete' });
+            if (!picked) return;
+            filter.queryType = picked.label;
+            what = `query type ${picked.label}`;
+        } else if (scope.scope === 'seeded') {
+            filter.seeded = true;
+            what = 'seeded data';
+        }
+        if (scope.scope !== 'seeded' && scope.scope !== 'reset') {
+            const range = await pickDateRange(scope.scope === 'dates' ? 'Days to delete' : `Delete ${what} from which days?`);
+            if (!range) return;
+            filter.range = range;
+        }
+        const rangeText = filter.range.from || filter.range.to ? `${filter.range.from || 'the beginning'} to ${filter.range.to || 'today'}` : 'all time';
+        const description = scope.scope === 'reset' ? 'all usage data' : scope.scope === 'seeded' ? what : `${what || 'everything'} (${rangeText})`;
+
+        try {
+            await buffer.flush();
+            const preview = previewDeletion(context, filter);
+            if (preview.removed.tokens === 0 && preview.removed.queries === 0 && preview.removed.days === 0 && preview.projectTokens === 0 && preview.events === 0) {
+                vscode.window.showInformationMessage(`Nothing to delete for ${description}.`);
+                return;
+            }
+            const parts = [`${preview.removed.tokens.toLocaleString()} tokens`, `${preview.removed.queries.toLocaleString()} queries`];
+            if (preview.removed.days > 0) parts.push(`${preview.removed.days} days`);
+            if (preview.projectTokens !== 0) parts.push(`${preview.projectTokens.toLocaleString()} repository/branch tokens`);
+            // Seeded days keep their token totals; only the made-up 20/80 split is replaced
+            const seededNote = filter.seeded ? 'Those days keep their token totals, split 1 input to 5 output tokens like other estimated days. ' : '';
+            const confirm = await vscode.window.showWarningMessage(
+                `Delete ${description}? This removes ${parts.join(', ')} (${preview.events} journaled event${preview.events === 1 ? '' : 's'}). ` + seededNote +
+                'A backup is written first and can be put back with "Restore Stats from Backup".',
+                { modal: true }, 'Delete'
+            );
+            if (confirm !== 'Delete') return;
+
+            await buffer.flush();
+            createBackup(context, 'delete', getSchemaVersion(context));
+            await deleteData(context, filter);
+            buffer.reload();
+            refreshStatusBar();
+            postLiveUpdate();
+            vscode.window.showInformationMessage(`Deleted ${description}.`);
+        } catch (error: any) {
+            vscode.window.showErrorMessage(`Deleting data failed: ${error.message}`);
+        }
+    });
+    context.subscriptions.push(disposableManageData);
+
+    // Re-classify Command - apply the current classification rules to journaled history
+    const disposableReclassify = vscode.commands.registerCommand('antigravity.reclassifyHistory', async () => {
+        try {
+            await buffer.flush();
+            const changed = rewriteEvents(context, (e) => {
+                if (e.source !== 'estimated' || e.excerpt === undefined) return null;
+                const { primary, labels } = classifier.classify(e.excerpt, e.language);
+                if (primary === e.queryType && labels.join() === (e.queryLabels || []).join()) return null;
+                return { ...e, queryType: primary, queryLabels: labels };
+            });
+            await rebuildRollups(context);
+            buffer.reload();
+            postLiveUpdate();
+            // Compacted and pre-journal history has no text left and keeps its original types
+            vscode.window.showInformationMessage(`Re-classified ${changed} tracked insertion${changed === 1 ? '' : 's'}.`);
+        } catch (error: any) {
+            vscode.window.showErrorMessage(`Re-classification failed: ${error.message}`);
+        }
+    });
+    context.subscriptions.push(disposableReclassify);
+
+    context.subscriptions.push(classifier.onDidChangeRules(async () => {
+        const choice = await vscode.window.showInformationMessage('Query classification rules changed. Re-classify stored history?', 'Re-classify');
+        if (choice === 'Re-classify') vscode.commands.executeCommand('antigravity.reclassifyHistory');
+    }));
+
     // Helper to gather export data
-    const getExportData = () => {
-        const usageStats = context.globalState.get(USAGE_STORAGE_KEY, {});
-        const tokenQueryStats = context.globalState.get(TOKEN_QUERY_STORAGE_KEY, {});
-        const projectStats = context.globalState.get(PROJECT_STORAGE_KEY, {});
+    const getExportData = (): ExportData => {
+        const rollups = getMergedStats();
+        const usageStats = rollups.usage;
+        const tokenQueryStats = rollups.tokenQuery;
+        const projectStats = privacy.redactProjects(rollups.projects);
+        const changeSourceStats = rollups.changeSources;
         
         // Ensure consistent userId
         let storedUserId = context.globalState.get<string>('antigravity.userId');
@@ -520,30 +742,47 @@ export async function activate(context: vscode.ExtensionContext) {
 
         return {
             userId: storedUserId,
-            email: userEmail !== 'Guest' ? userEmail : 'exported_user@example.com',
+            // Unresolved users still need distinct emails, or they collide on the leaderboard
+            email: userIdentity?.email || `${storedUserId}@${UNRESOLVED_EMAIL_DOMAIN}`,
             usage: usageStats,
             tokenQuery: tokenQueryStats,
-            projects: projectStats
+            projects: projectStats,
+            languages: rollups.languages,
+            hourly: rollups.hourly,
+            timeZone: getTimeZone(),
+            changeSources: changeSourceStats
         };
     };
 
     // Register Export Data Command
     const disposableExport = vscode.commands.registerCommand('antigravity.exportStats', async () => {
         try {
-             const exportData = getExportData();
+             const pickedFormat = await vscode.window.showQuickPick(
+                 (Object.keys(EXPORT_FORMATS) as ExportFormat[]).map(format => ({ label: EXPORT_FORMATS[format].label, format })),
+                 { placeHolder: 'Export format' }
+             );
+             if (!pickedFormat) return;
+             const range = await pickDateRange();
+             if (!range) return;
+             const profile = await pickExportProfile();
+             if (!profile) return;
+             const { format } = pickedFormat;
+             const { extension } = EXPORT_FORMATS[format];
+             const exportData = filterExportData(applyExportProfile(getExportData(), profile), range);
 
              // Generate a default file name
-             const defaultFileName = `antigravity-stats-${new Date().toISOString().split('T')[0]}.json`;
+             const rangeSuffix = range.from || range.to ? `${range.from || 'start'}_to_${range.to || toDateKey()}` : toDateKey();
+             const defaultFileName = `antigravity-stats-${rangeSuffix}.${extension}`;
              
              // Ask user where to save
              const uri = await vscode.window.showSaveDialog({
-                 filters: { 'JSON': ['json'] },
+                 filters: { [format.toUpperCase()]: [extension] },
                  defaultUri: vscode.Uri.file(path.join(os.homedir(), 'Downloads', defaultFileName)),
                  saveLabel: 'Export Data'
              });
 
              if (uri) {
-                 fs.writeFileSync(uri.fsPath, JSON.stringify(exportData, null, 2));
+                 fs.writeFileSync(uri.fsPath, serializeExport(format === 'json' ? await signer.sign(exportData) : exportData, format));
                  vscode.window.showInformationMessage(`Successfully exported data to ${path.basename(uri.fsPath)}`);
                  
                  // Optional: Ask to open the file?
@@ -559,13 +798,101 @@ export async function activate(context: vscode.ExtensionContext) {
     });
     context.subscriptions.push(disposableExport);
 
+    // Register Import Data Command - merge an exported stats file back in (new machine, reinstall)
+    const disposableImport = vscode.commands.registerCommand('antigravity.importStats', async () => {
+        const uris = await vscode.window.showOpenDialog({
+            filters: { 'JSON': ['json'] },
+            defaultUri: vscode.Uri.file(path.join(os.homedir(), 'Downloads')),
+            canSelectMany: false,
+            openLabel: 'Import Data'
+        });
+        if (!uris || uris.length === 0) return;
+        const fileName = path.basename(uris[0].fsPath);
+
+        try {
+            const incoming = readImportFile(uris[0].fsPath);
+
+            const localUserId = context.globalState.get<string>('antigravity.userId');
+            if (incoming.userId && localUserId && incoming.userId !== localUserId) {
+                const confirm = await vscode.window.showWarningMessage(
+                    `${fileName} was exported by a different user (${incoming.email || incoming.userId}). Import it into your stats anyway?`,
+                    { modal: true }, 'Import Anyway'
+                );
+                if (confirm !== 'Import Anyway') return;
+            }
+
+            const fileSummary = summarizeStats(incoming);
+            if (fileSummary.days === 0) {
+                vscode.window.showInformationMessage(`${fileName} contains no usage stats.`);
+                return;
+            }
+
+            // Preview: what each strategy would leave in the local stats
+            const local = { ...buffer.getRollups(), changeSources: buffer.getChangeSources() };
+            const current = summarizeStats(local);
+            const describe = (strategy: ImportStrategy) => {
+                const after = summarizeStats(mergeStats(local, incoming, strategy).rollups);
+                const delta = after.tokens - current.tokens;
+                return `${after.days} days, ${after.tokens.toLocaleString()} tokens (${delta >= 0 ? '+' : ''}${delta.toLocaleString()}), ${after.queries.toLocaleString()} queries`;
+            };
+            const strategies: (vscode.QuickPickItem & { strategy: ImportStrategy })[] = [
+                { label: 'Sum', description: describe('sum'), detail: 'Add the file to your stats (for data tracked on another machine)', strategy: 'sum' },
+                { label: 'Keep max per day', description: describe('max'), detail: 'Keep whichever has more tokens for each day (for re-importing overlapping exports)', strategy: 'max' },
+                { label: 'Replace', description: describe('replace'), detail: 'Discard your current stats and use the file instead', strategy: 'replace' }
+            ];
+            const zoneNote = incoming.timeZone && incoming.timeZone !== getTimeZone() ? ` Days in the file are in ${incoming.timeZone}.` : '';
+            const picked = await vscode.window.showQuickPick(strategies, {
+                title: `Import ${fileName}: ${fileSummary.days} days (${fileSummary.firstDay} to ${fileSummary.lastDay}), ${fileSummary.tokens.toLocaleString()} tokens`,
+                placeHolder: `Currently ${current.days} days, ${current.tokens.toLocaleString()} tokens. Choose how to merge.${zoneNote}`
+            });
+            if (!picked) return;
+
+            await buffer.flush();
+            const backup = createBackup(context, 'import', getSchemaVersion(context));
+            const result = await importStats(context, incoming, picked.strategy);
+            buffer.reload();
+            refreshStatusBar();
+            postLiveUpdate();
+            vscode.window.showInformationMessage(
+                `Imported ${fileName} (${picked.label.toLowerCase()}): now ${result.days} days, ${result.tokens.toLocaleString()} tokens.` +
+                (backup ? ' The previous stats were backed up.' : '')
+            );
+        } catch (error: any) {
+            vscode.window.showErrorMessage(`Import failed: ${error.message}`);
+        }
+    });
+    context.subscriptions.push(disposableImport);
+
+    // Unattended exports and uploads use the configured profile (antigravity.export.profile)
+    const getProfiledExportData = () => signer.sign(applyExportProfile(getExportData(), getExportProfile()));
+
+    // Unattended exports to antigravity.autoExport.directory
+    context.subscriptions.push(startScheduledExports(context, getProfiledExportData, () => getSystemInfo(privacy).hostname || getDeviceId(context).slice(0, 8)));
+
+    // Dashboard uploads: queued, retried with backoff, optionally on a schedule
+    const uploader = createUploader(context, getProfiledExportData);
+    context.subscriptions.push(uploader);
+    context.subscriptions.push(uploader.onDidChangeStatus((status) => {
+        uploadStatus = status;
+        refreshStatusBar();
+    }));
+    uploadStatus = uploader.getStatus();
+    refreshStatusBar();
+
     // Register Export & Upload Command
     const disposableExportUpload = vscode.commands.registerCommand('antigravity.exportAndUpload', async () => {
+        if (!getUploadUrl()) {
+            const choice = await vscode.window.showWarningMessage('Set antigravity.upload.url to your team dashboard before uploading.', 'Open Settings');
+            if (choice === 'Open Settings') vscode.commands.executeCommand('workbench.action.openSettings', 'antigravity.upload');
+            return;
+        }
         try {
-            const exportDataStr = JSON.stringify(getExportData(), null, 2);
-            
-            // 1. Regular Export (Ask user where to save)
-            const defaultFileName = `antigravity-stats-${new Date().toISOString().split('T')[0]}.json`;
+            const profile = await pickExportProfile();
+            if (!profile) return;
+            const exportData = await signer.sign(applyExportProfile(getExportData(), profile));
+
+            // 1. Regular Export (Ask user where to save; cancel to only upload)
+            const defaultFileName = `antigravity-stats-${toDateKey()}.json`;
             const uri = await vscode.window.showSaveDialog({
                 filters: { 'JSON': ['json'] },
                 defaultUri: vscode.Uri.file(path.join(os.homedir(), 'Downloads', defaultFileName)),
@@ -573,54 +900,21 @@ export async function activate(context: vscode.ExtensionContext) {
             });
 
             if (uri) {
-                fs.writeFileSync(uri.fsPath, exportDataStr);
+                fs.writeFileSync(uri.fsPath, JSON.stringify(exportData, null, 2));
             }
-            
-            // 2. "Upload" to Dashboard Data
-            // Locate the dashboard data file relative to extension root
-            const extensionRoot = context.extensionUri.fsPath;
-            const dashboardDataPath = path.join(extensionRoot, 'dashboard', 'app', 'data', 'sample.json');
-            
-            if (fs.existsSync(dashboardDataPath)) {
-                let currentData: any[] = [];
-                try {
-                    const fileContent = fs.readFileSync(dashboardDataPath, 'utf8');
-                    const json = JSON.parse(fileContent);
-                    if (Array.isArray(json)) {
-                        currentData = json;
-                    } else {
-                        currentData = [json];
-                    }
-                } catch (e) {
-                    console.log('Error reading dashboard sample.json, starting fresh array');
-                }
-
-                // Update or Add current user
-                const currentUserData = getExportData();
-                const existingIndex = currentData.findIndex((u: any) => u.userId === currentUserData.userId || u.email === currentUserData.email);
-                
-                if (existingIndex >= 0) {
-                    // Merge/Update existing user (preserve avatarUrl if exists)
-                    currentData[existingIndex] = {
-                        ...currentData[existingIndex],
-                        ...currentUserData
-                    };
-                } else {
-                    // Add new user
-                    // Add a default avatar if missing
-                    const newUserData = {
-                        ...currentUserData,
-                        avatarUrl: `https://api.dicebear.com/7.x/avataaars/svg?seed=${currentUserData.userId}` 
-                    };
-                    currentData.push(newUserData);
-                }
 
-                fs.writeFileSync(dashboardDataPath, JSON.stringify(currentData, null, 2));
-                vscode.window.showInformationMessage(`Exported and Uploaded to Dashboard!`);
+            // 2. Upload to the dashboard; failures stay queued and are retried
+            const status = await vscode.window.withProgress(
+                { location: vscode.ProgressLocation.Notification, title: 'Uploading stats to dashboard...' },
+                () => uploader.upload(exportData)
+            );
+            if (status.pending === 0 && !status.lastError) {
+                vscode.window.showInformationMessage('Exported and Uploaded to Dashboard!');
+            } else if (status.pending > 0) {
+                vscode.window.showWarningMessage(`Upload failed (${status.lastError}). It is queued and will be retried automatically.`);
             } else {
-                 vscode.window.showWarningMessage(`Dashboard data file not found at: ${dashboardDataPath}`);
+                vscode.window.showErrorMessage(`Upload failed: ${status.lastError}`);
             }
-
         } catch (error: any) {
             vscode.window.showErrorMessage(`Export & Upload failed: ${error.message}`);
         }
@@ -628,27 +922,245 @@ export async function activate(context: vscode.ExtensionContext) {
 
     context.subscriptions.push(disposableExportUpload);
 
+    // Set Identity Command - confirm the resolved identity, pick another provider's, or enter one
+    const disposableSetIdentity = vscode.commands.registerCommand('antigravity.setIdentity', async () => {
+        const config = vscode.workspace.getConfiguration('antigravity');
+        const manual = config.get<string>('identity.email', '').trim();
+        const candidates = await vscode.window.withProgress(
+            { location: vscode.ProgressLocation.Notification, title: 'Looking up your identity...' },
+            () => Promise.all(identityProviders.map(async p => ({ provider: p, identity: await p.resolve().catch(() => null) })))
+        );
+        type IdentityItem = vscode.QuickPickItem & { action: 'keep' | 'use' | 'enter' | 'clear'; email?: string };
+        const items: IdentityItem[] = [];
+        if (userIdentity) {
+            items.push({ label: `$(check) Keep ${userIdentity.email}`, description: getIdentityDisplay().source, action: 'keep' });
+        }
+        for (const { provider, identity } of candidates) {
+            if (provider.source === 'manual' || !identity || identity.email === userIdentity?.email) continue;
+            items.push({ label: `$(person) Use ${identity.email}`, description: provider.label + (identity.detail ? ` (${identity.detail})` : ''), action: 'use', email: identity.email });
+        }
+        items.push({ label: '$(edit) Enter an email...', action: 'enter' });
+        if (manual) items.push({ label: '$(discard) Clear the manual override', description: `Resolve automatically instead of using ${manual}`, action: 'clear' });
+
+        const picked = await vscode.window.showQuickPick(items, {
+            title: userIdentity ? `Current identity: ${userIdentity.email}` : 'No identity resolved (exports use a placeholder email)',
+            placeHolder: 'Confirm or override the email your stats are exported under'
+        });
+        if (!picked || picked.action === 'keep') return;
+
+        let email = picked.email || '';
+        if (picked.action === 'enter') {
+            const entered = await vscode.window.showInputBox({
+                prompt: 'Email to export your stats under',
+                value: userIdentity?.email || '',
+                validateInput: (value) => /^[^\s@]+@[^\s@]+$/.test(value.trim()) ? undefined : 'Enter an email address'
+            });
+            if (entered === undefined) return;
+            email = entered.trim();
+        }
+        // Written to user settings; the configuration listener re-resolves and updates the dashboard header
+        await config.update('identity.email', picked.action === 'clear' ? undefined : email, vscode.ConfigurationTarget.Global);
+        vscode.window.showInformationMessage(picked.action === 'clear' ? 'Manual identity cleared.' : `Stats will be exported as ${email}.`);
+    });
+    context.subscriptions.push(disposableSetIdentity);
+
+    // Privacy Settings Command - allow or stop collecting each data category; reopens until dismissed
+    const disposablePrivacy = vscode.commands.registerCommand('antigravity.privacySettings', async () => {
+        type PrivacyItem = vscode.QuickPickItem & { category?: PrivacyCategory; action?: string };
+        for (;;) {
+            const log = privacy.getAuditLog();
+            const items: PrivacyItem[] = privacyCategories.map(category => {
+                const consent = privacy.getConsent(category);
+                const read = log.filter(e => e.category === category && e.action === 'read').pop();
+                const state = consent ? `${consent.granted ? 'Allowed' : 'Denied'} ${new Date(consent.at).toLocaleDateString()}` : 'Not decided (not collected)';
+                return {
+                    label: `${privacy.isAllowed(category) ? '$(pass-filled)' : '$(circle-large-outline)'} ${PRIVACY_CATEGORIES[category].label}`,
+                    description: state + (read ? `, last read ${new Date(read.last || read.at).toLocaleString()}` : ''),
+                    detail: PRIVACY_CATEGORIES[category].detail,
+                    category
+                };
+            });
+            items.push(
+                { label: '', kind: vscode.QuickPickItemKind.Separator },
+                { label: '$(history) Show Privacy Audit Log', action: 'antigravity.showPrivacyAuditLog' },
+                { label: '$(trash) Revoke Consent and Purge Data...', action: 'antigravity.revokeConsent' }
+            );
+            const picked = await vscode.window.showQuickPick(items, {
+                title: 'Privacy Settings',
+                placeHolder: 'Pick a category to allow it or stop collecting it (data already collected stays until you purge it)'
+            });
+            if (!picked) return;
+            if (picked.action) {
+                vscode.commands.executeCommand(picked.action);
+                return;
+            }
+            await privacy.setConsent(picked.category!, !privacy.isAllowed(picked.category!));
+        }
+    });
+    context.subscriptions.push(disposablePrivacy);
+
+    // Privacy Audit Log Command - when each data category was read, and every consent change and purge
+    const disposableAuditLog = vscode.commands.registerCommand('antigravity.showPrivacyAuditLog', async () => {
+        const icons: { [action: string]: string } = { read: '$(eye)', granted: '$(pass-filled)', denied: '$(circle-slash)', revoked: '$(circle-slash)', purged: '$(trash)' };
+        const items: vscode.QuickPickItem[] = privacy.getAuditLog().reverse().map(e => ({
+            label: `${icons[e.action]} ${PRIVACY_CATEGORIES[e.category].label}: ${e.action}`,
+            description: e.source,
+            detail: new Date(e.at).toLocaleString() + (e.last ? ` to ${new Date(e.last).toLocaleString()}` : '') + (e.count > 1 ? ` (${e.count} times)` : '')
+        }));
+        if (items.length === 0) items.push({ label: 'Nothing recorded yet' });
+        await vscode.window.showQuickPick(items, { title: 'Privacy Audit Log', placeHolder: 'Newest first', matchOnDescription: true });
+    });
+    context.subscriptions.push(disposableAuditLog);
+
+    // Revoke Consent Command - stop collecting the picked categories and remove what was already collected
+    const disposableRevoke = vscode.commands.registerCommand('antigravity.revokeConsent', async () => {
+        const purgeNotes: { [category in PrivacyCategory]: string } = {
+            email: 'Your email is no longer looked up and the resolved one is forgotten (a manual antigravity.identity.email stays).',
+            hostname: 'The sync shard and scheduled export file names of this device stop using the hostname.',
+            mac: 'The MAC address is never stored; it is no longer shown.',
+            branchNames: 'Branch names in recorded usage are reduced to main/master/develop/trunk and prefixes like feature/*.',
+            filePaths: 'Edited file paths are removed from recorded usage and local repository folders are replaced by a hash.'
+        };
+        const picked = await vscode.window.showQuickPick(
+            privacyCategories.map(category => ({
+                label: PRIVACY_CATEGORIES[category].label,
+                description: privacy.isAllowed(category) ? 'allowed' : 'not allowed',
+                detail: purgeNotes[category],
+                category
+            })),
+            { canPickMany: true, title: 'Revoke Consent and Purge Data', placeHolder: 'Categories to stop collecting and purge' }
+        );
+        if (!picked || picked.length === 0) return;
+        const categories = picked.map(p => p.category);
+
+        const stored = categories.includes('branchNames') || categories.includes('filePaths');
+        const backupCount = stored ? listBackups(context).length : 0;
+        const confirm = await vscode.window.showWarningMessage(
+            `Revoke consent for ${picked.map(p => p.label).join(', ')} and purge the data already collected?`,
+            {
+                modal: true,
+                detail: categories.map(c => purgeNotes[c]).join('\n') +
+                    (backupCount > 0 ? `\nAll ${backupCount} backups are deleted, because they contain the same data.` : '') +
+                    '\nData already exported or uploaded to the dashboard is not affected. This cannot be undone.'
+            },
+            'Revoke and Purge'
+        );
+        if (confirm !== 'Revoke and Purge') return;
+
+        try {
+            await buffer.flush();
+            for (const category of categories) await privacy.setConsent(category, false, 'revoked');
+            if (categories.includes('email')) {
+                await context.globalState.update(LEGACY_EMAIL_CONSENT_KEY, undefined);
+                stateDb.reset();
+                privacy.record('email', 'purged', 'resolved identity');
+            }
+            const result = await purgeCollectedData(context, categories);
+            for (const category of categories.filter(c => c === 'branchNames' || c === 'filePaths')) {
+                privacy.record(category, 'purged', `${result.events} journal events, ${result.backups} backups`);
+            }
+            buffer.reload();
+            refreshStatusBar();
+            postLiveUpdate();
+            vscode.window.showInformationMessage(`Consent revoked for ${picked.map(p => p.label).join(', ')}.` +
+                (stored ? ` Rewrote ${result.events} journal events and deleted ${result.backups} backups.` : ''));
+        } catch (error: any) {
+            buffer.reload();
+            vscode.window.showErrorMessage(`Purging collected data failed: ${error.message}`);
+        }
+    });
+    context.subscriptions.push(disposableRevoke);
+
+    // Set Upload Token Command - bearer token for the dashboard, stored in SecretStorage
+    const disposableUploadToken = vscode.commands.registerCommand('antigravity.setUploadToken', () => promptForUploadToken(context));
+    context.subscriptions.push(disposableUploadToken);
+
     vscode.commands.executeCommand('antigravity.showDailyChart');
 
 
 }
 
-function updateStatusBar(todayTokens: number) {
-    statusBarItem.text = `$(hubot) AI Tokens: ${todayTokens}`;
-    statusBarItem.tooltip = `Click to view usage history chart`;
+/**
+ * Ask for a range of days: a preset, or a custom from/to (inclusive, in the bucket time zone).
+ * Resolves to undefined when cancelled.
+ */
+async function pickDateRange(placeHolder = 'Date range to export (project totals are always all-time)'): Promise<DateRange | undefined> {
+    const today = toDateKey();
+    const [y, m] = today.split('-').map(Number);
+    const monthKey = (year: number, month: number) => `${year}-${String(month).padStart(2, '0')}`;
+    const lastMonth = m === 1 ? monthKey(y - 1, 12) : monthKey(y, m - 1);
+    const presets: (vscode.QuickPickItem & { range?: DateRange })[] = [
+        { label: 'All Time', range: {} },
+        { label: 'Last 7 Days', range: { from: daysAgoKey(6), to: today } },
+        { label: 'Last 30 Days', range: { from: daysAgoKey(29), to: today } },
+        { label: 'This Month', range: { from: `${today.slice(0, 7)}-01`, to: today } },
+        { label: 'Last Month', range: { from: `${lastMonth}-01`, to: `${lastMonth}-31` } },
+        { label: 'This Year', range: { from: `${y}-01-01`, to: today } },
+        { label: 'Custom Range...' }
+    ];
+    const picked = await vscode.window.showQuickPick(presets, { placeHolder });
+    if (!picked) return undefined;
+    if (picked.range) return picked.range;
+
+    const validateDate = (value: string) => !value || /^\d{4}-\d{2}-\d{2}$/.test(value.trim()) ? undefined : 'Use YYYY-MM-DD, or leave empty';
+    const from = await vscode.window.showInputBox({ prompt: 'First day (YYYY-MM-DD), empty for the beginning', validateInput: validateDate });
+    if (from === undefined) return undefined;
+    const to = await vscode.window.showInputBox({ prompt: 'Last day (YYYY-MM-DD), empty for today', value: today, validateInput: validateDate });
+    if (to === undefined) return undefined;
+    return { from: from.trim() || undefined, to: to.trim() || undefined };
 }
 
-function getWebviewContent(stats: DailyStats, tokenQueryStats: any, projectStats: any, currentBranch: string, hostname: string, mac: string, userEmail: string) {
-    const allStats = JSON.stringify(stats);
-    const allTokenQueryStats = JSON.stringify(tokenQueryStats);
-    const allProjectStats = JSON.stringify(projectStats);
-    const modelColors = {
-        'Gemini 1.5 Pro': 'rgba(158, 158, 158, 0.8)',
-        'Gemini 3 Flash': 'rgba(234, 179, 8, 0.8)',
-        'Claude Sonnet 4.5': 'rgba(139, 92, 246, 0.8)',
-        'GPT-OSS 120B (Medium)': 'rgba(45, 212, 191, 0.8)',
-        'Other': 'rgba(201, 203, 207, 0.8)'
-    };
+/**
+ * Ask which export profile to use, offering the configured one first. Resolves to undefined when cancelled.
+ */
+async function pickExportProfile(): Promise<ExportProfile | undefined> {
+    const configured = getExportProfile();
+    const profiles = (Object.keys(EXPORT_PROFILES) as ExportProfile[]).sort((a, b) => Number(b === configured) - Number(a === configured));
+    const picked = await vscode.window.showQuickPick(
+        profiles.map(profile => ({ ...EXPORT_PROFILES[profile], description: profile === configured ? 'default' : undefined, profile })),
+        { placeHolder: 'Export profile' }
+    );
+    return picked?.profile;
+}
+
+function getUploadNote(): string {
+    if (!uploadStatus || (!uploadStatus.lastSuccessAt && !uploadStatus.lastError && uploadStatus.pending === 0)) return '';
+    const lines = [`Dashboard upload: ${uploadStatus.lastSuccessAt ? 'last succeeded ' + new Date(uploadStatus.lastSuccessAt).toLocaleString() : 'never succeeded'}`];
+    if (uploadStatus.pending > 0) {
+        const retry = uploadStatus.nextAttemptAt ? `, next try ${new Date(uploadStatus.nextAttemptAt).toLocaleTimeString()}` : '';
+        lines.push(`${uploadStatus.pending} upload${uploadStatus.pending === 1 ? '' : 's'} pending${retry}`);
+    }
+    if (uploadStatus.lastError) lines.push(`Last error: ${uploadStatus.lastError}`);
+    return lines.join('\n') + '\n';
+}
+
+function updateStatusBar(todayTokens: number, source: UsageSource = 'estimated') {
+    statusBarItem.text = `$(hubot) AI Tokens: ${source === 'measured' ? '' : '~'}${todayTokens}`;
+    const sourceNote = source === 'measured'
+        ? 'Measured by the Antigravity language server'
+        : 'Estimated from inserted characters';
+    statusBarItem.tooltip = `${sourceNote}\n${getUploadNote()}Click to view usage history chart`;
+}
+
+function escapeHtml(text: string): string {
+    return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+// JSON for inlining into a <script>: no `<` to close the tag early, and no raw U+2028/U+2029
+function scriptJson(value: unknown): string {
+    return JSON.stringify(value).replace(/</g, '\\u003c').replace(/\u2028/g, '\\u2028').replace(/\u2029/g, '\\u2029');
+}
+
+function getWebviewContent(stats: DailyStats, tokenQueryStats: any, projectStats: any, languageStats: LanguageStats, hourlyStats: HourlyStats, changeSourceStats: ChangeSourceStats, deviceStats: DeviceSummary[], syncEnabled: boolean, rolledUpPeriods: RolledUpPeriods, currentProject: ProjectIdentity, hostname: string, mac: string, identity: { email: string; source: string }) {
+    const allStats = scriptJson(stats);
+    const allTokenQueryStats = scriptJson(tokenQueryStats);
+    const allProjectStats = scriptJson(projectStats);
+    const allLanguageStats = scriptJson(languageStats);
+    const allHourlyStats = scriptJson(hourlyStats);
+    const allChangeSourceStats = scriptJson(changeSourceStats);
+    const allDeviceStats = scriptJson(deviceStats);
+    const modelColors = getModelColors();
+    const categoryColors = getCategoryColors();
 
     return `<!DOCTYPE html>
 <html lang="en">
@@ -712,6 +1224,9 @@ function getWebviewContent(stats: DailyStats, tokenQueryStats: any, projectStats
         .query-table td { padding: 12px 15px; text-align: left; border-bottom: 1px solid rgba(128,128,128,0.15); }
         .query-table tr:hover td { background: rgba(128,128,128,0.06); }
         .badge { display: inline-block; width: 10px; height: 10px; border-radius: 2px; margin-right: 8px; vertical-align: middle; }
+        .heatmap { border-collapse: separate; border-spacing: 2px; font-size: 11px; }
+        .heatmap th { font-weight: 500; opacity: 0.7; padding: 2px 4px; }
+        .heatmap td { width: 26px; height: 22px; border-radius: 3px; background: rgba(128,128,128,0.08); }
         .bar-visual { height: 6px; border-radius: 3px; min-width: 4px; transition: width 0.3s ease; }
     </style>
 </head>
@@ -719,7 +1234,7 @@ function getWebviewContent(stats: DailyStats, tokenQueryStats: any, projectStats
     <h2 style="display:flex; align-items:center; flex-wrap:wrap; gap:10px; border-bottom: 1px solid var(--vscode-widget-border); padding-bottom:12px;">
         AI Usage Dashboard
         <span id="sysInfoBadge" style="font-size:0.78rem; font-weight:normal; opacity:0.85; background:rgba(128,128,128,0.15); border:1px solid rgba(128,128,128,0.25); padding:3px 10px; border-radius:20px; font-family:monospace; letter-spacing:0.3px;">
-            💻 ${hostname} &nbsp;|&nbsp; <span id="emailDisplay">👤 ${userEmail}</span> &nbsp;|&nbsp; 🔌 ${mac}
+            💻 <span id="hostDisplay">${escapeHtml(hostname || 'hidden')}</span> &nbsp;|&nbsp; <span id="emailDisplay" title="Identity from: ${escapeHtml(identity.source)}">👤 ${escapeHtml(identity.email)}</span> <span id="identitySource" style="opacity:0.7;">(${escapeHtml(identity.source)})</span> &nbsp;|&nbsp; 🔌 <span id="macDisplay">${escapeHtml(mac || 'hidden')}</span>
         </span>
     </h2>
     
@@ -727,6 +1242,9 @@ function getWebviewContent(stats: DailyStats, tokenQueryStats: any, projectStats
         <button class="tab-btn active" onclick="switchTab('byModel')" id="tabBtn-byModel">📊 By Model</button>
         <button class="tab-btn" onclick="switchTab('byTokenQuery')" id="tabBtn-byTokenQuery">🔢 By Token & Query</button>
         <button class="tab-btn" onclick="switchTab('byProject')" id="tabBtn-byProject">📁 By Project</button>
+        <button class="tab-btn" onclick="switchTab('byLanguage')" id="tabBtn-byLanguage">🗂️ By Language</button>
+        <button class="tab-btn" onclick="switchTab('byTime')" id="tabBtn-byTime">🕒 By Time of Day</button>
+        <button class="tab-btn" onclick="switchTab('byDevice')" id="tabBtn-byDevice">💻 By Device</button>
     </div>
 
     <div class="controls">
@@ -794,6 +1312,19 @@ function getWebviewContent(stats: DailyStats, tokenQueryStats: any, projectStats
             </thead>
             <tbody id="queryTableBody"></tbody>
         </table>
+        <h3 style="margin-top: 30px; margin-bottom: 15px;">🧮 Change Attribution</h3>
+        <p style="opacity:0.6; font-size:12px; margin-top:-8px;">Only AI changes count toward token usage. Other edits are listed for transparency.</p>
+        <table class="query-table">
+            <thead>
+                <tr>
+                    <th>Source</th>
+                    <th>Changes</th>
+                    <th>Characters</th>
+                    <th style="width: 30%;">Share of Characters</th>
+                </tr>
+            </thead>
+            <tbody id="changeSourceTableBody"></tbody>
+        </table>
     </div>
 
     <!-- Tab 3: By Project -->
@@ -815,17 +1346,82 @@ function getWebviewContent(stats: DailyStats, tokenQueryStats: any, projectStats
             <tbody id="projectQueryTableBody"></tbody>
         </table>
     </div>
+
+    <!-- Tab 4: By Language -->
+    <div id="tab-byLanguage" class="tab-content">
+        <div class="summary-cards" id="languageSummaryCards"></div>
+        <div class="chart-container-sm">
+            <canvas id="languageChart"></canvas>
+        </div>
+        <h3 style="margin-top: 30px; margin-bottom: 15px;">📋 Languages & File Types</h3>
+        <table class="query-table">
+            <thead>
+                <tr>
+                    <th>Language / File Type</th>
+                    <th>Tokens</th>
+                    <th>Share</th>
+                    <th style="width: 30%;">Distribution</th>
+                </tr>
+            </thead>
+            <tbody id="languageTableBody"></tbody>
+        </table>
+    </div>
+
+    <!-- Tab 5: By Time of Day -->
+    <div id="tab-byTime" class="tab-content">
+        <div class="summary-cards" id="timeSummaryCards"></div>
+        <div class="chart-container-sm">
+            <canvas id="hourChart"></canvas>
+        </div>
+        <h3 style="margin-top: 30px; margin-bottom: 15px;">🗓️ Weekday × Hour</h3>
+        <p style="opacity:0.6; font-size:12px; margin-top:-8px;" id="heatmapTimeZone"></p>
+        <div style="overflow-x:auto;"><table class="heatmap" id="heatmapTable"></table></div>
+    </div>
+
+    <!-- Tab 6: By Device -->
+    <div id="tab-byDevice" class="tab-content">
+        <div class="summary-cards" id="deviceSummaryCards"></div>
+        <p style="opacity:0.6; font-size:12px;" id="syncStatus"></p>
+        <div class="chart-container-sm">
+            <canvas id="deviceChart"></canvas>
+        </div>
+        <h3 style="margin-top: 30px; margin-bottom: 15px;">📋 Devices</h3>
+        <table class="query-table">
+            <thead>
+                <tr>
+                    <th>Device</th>
+                    <th>Tokens</th>
+                    <th>Queries</th>
+                    <th>Active Days</th>
+                    <th>Last Synced</th>
+                    <th style="width: 25%;">Share of Tokens</th>
+                </tr>
+            </thead>
+            <tbody id="deviceTableBody"></tbody>
+        </table>
+    </div>
     
     <script>
         const vscode = acquireVsCodeApi();
         let allStats = ${allStats};
         let tokenQueryStats = ${allTokenQueryStats};
         let projectStats = ${allProjectStats};
-        let currentBranch = '${currentBranch}';
-        const modelColors = ${JSON.stringify(modelColors)};
+        let languageStats = ${allLanguageStats};
+        let hourlyStats = ${allHourlyStats};
+        let timeZone = ${scriptJson(getTimeZone())};
+        let changeSourceStats = ${allChangeSourceStats};
+        let deviceStats = ${allDeviceStats};
+        let syncEnabled = ${syncEnabled};
+        // Keys holding a whole week or month of rolled-up history, keyed by its first day
+        let rolledUpPeriods = ${scriptJson(rolledUpPeriods)};
+        let currentProject = ${scriptJson(currentProject)};
+        const modelColors = ${scriptJson(modelColors)};
         let chartInstance = null;
         let tokenChartInstance = null;
         let projectChartInstance = null;
+        let languageChartInstance = null;
+        let hourChartInstance = null;
+        let deviceChartInstance = null;
         let activeTab = 'byModel';
 
         // Listen for live data updates from extension
@@ -835,12 +1431,42 @@ function getWebviewContent(stats: DailyStats, tokenQueryStats: any, projectStats
                 allStats = msg.modelStats || allStats;
                 tokenQueryStats = msg.tokenQueryStats || tokenQueryStats;
                 projectStats = msg.projectStats || projectStats;
-                if (msg.currentBranch) currentBranch = msg.currentBranch;
+                languageStats = msg.languageStats || languageStats;
+                hourlyStats = msg.hourlyStats || hourlyStats;
+                if (msg.timeZone) timeZone = msg.timeZone;
+                changeSourceStats = msg.changeSourceStats || changeSourceStats;
+                deviceStats = msg.deviceStats || deviceStats;
+                if (msg.syncEnabled !== undefined) syncEnabled = msg.syncEnabled;
+                rolledUpPeriods = msg.rolledUpPeriods || rolledUpPeriods;
+                if (msg.currentProject) currentProject = msg.currentProject;
+                applyFilter();
+            } else if (msg.command === 'livePatch') {
+                // Only the days/repositories that changed since the last message
+                Object.assign(allStats, msg.usage);
+                Object.assign(tokenQueryStats, msg.tokenQuery);
+                Object.assign(projectStats, msg.projects);
+                Object.assign(languageStats, msg.languages);
+                Object.assign(hourlyStats, msg.hourly);
+                Object.assign(changeSourceStats, msg.changeSources);
+                // Patches only arrive while this is the only device
+                const localDevice = deviceStats.find(d => d.isLocal);
+                if (localDevice) {
+                    Object.entries(msg.tokenQuery || {}).forEach(([d, day]) => {
+                        localDevice.days[d] = { tokens: (day.inputTokens || 0) + (day.outputTokens || 0), queries: sumQueries(day.queries) };
+                    });
+                }
+                if (msg.currentProject) currentProject = msg.currentProject;
                 applyFilter();
             } else if (msg.command === 'updateEmail') {
-                // Fired when deferred Google auth resolves — update header live
+                // Fired when identity resolution finishes or the identity settings change
                 const el = document.getElementById('emailDisplay');
-                if (el) el.innerHTML = '👤 ' + msg.email;
+                if (el) { el.textContent = '👤 ' + msg.email; el.title = 'Identity from: ' + msg.source; }
+                const sourceEl = document.getElementById('identitySource');
+                if (sourceEl) sourceEl.textContent = '(' + msg.source + ')';
+            } else if (msg.command === 'updateSystemInfo') {
+                // Fired when hostname or MAC address consent changes
+                document.getElementById('hostDisplay').textContent = msg.hostname || 'hidden';
+                document.getElementById('macDisplay').textContent = msg.mac || 'hidden';
             }
         });
 
@@ -848,13 +1474,28 @@ function getWebviewContent(stats: DailyStats, tokenQueryStats: any, projectStats
             vscode.postMessage({ command: 'refreshData' });
         }
 
+        // Host, repository, branch and category names come from other machines and repos; never inject them as markup
+        function escapeHtml(text) {
+            return String(text).replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+        }
+
         const queryTypeColors = {
             'Coding': 'rgba(59, 130, 246, 0.8)',
             'Planning': 'rgba(139, 92, 246, 0.8)',
             'General Question': 'rgba(34, 197, 94, 0.8)',
             'Search': 'rgba(249, 115, 22, 0.8)',
             'Debugging': 'rgba(239, 68, 68, 0.8)',
-            'Documentation': 'rgba(45, 212, 191, 0.8)'
+            'Documentation': 'rgba(45, 212, 191, 0.8)',
+            ...${scriptJson(categoryColors)}
+        };
+        
+        const changeSourceLabels = {
+            'ai': ['AI Generated', 'rgba(59, 130, 246, 0.8)'],
+            'paste': ['Paste', 'rgba(249, 115, 22, 0.8)'],
+            'undoRedo': ['Undo / Redo', 'rgba(139, 92, 246, 0.8)'],
+            'formatter': ['Formatter / Refactor', 'rgba(45, 212, 191, 0.8)'],
+            'external': ['Disk Reload / SCM', 'rgba(234, 179, 8, 0.8)'],
+            'manual': ['Manual Typing', 'rgba(34, 197, 94, 0.8)']
         };
         
         const themeColors = {
@@ -883,74 +1524,65 @@ function getWebviewContent(stats: DailyStats, tokenQueryStats: any, projectStats
         }
 
         // === Date Helpers ===
+        // Day keys are dates in the extension's bucket time zone, not the webview's or UTC
         function getProcessDates() {
-            const now = new Date();
-            const toDateKey = (date) => date.toISOString().split('T')[0];
-            return { now, toDateKey };
+            const parts = {};
+            new Intl.DateTimeFormat('en-US', { timeZone, year: 'numeric', month: '2-digit', day: '2-digit' })
+                .formatToParts(new Date()).forEach(p => { parts[p.type] = p.value; });
+            const todayKey = parts.year + '-' + parts.month + '-' + parts.day;
+            // Calendar arithmetic on keys; UTC avoids DST shifts
+            const shiftKey = (key, days) => {
+                const d = new Date(key + 'T00:00:00Z');
+                d.setUTCDate(d.getUTCDate() + days);
+                return d.toISOString().split('T')[0];
+            };
+            const weekday = new Date(todayKey + 'T00:00:00Z').getUTCDay() || 7;
+            const weekStartKey = shiftKey(todayKey, 1 - weekday);
+            const lastMonth = new Date(todayKey.slice(0, 7) + '-01T00:00:00Z');
+            lastMonth.setUTCMonth(lastMonth.getUTCMonth() - 1);
+            const lastMonthKey = lastMonth.toISOString().slice(0, 7);
+            return { todayKey, shiftKey, weekStartKey, lastMonthKey };
         }
 
         function filterByDate(data, range) {
-            const { now, toDateKey } = getProcessDates();
-            const todayKey = toDateKey(now);
+            const { todayKey, shiftKey, weekStartKey, lastMonthKey } = getProcessDates();
             const filtered = {};
             const dates = Object.keys(data).sort();
             dates.forEach(dateStr => {
-                const entryDate = new Date(dateStr);
                 let include = false;
                 switch(range) {
                     case 'all': include = true; break;
                     case 'today': include = (dateStr === todayKey); break;
-                    case 'yesterday':
-                        const y = new Date(now); y.setDate(y.getDate() - 1);
-                        include = (dateStr === toDateKey(y)); break;
-                    case 'this_week':
-                        const d = now.getDay() || 7;
-                        const sw = new Date(now); sw.setDate(now.getDate() - d + 1); sw.setHours(0,0,0,0);
-                        include = entryDate >= sw; break;
-                    case 'last_week':
-                        const lws = new Date(now); const lwd = lws.getDay() || 7;
-                        lws.setDate(lws.getDate() - lwd + 1 - 7); lws.setHours(0,0,0,0);
-                        const lwe = new Date(lws); lwe.setDate(lwe.getDate() + 7);
-                        include = (entryDate >= lws && entryDate < lwe); break;
-                    case 'last_2_weeks':
-                        const tw = new Date(now); tw.setDate(tw.getDate() - 14); tw.setHours(0,0,0,0);
-                        include = entryDate >= tw; break;
-                    case 'this_month':
-                        include = dateStr.startsWith(todayKey.slice(0, 7)); break;
-                    case 'last_month':
-                        const lm = new Date(now); lm.setMonth(lm.getMonth() - 1);
-                        include = dateStr.startsWith(toDateKey(lm).slice(0, 7)); break;
-                    case 'this_year':
-                        include = dateStr.startsWith(todayKey.slice(0, 4)); break;
+                    case 'yesterday': include = (dateStr === shiftKey(todayKey, -1)); break;
+                    case 'this_week': include = dateStr >= weekStartKey; break;
+                    case 'last_week': include = (dateStr >= shiftKey(weekStartKey, -7) && dateStr < weekStartKey); break;
+                    case 'last_2_weeks': include = dateStr >= shiftKey(todayKey, -14); break;
+                    case 'this_month': include = dateStr.startsWith(todayKey.slice(0, 7)); break;
+                    case 'last_month': include = dateStr.startsWith(lastMonthKey); break;
+                    case 'this_year': include = dateStr.startsWith(todayKey.slice(0, 4)); break;
                 }
                 if (include) filtered[dateStr] = data[dateStr];
             });
             return filtered;
         }
 
+        function periodLabel(dateKey) {
+            const period = rolledUpPeriods[dateKey];
+            if (period === 'month') return dateKey.slice(0, 7) + ' (month)';
+            if (period === 'week') return 'Week of ' + dateKey;
+            return dateKey;
+        }
+
         function getDateRangeLabel(range) {
-            const { now, toDateKey } = getProcessDates();
-            const todayKey = toDateKey(now);
+            const { todayKey, shiftKey, weekStartKey, lastMonthKey } = getProcessDates();
             switch(range) {
                 case 'today': return todayKey;
-                case 'yesterday':
-                    const y = new Date(now); y.setDate(y.getDate() - 1); return toDateKey(y);
-                case 'this_week':
-                    const d = now.getDay() || 7;
-                    const sw = new Date(now); sw.setDate(now.getDate() - d + 1);
-                    return toDateKey(sw) + ' to ' + todayKey;
-                case 'last_week':
-                    const lws = new Date(now); const lwd = lws.getDay() || 7;
-                    lws.setDate(lws.getDate() - lwd + 1 - 7);
-                    const lwe = new Date(lws); lwe.setDate(lwe.getDate() + 6);
-                    return toDateKey(lws) + ' to ' + toDateKey(lwe);
-                case 'last_2_weeks':
-                    const tw = new Date(now); tw.setDate(tw.getDate() - 14);
-                    return toDateKey(tw) + ' to ' + todayKey;
+                case 'yesterday': return shiftKey(todayKey, -1);
+                case 'this_week': return weekStartKey + ' to ' + todayKey;
+                case 'last_week': return shiftKey(weekStartKey, -7) + ' to ' + shiftKey(weekStartKey, -1);
+                case 'last_2_weeks': return shiftKey(todayKey, -14) + ' to ' + todayKey;
                 case 'this_month': return todayKey.slice(0, 7);
-                case 'last_month':
-                    const lm = new Date(now); lm.setMonth(lm.getMonth() - 1);
-                    return toDateKey(lm).slice(0, 7);
+                case 'last_month': return lastMonthKey;
                 case 'this_year': return todayKey.slice(0, 4);
                 default: return 'All Time';
             }
@@ -1020,7 +1652,7 @@ function getWebviewContent(stats: DailyStats, tokenQueryStats: any, projectStats
                 const datasets = models.map(model => ({ label: model, data: dates.map(date => stats[date][model] || 0), backgroundColor: modelColors[model] || modelColors['Other'], borderColor: currentTheme === 'light' ? 'rgba(0,0,0,0.1)' : 'rgba(255,255,255,0.2)', borderWidth: 1 }));
                 chartConfig = {
                     type: 'bar',
-                    data: { labels: dates, datasets: datasets },
+                    data: { labels: dates.map(periodLabel), datasets: datasets },
                     options: { responsive: true, maintainAspectRatio: false, scales: { y: { beginAtZero: true, grid: { color: colors.grid }, ticks: { color: colors.axis } }, x: { grid: { color: colors.grid }, ticks: { color: colors.axis } } }, plugins: { legend: { labels: { color: colors.text } }, title: commonTitle, tooltip: { mode: 'index', intersect: false } } },
                     plugins: [bgPlugin]
                 };
@@ -1043,7 +1675,7 @@ function getWebviewContent(stats: DailyStats, tokenQueryStats: any, projectStats
             tokenChartInstance = new Chart(ctx, {
                 type: 'bar',
                 data: {
-                    labels: dates,
+                    labels: dates.map(periodLabel),
                     datasets: [
                         { label: 'Input Tokens', data: dates.map(d => (stats[d] && stats[d].inputTokens) || 0), backgroundColor: 'rgba(59, 130, 246, 0.7)', borderColor: 'rgba(59, 130, 246, 1)', borderWidth: 1, borderRadius: 3 },
                         { label: 'Output Tokens', data: dates.map(d => (stats[d] && stats[d].outputTokens) || 0), backgroundColor: 'rgba(16, 185, 129, 0.7)', borderColor: 'rgba(16, 185, 129, 1)', borderWidth: 1, borderRadius: 3 }
@@ -1076,7 +1708,7 @@ function getWebviewContent(stats: DailyStats, tokenQueryStats: any, projectStats
                 const pct = total > 0 ? ((count / total) * 100).toFixed(1) : '0.0';
                 const color = queryTypeColors[type] || 'rgba(201, 203, 207, 0.8)';
                 const row = document.createElement('tr');
-                row.innerHTML = '<td><span class="badge" style="background:' + color + '"></span>' + type + '</td><td><strong>' + count + '</strong></td><td>' + pct + '%</td><td><div class="bar-visual" style="background:' + color + ';width:' + pct + '%;"></div></td>';
+                row.innerHTML = '<td><span class="badge" style="background:' + color + '"></span>' + escapeHtml(type) + '</td><td><strong>' + count + '</strong></td><td>' + pct + '%</td><td><div class="bar-visual" style="background:' + color + ';width:' + pct + '%;"></div></td>';
                 tbody.appendChild(row);
             });
 
@@ -1084,19 +1716,68 @@ function getWebviewContent(stats: DailyStats, tokenQueryStats: any, projectStats
             const totalInput = Object.values(stats).reduce((a, d) => a + ((d && d.inputTokens) || 0), 0);
             const totalOutput = Object.values(stats).reduce((a, d) => a + ((d && d.outputTokens) || 0), 0);
             const topType = sorted.length > 0 ? sorted[0][0] : 'N/A';
+            const measuredDays = Object.values(stats).filter(d => d && d.source === 'measured').length;
+            const dayCount = Object.keys(stats).length;
+            const dataSource = dayCount === 0 ? 'N/A' : measuredDays === dayCount ? 'Measured' : measuredDays === 0 ? 'Estimated' : 'Mixed (' + measuredDays + '/' + dayCount + ' days measured)';
             document.getElementById('summaryCards').innerHTML =
                 '<div class="summary-card"><div class="label">Input Tokens</div><div class="value" style="color:rgba(59,130,246,1);">' + totalInput.toLocaleString() + '</div></div>' +
                 '<div class="summary-card"><div class="label">Output Tokens</div><div class="value" style="color:rgba(16,185,129,1);">' + totalOutput.toLocaleString() + '</div></div>' +
                 '<div class="summary-card"><div class="label">Total Tokens</div><div class="value" style="color:rgba(234,179,8,1);">' + (totalInput + totalOutput).toLocaleString() + '</div></div>' +
                 '<div class="summary-card"><div class="label">Total Queries</div><div class="value">' + total.toLocaleString() + '</div></div>' +
-                '<div class="summary-card"><div class="label">Top Query Type</div><div class="value" style="font-size:16px;">' + topType + '</div></div>';
+                '<div class="summary-card"><div class="label">Top Query Type</div><div class="value" style="font-size:16px;">' + escapeHtml(topType) + '</div></div>' +
+                '<div class="summary-card" title="Measured = language server counters, Estimated = inserted characters / 4"><div class="label">Data Source</div><div class="value" style="font-size:16px;">' + dataSource + '</div></div>';
+        }
+
+        // === Tab 2: Change Attribution Table ===
+        function updateChangeSourceTable(stats) {
+            const totals = {};
+            Object.values(stats).forEach(day => {
+                Object.keys(day || {}).forEach(src => {
+                    if (!totals[src]) totals[src] = { changes: 0, chars: 0 };
+                    totals[src].changes += day[src].changes || 0;
+                    totals[src].chars += day[src].chars || 0;
+                });
+            });
+            const totalChars = Object.values(totals).reduce((a, t) => a + t.chars, 0);
+            const tbody = document.getElementById('changeSourceTableBody');
+            tbody.innerHTML = '';
+            const sorted = Object.entries(totals).sort((a, b) => b[1].chars - a[1].chars);
+            if (sorted.length === 0) {
+                tbody.innerHTML = '<tr><td colspan="4" style="text-align:center;padding:20px;opacity:0.6;">No data available</td></tr>';
+                return;
+            }
+            sorted.forEach(([src, t]) => {
+                const [label, color] = changeSourceLabels[src] || [src, 'rgba(201, 203, 207, 0.8)'];
+                const pct = totalChars > 0 ? ((t.chars / totalChars) * 100).toFixed(1) : '0.0';
+                const row = document.createElement('tr');
+                row.innerHTML = '<td><span class="badge" style="background:' + color + '"></span>' + escapeHtml(label) + '</td><td><strong>' + t.changes.toLocaleString() + '</strong></td><td>' + t.chars.toLocaleString() + '</td><td><div class="bar-visual" style="background:' + color + ';width:' + pct + '%;"></div></td>';
+                tbody.appendChild(row);
+            });
         }
 
         // === Tab 3: Project Chart ===
+        // Repositories (current first, then by name), each with its branches (current first)
+        function getProjectGroups() {
+            return Object.keys(projectStats).sort((a, b) => {
+                if (a === currentProject.repoId) return -1;
+                if (b === currentProject.repoId) return 1;
+                return (projectStats[a].name || a).localeCompare(projectStats[b].name || b);
+            }).map(repoId => {
+                const repo = projectStats[repoId];
+                const currentBranch = repoId === currentProject.repoId ? currentProject.branch : null;
+                const branches = Object.keys(repo.branches || {}).sort((a, b) => {
+                    if (a === currentBranch) return -1;
+                    if (b === currentBranch) return 1;
+                    return a.localeCompare(b);
+                });
+                return { repoId, name: repo.name || repoId, branches, currentBranch };
+            });
+        }
+
         function updateProjectChart() {
-            const projects = Object.keys(projectStats);
-            if (projects.length === 0) {
-                document.getElementById('projectChart').parentElement.innerHTML = '<div style="text-align:center;padding:60px;opacity:0.5;"><p style="font-size:18px;">📭 No project data tracked yet</p><p>Use the AI assistant in any project — branches will appear here automatically.</p></div>';
+            const groups = getProjectGroups();
+            if (groups.length === 0) {
+                document.getElementById('projectChart').parentElement.innerHTML = '<div style="text-align:center;padding:60px;opacity:0.5;"><p style="font-size:18px;">📭 No project data tracked yet</p><p>Use the AI assistant in any project — repositories and branches will appear here automatically.</p></div>';
                 return;
             }
             const ctx = document.getElementById('projectChart');
@@ -1104,101 +1785,338 @@ function getWebviewContent(stats: DailyStats, tokenQueryStats: any, projectStats
             const colors = themeColors[currentTheme] || themeColors.system;
             const bgPlugin = getBgPlugin();
 
-            const projColors = [
-                'rgba(59, 130, 246, 0.7)',
-                'rgba(16, 185, 129, 0.7)',
-                'rgba(234, 179, 8, 0.7)',
-                'rgba(139, 92, 246, 0.7)',
-                'rgba(239, 68, 68, 0.7)',
-                'rgba(45, 212, 191, 0.7)',
-                'rgba(249, 115, 22, 0.7)'
-            ];
-            const projBorders = projColors.map(c => c.replace('0.7', '1'));
+            const bars = [];
+            groups.forEach(g => g.branches.forEach(branch => {
+                const data = projectStats[g.repoId].branches[branch];
+                bars.push({ label: g.name + ' / ' + branch + (branch === g.currentBranch ? ' ★' : ''), input: data.inputTokens || 0, output: data.outputTokens || 0 });
+            }));
 
             projectChartInstance = new Chart(ctx, {
                 type: 'bar',
                 data: {
-                    labels: projects.map(p => p === currentBranch ? p + ' ★' : p),
+                    labels: bars.map(b => b.label),
                     datasets: [
-                        { label: 'Input Tokens', data: projects.map(p => projectStats[p].inputTokens || 0), backgroundColor: 'rgba(59, 130, 246, 0.7)', borderColor: 'rgba(59, 130, 246, 1)', borderWidth: 1, borderRadius: 3 },
-                        { label: 'Output Tokens', data: projects.map(p => projectStats[p].outputTokens || 0), backgroundColor: 'rgba(16, 185, 129, 0.7)', borderColor: 'rgba(16, 185, 129, 1)', borderWidth: 1, borderRadius: 3 }
+                        { label: 'Input Tokens', data: bars.map(b => b.input), backgroundColor: 'rgba(59, 130, 246, 0.7)', borderColor: 'rgba(59, 130, 246, 1)', borderWidth: 1, borderRadius: 3 },
+                        { label: 'Output Tokens', data: bars.map(b => b.output), backgroundColor: 'rgba(16, 185, 129, 0.7)', borderColor: 'rgba(16, 185, 129, 1)', borderWidth: 1, borderRadius: 3 }
                     ]
                 },
                 options: {
                     responsive: true, maintainAspectRatio: false,
                     scales: { y: { beginAtZero: true, grid: { color: colors.grid }, ticks: { color: colors.axis } }, x: { grid: { color: colors.grid }, ticks: { color: colors.axis } } },
-                    plugins: { legend: { labels: { color: colors.text } }, title: { display: true, text: 'Token Usage by Project (Branch)', color: colors.text, font: { size: 16 } }, tooltip: { mode: 'index', intersect: false } }
+                    plugins: { legend: { labels: { color: colors.text } }, title: { display: true, text: 'Token Usage by Repository / Branch', color: colors.text, font: { size: 16 } }, tooltip: { mode: 'index', intersect: false } }
                 },
                 plugins: [bgPlugin]
             });
         }
 
+        function sumQueries(queries) {
+            return Object.values(queries || {}).reduce((a, b) => a + b, 0);
+        }
+
         function updateProjectQueryTable() {
             const tbody = document.getElementById('projectQueryTableBody');
             tbody.innerHTML = '';
-            
-            // Sort projects: Current branch first, then others alphabetically
-            const projects = Object.keys(projectStats).sort((a, b) => {
-                if (a === currentBranch) return -1;
-                if (b === currentBranch) return 1;
-                return a.localeCompare(b);
-            });
+            const groups = getProjectGroups();
 
-            if (projects.length === 0) {
+            if (groups.length === 0) {
                 tbody.innerHTML = '<tr><td colspan="4" style="text-align:center;padding:20px;opacity:0.6;">No data available</td></tr>';
             }
 
-            projects.forEach(projName => {
-                const projData = projectStats[projName];
-                const queryTotals = (projData && projData.queries) ? { ...projData.queries } : {};
-                const total = Object.values(queryTotals).reduce((a, b) => a + b, 0);
-                const sorted = Object.entries(queryTotals).sort((a, b) => b[1] - a[1]);
-
-                // Project Header Row
-                const headerRow = document.createElement('tr');
-                // Use a subtle background for separation
-                const isCurrent = projName === currentBranch;
-                headerRow.style.background = 'var(--vscode-list-hoverBackground)'; 
-                headerRow.innerHTML = '<td colspan="4" style="font-weight:700;padding-top:12px;padding-bottom:12px;border-bottom:none;">' + 
-                    (isCurrent ? '★ ' : '') + projName + 
-                    '<span style="font-weight:400;opacity:0.7;font-size:12px;margin-left:10px;">(' + total + ' queries)</span></td>';
-                tbody.appendChild(headerRow);
-
-                if (sorted.length === 0) {
-                     const emptyRow = document.createElement('tr');
-                     emptyRow.innerHTML = '<td colspan="4" style="padding-left:30px;opacity:0.5;font-style:italic;">No queries recorded</td>';
-                     tbody.appendChild(emptyRow);
-                } else {
+            let branchCount = 0, totalInput = 0, totalOutput = 0, totalQueries = 0;
+            groups.forEach(g => {
+                const repo = projectStats[g.repoId];
+                const repoQueries = g.branches.reduce((a, b) => a + sumQueries(repo.branches[b].queries), 0);
+
+                // Repository Header Row
+                const repoRow = document.createElement('tr');
+                repoRow.style.background = 'var(--vscode-list-hoverBackground)';
+                repoRow.innerHTML = '<td colspan="4" style="font-weight:700;padding-top:12px;padding-bottom:12px;border-bottom:none;">' +
+                    (g.currentBranch !== null ? '★ ' : '') + escapeHtml(g.name) +
+                    '<span style="font-weight:400;opacity:0.6;font-size:11px;margin-left:10px;">' + escapeHtml(g.repoId) + '</span>' +
+                    '<span style="font-weight:400;opacity:0.7;font-size:12px;margin-left:10px;">(' + repoQueries + ' queries)</span></td>';
+                tbody.appendChild(repoRow);
+
+                g.branches.forEach(branch => {
+                    const data = repo.branches[branch];
+                    const total = sumQueries(data.queries);
+                    const sorted = Object.entries(data.queries || {}).sort((a, b) => b[1] - a[1]);
+                    branchCount++;
+                    totalInput += data.inputTokens || 0;
+                    totalOutput += data.outputTokens || 0;
+                    totalQueries += total;
+
+                    // Branch Row
+                    const branchRow = document.createElement('tr');
+                    branchRow.innerHTML = '<td colspan="4" style="font-weight:600;padding-left:20px;">' +
+                        (branch === g.currentBranch ? '★ ' : '') + '⎇ ' + escapeHtml(branch) +
+                        '<span style="font-weight:400;opacity:0.7;font-size:12px;margin-left:10px;">(' + total + ' queries)</span></td>';
+                    tbody.appendChild(branchRow);
+
+                    if (sorted.length === 0) {
+                        const emptyRow = document.createElement('tr');
+                        emptyRow.innerHTML = '<td colspan="4" style="padding-left:40px;opacity:0.5;font-style:italic;">No queries recorded</td>';
+                        tbody.appendChild(emptyRow);
+                        return;
+                    }
                     sorted.forEach(([type, count]) => {
                         const pct = total > 0 ? ((count / total) * 100).toFixed(1) : '0.0';
                         const color = queryTypeColors[type] || 'rgba(201, 203, 207, 0.8)';
                         const row = document.createElement('tr');
-                        // Indent query rows slightly
-                        row.innerHTML = '<td style="padding-left:30px;"><span class="badge" style="background:' + color + '"></span>' + type + '</td>' + 
-                                        '<td><strong>' + count + '</strong></td>' + 
-                                        '<td>' + pct + '%</td>' + 
+                        row.innerHTML = '<td style="padding-left:40px;"><span class="badge" style="background:' + color + '"></span>' + escapeHtml(type) + '</td>' +
+                                        '<td><strong>' + count + '</strong></td>' +
+                                        '<td>' + pct + '%</td>' +
                                         '<td><div class="bar-visual" style="background:' + color + ';width:' + pct + '%;"></div></td>';
                         tbody.appendChild(row);
                     });
-                }
+                });
             });
 
             // Summary Cards for project
-            const totalInput = Object.values(projectStats).reduce((a, p) => a + ((p && p.inputTokens) || 0), 0);
-            const totalOutput = Object.values(projectStats).reduce((a, p) => a + ((p && p.outputTokens) || 0), 0);
-            const totalQueries = Object.values(projectStats).reduce((a, p) => {
-                if (p && p.queries) return a + Object.values(p.queries).reduce((x, y) => x + y, 0);
-                return a;
-            }, 0);
-            const projCount = Object.keys(projectStats).length;
             document.getElementById('projectSummaryCards').innerHTML =
-                '<div class="summary-card"><div class="label">Current Branch</div><div class="value" style="font-size:14px;color:rgba(59,130,246,1);">' + currentBranch + '</div></div>' +
+                '<div class="summary-card"><div class="label">Current Project</div><div class="value" style="font-size:14px;color:rgba(59,130,246,1);">' + escapeHtml(currentProject.repoName + ' / ' + currentProject.branch) + '</div></div>' +
                 '<div class="summary-card"><div class="label">Total Input (All)</div><div class="value" style="color:rgba(59,130,246,1);">' + totalInput.toLocaleString() + '</div></div>' +
                 '<div class="summary-card"><div class="label">Total Output (All)</div><div class="value" style="color:rgba(16,185,129,1);">' + totalOutput.toLocaleString() + '</div></div>' +
-                '<div class="summary-card"><div class="label">Projects Tracked</div><div class="value">' + projCount + '</div></div>' +
+                '<div class="summary-card"><div class="label">Repositories / Branches</div><div class="value">' + groups.length + ' / ' + branchCount + '</div></div>' +
                 '<div class="summary-card"><div class="label">Total Queries (All)</div><div class="value" style="color:rgba(234,179,8,1);">' + totalQueries.toLocaleString() + '</div></div>';
         }
 
+        // === Tab 4: Language Chart & Table ===
+        const languagePalette = [
+            'rgba(59, 130, 246, 0.7)', 'rgba(16, 185, 129, 0.7)', 'rgba(234, 179, 8, 0.7)', 'rgba(139, 92, 246, 0.7)',
+            'rgba(239, 68, 68, 0.7)', 'rgba(45, 212, 191, 0.7)', 'rgba(249, 115, 22, 0.7)', 'rgba(236, 72, 153, 0.7)'
+        ];
+
+        // Sum the filtered days into { languageId: { inputTokens, outputTokens, queries, fileTypes } }, largest first
+        function aggregateLanguages(stats) {
+            const totals = {};
+            Object.values(stats).forEach(day => {
+                Object.entries(day || {}).forEach(([lang, u]) => {
+                    const t = totals[lang] || (totals[lang] = { inputTokens: 0, outputTokens: 0, queries: 0, fileTypes: {} });
+                    t.inputTokens += u.inputTokens || 0;
+                    t.outputTokens += u.outputTokens || 0;
+                    t.queries += u.queries || 0;
+                    Object.entries(u.fileTypes || {}).forEach(([ext, n]) => { t.fileTypes[ext] = (t.fileTypes[ext] || 0) + n; });
+                });
+            });
+            return Object.entries(totals).sort((a, b) => (b[1].inputTokens + b[1].outputTokens) - (a[1].inputTokens + a[1].outputTokens));
+        }
+
+        function updateLanguageChart(stats, dateLabel) {
+            const languages = aggregateLanguages(stats);
+            if (languages.length === 0) {
+                document.getElementById('languageChart').parentElement.innerHTML = '<div style="text-align:center;padding:60px;opacity:0.5;"><p style="font-size:18px;">📭 No language data tracked yet</p><p>Use the AI assistant in any file — languages will appear here automatically.</p></div>';
+                return;
+            }
+            const ctx = document.getElementById('languageChart');
+            if (languageChartInstance) languageChartInstance.destroy();
+            const colors = themeColors[currentTheme] || themeColors.system;
+            const bgPlugin = getBgPlugin();
+
+            languageChartInstance = new Chart(ctx, {
+                type: 'bar',
+                data: {
+                    labels: languages.map(([lang]) => lang),
+                    datasets: [
+                        { label: 'Input Tokens', data: languages.map(([, t]) => t.inputTokens), backgroundColor: 'rgba(59, 130, 246, 0.7)', borderColor: 'rgba(59, 130, 246, 1)', borderWidth: 1, borderRadius: 3 },
+                        { label: 'Output Tokens', data: languages.map(([, t]) => t.outputTokens), backgroundColor: 'rgba(16, 185, 129, 0.7)', borderColor: 'rgba(16, 185, 129, 1)', borderWidth: 1, borderRadius: 3 }
+                    ]
+                },
+                options: {
+                    indexAxis: 'y',
+                    responsive: true, maintainAspectRatio: false,
+                    scales: { x: { stacked: true, beginAtZero: true, grid: { color: colors.grid }, ticks: { color: colors.axis } }, y: { stacked: true, grid: { color: colors.grid }, ticks: { color: colors.axis } } },
+                    plugins: { legend: { labels: { color: colors.text } }, title: { display: true, text: 'Token Usage by Language - ' + dateLabel, color: colors.text, font: { size: 16 } }, tooltip: { mode: 'index', intersect: false } }
+                },
+                plugins: [bgPlugin]
+            });
+        }
+
+        function updateLanguageTable(stats) {
+            const languages = aggregateLanguages(stats);
+            const tbody = document.getElementById('languageTableBody');
+            tbody.innerHTML = '';
+            const grandTotal = languages.reduce((a, [, t]) => a + t.inputTokens + t.outputTokens, 0);
+
+            if (languages.length === 0) {
+                tbody.innerHTML = '<tr><td colspan="4" style="text-align:center;padding:20px;opacity:0.6;">No data available</td></tr>';
+            }
+
+            languages.forEach(([lang, t], i) => {
+                const total = t.inputTokens + t.outputTokens;
+                const pct = grandTotal > 0 ? ((total / grandTotal) * 100).toFixed(1) : '0.0';
+                const color = languagePalette[i % languagePalette.length];
+                const row = document.createElement('tr');
+                row.innerHTML = '<td style="font-weight:600;"><span class="badge" style="background:' + color + '"></span>' + escapeHtml(lang) +
+                    '<span style="font-weight:400;opacity:0.7;font-size:12px;margin-left:10px;">(' + t.queries + ' queries)</span></td>' +
+                    '<td><strong>' + total.toLocaleString() + '</strong></td><td>' + pct + '%</td>' +
+                    '<td><div class="bar-visual" style="background:' + color + ';width:' + pct + '%;"></div></td>';
+                tbody.appendChild(row);
+
+                Object.entries(t.fileTypes).sort((a, b) => b[1] - a[1]).forEach(([ext, n]) => {
+                    const extPct = total > 0 ? ((n / total) * 100).toFixed(1) : '0.0';
+                    const extRow = document.createElement('tr');
+                    extRow.innerHTML = '<td style="padding-left:30px;opacity:0.85;">' + escapeHtml(ext) + '</td><td>' + n.toLocaleString() + '</td><td>' + extPct + '%</td>' +
+                        '<td><div class="bar-visual" style="background:' + color + ';opacity:0.6;width:' + extPct + '%;"></div></td>';
+                    tbody.appendChild(extRow);
+                });
+            });
+
+            const totalQueries = languages.reduce((a, [, t]) => a + t.queries, 0);
+            document.getElementById('languageSummaryCards').innerHTML =
+                '<div class="summary-card"><div class="label">Top Language</div><div class="value" style="font-size:14px;color:rgba(59,130,246,1);">' + escapeHtml(languages.length > 0 ? languages[0][0] : 'N/A') + '</div></div>' +
+                '<div class="summary-card"><div class="label">Languages</div><div class="value">' + languages.length + '</div></div>' +
+                '<div class="summary-card"><div class="label">Tokens</div><div class="value" style="color:rgba(16,185,129,1);">' + grandTotal.toLocaleString() + '</div></div>' +
+                '<div class="summary-card"><div class="label">Queries</div><div class="value" style="color:rgba(234,179,8,1);">' + totalQueries.toLocaleString() + '</div></div>';
+        }
+
+        // === Tab 5: Time of Day ===
+        const weekdayNames = ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun'];
+
+        // Totals per hour and a 7 x 24 grid (Monday first) of tokens
+        function aggregateHours(stats) {
+            const hours = Array.from({ length: 24 }, () => ({ tokens: 0, queries: 0 }));
+            const grid = weekdayNames.map(() => new Array(24).fill(0));
+            Object.entries(stats).forEach(([dateStr, day]) => {
+                const weekday = (new Date(dateStr + 'T00:00:00Z').getUTCDay() + 6) % 7;
+                Object.entries(day || {}).forEach(([h, u]) => {
+                    hours[h].tokens += u.tokens || 0;
+                    hours[h].queries += u.queries || 0;
+                    grid[weekday][h] += u.tokens || 0;
+                });
+            });
+            return { hours, grid };
+        }
+
+        function hourLabel(h) {
+            return String(h).padStart(2, '0') + ':00';
+        }
+
+        function updateHourChart(stats, dateLabel) {
+            const { hours } = aggregateHours(stats);
+            if (Object.keys(stats).length === 0) {
+                document.getElementById('hourChart').parentElement.innerHTML = '<div style="text-align:center;padding:60px;opacity:0.5;"><p style="font-size:18px;">📭 No hourly data tracked yet</p><p>Use the AI assistant — activity by hour will appear here automatically.</p></div>';
+                return;
+            }
+            const ctx = document.getElementById('hourChart');
+            if (hourChartInstance) hourChartInstance.destroy();
+            const colors = themeColors[currentTheme] || themeColors.system;
+            const bgPlugin = getBgPlugin();
+
+            hourChartInstance = new Chart(ctx, {
+                type: 'bar',
+                data: {
+                    labels: hours.map((_, h) => hourLabel(h)),
+                    datasets: [
+                        { label: 'Tokens', data: hours.map(u => u.tokens), backgroundColor: 'rgba(59, 130, 246, 0.7)', borderColor: 'rgba(59, 130, 246, 1)', borderWidth: 1, borderRadius: 3, yAxisID: 'y' },
+                        { label: 'Queries', type: 'line', data: hours.map(u => u.queries), borderColor: 'rgba(234, 179, 8, 1)', backgroundColor: 'rgba(234, 179, 8, 0.3)', tension: 0.3, yAxisID: 'y1' }
+                    ]
+                },
+                options: {
+                    responsive: true, maintainAspectRatio: false,
+                    scales: {
+                        y: { beginAtZero: true, grid: { color: colors.grid }, ticks: { color: colors.axis } },
+                        y1: { beginAtZero: true, position: 'right', grid: { drawOnChartArea: false }, ticks: { color: colors.axis } },
+                        x: { grid: { color: colors.grid }, ticks: { color: colors.axis } }
+                    },
+                    plugins: { legend: { labels: { color: colors.text } }, title: { display: true, text: 'AI Usage by Hour of Day - ' + dateLabel, color: colors.text, font: { size: 16 } }, tooltip: { mode: 'index', intersect: false } }
+                },
+                plugins: [bgPlugin]
+            });
+        }
+
+        function updateHeatmap(stats) {
+            const { hours, grid } = aggregateHours(stats);
+            const max = Math.max(1, ...grid.map(row => Math.max(...row)));
+            let html = '<tr><th></th>' + hours.map((_, h) => '<th>' + String(h).padStart(2, '0') + '</th>').join('') + '</tr>';
+            grid.forEach((row, d) => {
+                html += '<tr><th style="text-align:right;">' + weekdayNames[d] + '</th>' + row.map((tokens, h) => {
+                    const alpha = tokens > 0 ? (0.15 + 0.85 * tokens / max).toFixed(2) : 0;
+                    const bg = tokens > 0 ? 'background:rgba(59, 130, 246, ' + alpha + ');' : '';
+                    return '<td style="' + bg + '" title="' + weekdayNames[d] + ' ' + hourLabel(h) + ': ' + tokens.toLocaleString() + ' tokens"></td>';
+                }).join('') + '</tr>';
+            });
+            document.getElementById('heatmapTable').innerHTML = html;
+            document.getElementById('heatmapTimeZone').textContent = 'Hours in ' + timeZone + '. Darker cells mean more tokens.';
+
+            const peakHour = hours.reduce((best, u, h) => u.tokens > hours[best].tokens ? h : best, 0);
+            const dayTotals = grid.map(row => row.reduce((a, b) => a + b, 0));
+            const peakDay = dayTotals.reduce((best, t, d) => t > dayTotals[best] ? d : best, 0);
+            const total = dayTotals.reduce((a, b) => a + b, 0);
+            document.getElementById('timeSummaryCards').innerHTML =
+                '<div class="summary-card"><div class="label">Peak Hour</div><div class="value" style="color:rgba(59,130,246,1);">' + (total > 0 ? hourLabel(peakHour) : 'N/A') + '</div></div>' +
+                '<div class="summary-card"><div class="label">Busiest Weekday</div><div class="value" style="color:rgba(16,185,129,1);">' + (total > 0 ? weekdayNames[peakDay] : 'N/A') + '</div></div>' +
+                '<div class="summary-card"><div class="label">Tokens</div><div class="value">' + total.toLocaleString() + '</div></div>' +
+                '<div class="summary-card"><div class="label">Time Zone</div><div class="value" style="font-size:14px;">' + timeZone + '</div></div>';
+        }
+
+        // === Tab 6: By Device ===
+        // Tokens, queries and active days per device over the filtered range, largest first
+        function aggregateDevices(range) {
+            return deviceStats.map(device => {
+                const days = filterByDate(device.days, range);
+                const totals = { tokens: 0, queries: 0, activeDays: 0 };
+                Object.values(days).forEach(day => {
+                    totals.tokens += day.tokens || 0;
+                    totals.queries += day.queries || 0;
+                    if (day.tokens > 0) totals.activeDays++;
+                });
+                return { device, ...totals };
+            }).sort((a, b) => b.tokens - a.tokens);
+        }
+
+        function deviceLabel(device) {
+            return device.hostname + (device.isLocal ? ' (this device)' : '');
+        }
+
+        function updateDeviceChart(devices, dateLabel) {
+            const ctx = document.getElementById('deviceChart');
+            if (deviceChartInstance) deviceChartInstance.destroy();
+            const colors = themeColors[currentTheme] || themeColors.system;
+            const bgPlugin = getBgPlugin();
+
+            deviceChartInstance = new Chart(ctx, {
+                type: 'bar',
+                data: {
+                    labels: devices.map(d => deviceLabel(d.device)),
+                    datasets: [{ label: 'Tokens', data: devices.map(d => d.tokens), backgroundColor: devices.map((_, i) => languagePalette[i % languagePalette.length]), borderWidth: 1, borderRadius: 3 }]
+                },
+                options: {
+                    indexAxis: 'y',
+                    responsive: true, maintainAspectRatio: false,
+                    scales: { x: { beginAtZero: true, grid: { color: colors.grid }, ticks: { color: colors.axis } }, y: { grid: { color: colors.grid }, ticks: { color: colors.axis } } },
+                    plugins: { legend: { display: false }, title: { display: true, text: 'Token Usage by Device - ' + dateLabel, color: colors.text, font: { size: 16 } } }
+                },
+                plugins: [bgPlugin]
+            });
+        }
+
+        function updateDeviceTable(devices) {
+            const tbody = document.getElementById('deviceTableBody');
+            tbody.innerHTML = '';
+            const grandTotal = devices.reduce((a, d) => a + d.tokens, 0);
+            devices.forEach((d, i) => {
+                const pct = grandTotal > 0 ? ((d.tokens / grandTotal) * 100).toFixed(1) : '0.0';
+                const color = languagePalette[i % languagePalette.length];
+                const synced = d.device.isLocal ? 'Live' : (d.device.updatedAt ? new Date(d.device.updatedAt).toLocaleString() : 'Unknown');
+                const row = document.createElement('tr');
+                row.innerHTML = '<td style="font-weight:600;"><span class="badge" style="background:' + color + '"></span>' + escapeHtml(deviceLabel(d.device)) + '</td>' +
+                    '<td><strong>' + d.tokens.toLocaleString() + '</strong></td><td>' + d.queries.toLocaleString() + '</td><td>' + d.activeDays + '</td>' +
+                    '<td>' + synced + '</td><td><div class="bar-visual" style="background:' + color + ';width:' + pct + '%;"></div></td>';
+                tbody.appendChild(row);
+            });
+
+            const local = devices.find(d => d.device.isLocal);
+            const localPct = grandTotal > 0 && local ? ((local.tokens / grandTotal) * 100).toFixed(1) + '%' : 'N/A';
+            document.getElementById('deviceSummaryCards').innerHTML =
+                '<div class="summary-card"><div class="label">Devices</div><div class="value">' + devices.length + '</div></div>' +
+                '<div class="summary-card"><div class="label">This Device</div><div class="value" style="color:rgba(59,130,246,1);">' + localPct + '</div></div>' +
+                '<div class="summary-card"><div class="label">Tokens</div><div class="value" style="color:rgba(16,185,129,1);">' + grandTotal.toLocaleString() + '</div></div>' +
+                '<div class="summary-card"><div class="label">Queries</div><div class="value" style="color:rgba(234,179,8,1);">' + devices.reduce((a, d) => a + d.queries, 0).toLocaleString() + '</div></div>';
+            document.getElementById('syncStatus').textContent = syncEnabled
+                ? 'Syncing through antigravity.sync.folder. Other devices refresh about once a minute.'
+                : 'Sync is off. Set antigravity.sync.folder to a shared folder on each machine to combine their usage.';
+        }
+
         // === Main Render ===
         function applyFilter() {
             const range = document.getElementById('dateRange').value;
@@ -1211,9 +2129,22 @@ function getWebviewContent(stats: DailyStats, tokenQueryStats: any, projectStats
                 const filtered = filterByDate(tokenQueryStats, range);
                 updateTokenChart(filtered, dateLabel);
                 updateQueryTable(filtered);
+                updateChangeSourceTable(filterByDate(changeSourceStats, range));
             } else if (activeTab === 'byProject') {
                 updateProjectChart();
                 updateProjectQueryTable();
+            } else if (activeTab === 'byLanguage') {
+                const filtered = filterByDate(languageStats, range);
+                updateLanguageChart(filtered, dateLabel);
+                updateLanguageTable(filtered);
+            } else if (activeTab === 'byTime') {
+                const filtered = filterByDate(hourlyStats, range);
+                updateHourChart(filtered, dateLabel);
+                updateHeatmap(filtered);
+            } else if (activeTab === 'byDevice') {
+                const devices = aggregateDevices(range);
+                updateDeviceChart(devices, dateLabel);
+                updateDeviceTable(devices);
             }
         }
 
@@ -1222,58 +2153,90 @@ function getWebviewContent(stats: DailyStats, tokenQueryStats: any, projectStats
             let chart;
             if (activeTab === 'byModel') chart = chartInstance;
             else if (activeTab === 'byTokenQuery') chart = tokenChartInstance;
+            else if (activeTab === 'byLanguage') chart = languageChartInstance;
+            else if (activeTab === 'byTime') chart = hourChartInstance;
+            else if (activeTab === 'byDevice') chart = deviceChartInstance;
             else chart = projectChartInstance;
             if (!chart) return;
             const url = chart.toBase64Image();
             const range = document.getElementById('dateRange').value;
             const dateLabel = getDateRangeLabel(range).replace(/[^a-zA-Z0-9-]/g, '_');
-            const prefixes = { byModel: 'AI_Model', byTokenQuery: 'AI_Token', byProject: 'AI_Project' };
+            const prefixes = { byModel: 'AI_Model', byTokenQuery: 'AI_Token', byProject: 'AI_Project', byLanguage: 'AI_Language', byTime: 'AI_Hourly', byDevice: 'AI_Device' };
             vscode.postMessage({ command: 'saveImage', data: url, filename: (prefixes[activeTab] || 'AI') + '_' + dateLabel + '.png' });
         }
 
+        // Rows of cells; the extension quotes them, so names with commas, quotes or newlines stay intact
         function exportCSV() {
             const range = document.getElementById('dateRange').value;
             const dateLabel = getDateRangeLabel(range);
             const filenameLabel = dateLabel.replace(/[^a-zA-Z0-9-]/g, '_');
+            const save = (rows, name) => vscode.postMessage({ command: 'saveCSV', rows, filename: name + filenameLabel + '.csv' });
 
             if (activeTab === 'byModel') {
                 const filtered = filterByDate(allStats, range);
                 const modelTotals = {};
                 Object.values(filtered).forEach(day => { Object.keys(day).forEach(m => { modelTotals[m] = (modelTotals[m] || 0) + day[m]; }); });
                 const totalUsage = Object.values(modelTotals).reduce((a, b) => a + b, 0);
-                let report = "Date,Model,Usage (Tokens),Share (%)\\n";
+                const rows = [['Date', 'Model', 'Usage (Tokens)', 'Share (%)']];
                 Object.keys(modelTotals).sort().forEach(m => {
                     const count = modelTotals[m];
                     const pct = totalUsage > 0 ? ((count / totalUsage) * 100).toFixed(2) : "0.00";
-                    report += '"' + dateLabel + '","' + m + '",' + count + ',' + pct + '%\\n';
+                    rows.push([dateLabel, m, count, pct + '%']);
                 });
-                vscode.postMessage({ command: 'saveCSV', data: report, filename: 'AI_Model_' + filenameLabel + '.csv' });
+                save(rows, 'AI_Model_');
             } else if (activeTab === 'byTokenQuery') {
                 const filtered = filterByDate(tokenQueryStats, range);
-                let report = "Date,Input Tokens,Output Tokens,Total Tokens\\n";
+                const rows = [['Date', 'Input Tokens', 'Output Tokens', 'Total Tokens', 'Source']];
                 Object.keys(filtered).sort().forEach(d => {
                     const inp = (filtered[d] && filtered[d].inputTokens) || 0;
                     const out = (filtered[d] && filtered[d].outputTokens) || 0;
-                    report += d + ',' + inp + ',' + out + ',' + (inp + out) + '\\n';
+                    const src = (filtered[d] && filtered[d].source) || 'estimated';
+                    rows.push([d, inp, out, inp + out, src]);
                 });
-                report += "\\nQuery Type,Count\\n";
+                rows.push([], ['Query Type', 'Count']);
                 const queryTotals = {};
                 Object.values(filtered).forEach(day => { if (day && day.queries) { Object.keys(day.queries).forEach(t => { queryTotals[t] = (queryTotals[t] || 0) + day.queries[t]; }); } });
-                Object.entries(queryTotals).sort((a,b) => b[1] - a[1]).forEach(([t, c]) => { report += '"' + t + '",' + c + '\\n'; });
-                vscode.postMessage({ command: 'saveCSV', data: report, filename: 'AI_Token_Query_' + filenameLabel + '.csv' });
+                Object.entries(queryTotals).sort((a,b) => b[1] - a[1]).forEach(([t, c]) => { rows.push([t, c]); });
+                save(rows, 'AI_Token_Query_');
             } else if (activeTab === 'byProject') {
-                let report = "Project (Branch),Input Tokens,Output Tokens,Total Tokens\\n";
-                Object.keys(projectStats).forEach(p => {
-                    const inp = projectStats[p].inputTokens || 0;
-                    const out = projectStats[p].outputTokens || 0;
-                    report += '"' + p + '",' + inp + ',' + out + ',' + (inp + out) + '\\n';
-                });
-                report += "\\nQuery Type (" + currentBranch + "),Count\\n";
-                const cur = projectStats[currentBranch];
+                const rows = [['Repository', 'Repository ID', 'Branch', 'Input Tokens', 'Output Tokens', 'Total Tokens']];
+                getProjectGroups().forEach(g => g.branches.forEach(branch => {
+                    const data = projectStats[g.repoId].branches[branch];
+                    const inp = data.inputTokens || 0;
+                    const out = data.outputTokens || 0;
+                    rows.push([g.name, g.repoId, branch, inp, out, inp + out]);
+                }));
+                rows.push([], ['Query Type (' + currentProject.repoName + ' / ' + currentProject.branch + ')', 'Count']);
+                const curRepo = projectStats[currentProject.repoId];
+                const cur = curRepo && curRepo.branches[currentProject.branch];
                 if (cur && cur.queries) {
-                    Object.entries(cur.queries).sort((a,b) => b[1] - a[1]).forEach(([t, c]) => { report += '"' + t + '",' + c + '\\n'; });
+                    Object.entries(cur.queries).sort((a,b) => b[1] - a[1]).forEach(([t, c]) => { rows.push([t, c]); });
                 }
-                vscode.postMessage({ command: 'saveCSV', data: report, filename: 'AI_Project_' + filenameLabel + '.csv' });
+                save(rows, 'AI_Project_');
+            } else if (activeTab === 'byLanguage') {
+                const languages = aggregateLanguages(filterByDate(languageStats, range));
+                const rows = [['Date Range', 'Language', 'Input Tokens', 'Output Tokens', 'Total Tokens', 'Queries']];
+                languages.forEach(([lang, t]) => {
+                    rows.push([dateLabel, lang, t.inputTokens, t.outputTokens, t.inputTokens + t.outputTokens, t.queries]);
+                });
+                rows.push([], ['Language', 'File Type', 'Tokens']);
+                languages.forEach(([lang, t]) => {
+                    Object.entries(t.fileTypes).sort((a, b) => b[1] - a[1]).forEach(([ext, n]) => { rows.push([lang, ext, n]); });
+                });
+                save(rows, 'AI_Language_');
+            } else if (activeTab === 'byTime') {
+                const { hours, grid } = aggregateHours(filterByDate(hourlyStats, range));
+                const rows = [['Hour (' + timeZone + ')', 'Tokens', 'Queries']];
+                hours.forEach((u, h) => { rows.push([hourLabel(h), u.tokens, u.queries]); });
+                rows.push([], ['Weekday', ...hours.map((_, h) => hourLabel(h))]);
+                grid.forEach((row, d) => { rows.push([weekdayNames[d], ...row]); });
+                save(rows, 'AI_Hourly_');
+            } else if (activeTab === 'byDevice') {
+                const rows = [['Date Range', 'Device', 'Device ID', 'Tokens', 'Queries', 'Active Days', 'Last Synced']];
+                aggregateDevices(range).forEach(d => {
+                    rows.push([dateLabel, d.device.hostname, d.device.deviceId, d.tokens, d.queries, d.activeDays, d.device.isLocal ? 'live' : (d.device.updatedAt || '')]);
+                });
+                save(rows, 'AI_Device_');
             }
         }
 
@@ -1284,4 +2247,7 @@ function getWebviewContent(stats: DailyStats, tokenQueryStats: any, projectStats
 </html>`;
 }
 
-export function deactivate() {}
+export function deactivate() {
+    // Persist whatever is still buffered; VS Code waits for the returned promise
+    return usageBuffer?.flush();
+}
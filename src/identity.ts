@@ -0,0 +1,120 @@
+import * as vscode from 'vscode';
+import { execFileSync } from 'child_process';
+import { getUserEmailFromDB } from './dbLogic';
+import { LanguageServerClient } from './languageServer';
+import { StateDbReader } from './stateDb';
+
+export type IdentitySource = 'manual' | 'vscodeAuth' | 'stateDb' | 'languageServer' | 'git';
+
+export interface Identity {
+    email: string;
+    source: IdentitySource;
+    // Which account or file it came from, for display
+    detail?: string;
+}
+
+export interface IdentityProvider {
+    source: IdentitySource;
+    label: string;
+    resolve(): Promise<Identity | null>;
+}
+
+export const DEFAULT_IDENTITY_ORDER: IdentitySource[] = ['manual', 'vscodeAuth', 'stateDb', 'languageServer', 'git'];
+
+export const IDENTITY_SOURCE_LABELS: { [source in IdentitySource]: string } = {
+    manual: 'Manual setting',
+    vscodeAuth: 'VS Code account',
+    stateDb: 'Editor state DB',
+    languageServer: 'Antigravity language server',
+    git: 'git config'
+};
+
+// Exports of users nobody could identify get `<userId>@unresolved.invalid`, unique per user
+export const UNRESOLVED_EMAIL_DOMAIN = 'unresolved.invalid';
+
+// Signed-in accounts that carry an email (Microsoft) or a stable login (GitHub)
+const AUTH_PROVIDERS = ['microsoft', 'github'];
+
+function looksLikeEmail(value: string | undefined | null): value is string {
+    return !!value && /^[^\s@]+@[^\s@]+$/.test(value.trim());
+}
+
+/**
+ * The built-in providers. `hasConsent` is asked right before any provider but the manual setting reads an email.
+ */
+export function createIdentityProviders(languageServer: LanguageServerClient, stateDb: StateDbReader, hasConsent: (source: IdentitySource) => Promise<boolean>): IdentityProvider[] {
+    const provider = (source: IdentitySource, resolve: () => Promise<Identity | null>): IdentityProvider => ({
+        source, label: IDENTITY_SOURCE_LABELS[source], resolve
+    });
+    return [
+        provider('manual', async () => {
+            const email = vscode.workspace.getConfiguration('antigravity').get<string>('identity.email', '').trim();
+            return email ? { email, source: 'manual' } : null;
+        }),
+        provider('vscodeAuth', async () => {
+            if (!await hasConsent('vscodeAuth')) return null;
+            for (const id of AUTH_PROVIDERS) {
+                try {
+                    // silent: never prompts; undefined unless the user already signed in and allowed us
+                    const session = await vscode.authentication.getSession(id, [], { silent: true });
+                    const label = session?.account.label;
+                    if (!label) continue;
+                    if (looksLikeEmail(label)) return { email: label.trim(), source: 'vscodeAuth', detail: `${id} account` };
+                    // GitHub labels are logins; GitHub's noreply address is stable and unique per login
+                    if (id === 'github') return { email: `${label}@users.noreply.github.com`, source: 'vscodeAuth', detail: `GitHub account ${label}` };
+                } catch (e) {
+                    // Provider not available in this editor
+                }
+            }
+            return null;
+        }),
+        provider('stateDb', async () => {
+            if (!await hasConsent('stateDb')) return null;
+            const hit = await getUserEmailFromDB(stateDb);
+            if (!hit || !looksLikeEmail(hit.value)) return null;
+            const { product, profile } = hit.candidate;
+            return { email: hit.value.trim(), source: 'stateDb', detail: `${product}${profile ? ` profile ${profile}` : ''} state.vscdb` };
+        }),
+        provider('languageServer', async () => {
+            if (!await hasConsent('languageServer')) return null;
+            const data = await languageServer.getUserStatus().catch(() => null);
+            const email = data?.userStatus?.email;
+            return looksLikeEmail(email) ? { email: email.trim(), source: 'languageServer', detail: 'GetUserStatus' } : null;
+        }),
+        provider('git', async () => {
+            if (!await hasConsent('git')) return null;
+            try {
+                const email = execFileSync('git', ['config', '--global', 'user.email'], { timeout: 5000 }).toString().trim();
+                return looksLikeEmail(email) ? { email, source: 'git', detail: 'git config --global user.email' } : null;
+            } catch (e) {
+                return null;
+            }
+        })
+    ];
+}
+
+/**
+ * Providers in the order `antigravity.identity.providers` lists them. Unknown names are ignored;
+ * providers left out of the setting are not consulted.
+ */
+export function orderProviders(providers: IdentityProvider[]): IdentityProvider[] {
+    const order = vscode.workspace.getConfiguration('antigravity').get<string[]>('identity.providers', DEFAULT_IDENTITY_ORDER);
+    return order
+        .map(source => providers.find(p => p.source === source))
+        .filter((p): p is IdentityProvider => !!p);
+}
+
+/**
+ * First identity any provider resolves, in the configured order. A failing provider is skipped.
+ */
+export async function resolveIdentity(providers: IdentityProvider[]): Promise<Identity | null> {
+    for (const provider of orderProviders(providers)) {
+        try {
+            const identity = await provider.resolve();
+            if (identity) return identity;
+        } catch (e: any) {
+            console.log(`Antigravity Monitor: Identity provider ${provider.source} failed:`, e?.message || e);
+        }
+    }
+    return null;
+}
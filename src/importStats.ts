@@ -0,0 +1,253 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import { UsageRollups, ChangeSourceStats, CHANGE_SOURCE_STORAGE_KEY } from './stats';
+import { migrateBranchOnlyProjects } from './projects';
+import { convertNumericDailyTotals, addMissingTokenTotals } from './migrations';
+import { getRollups, replaceDaysInBaseline } from './journal';
+
+// 'sum' adds the file to local stats, 'max' keeps whichever side has more tokens per day
+// (and per branch for project totals), 'replace' discards local stats for the file's
+export type ImportStrategy = 'sum' | 'max' | 'replace';
+
+// Everything an `antigravity.exportStats` file carries that can be imported
+export interface ImportedStats extends UsageRollups {
+    userId?: string;
+    email?: string;
+    timeZone?: string;
+    changeSources: ChangeSourceStats;
+}
+
+export interface StatsSummary {
+    days: number;
+    firstDay?: string;
+    lastDay?: string;
+    tokens: number;
+    queries: number;
+}
+
+interface MergeResult {
+    rollups: UsageRollups;
+    changeSources: ChangeSourceStats;
+    // Days whose totals may differ from the local ones
+    dates: Set<string>;
+}
+
+const DATE_KEY = /^\d{4}-\d{2}-\d{2}$/;
+const PER_DAY_STORES = ['usage', 'tokenQuery', 'languages', 'hourly'] as const;
+
+function isObject(value: any): boolean {
+    return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+function isCount(value: any): boolean {
+    return typeof value === 'number' && Number.isFinite(value) && value >= 0;
+}
+
+// Keys that would reach a prototype instead of a plain property when assigned
+const UNSAFE_KEYS = new Set(['__proto__', 'constructor', 'prototype']);
+
+// An object of counts, with up to `depth` levels of nested count objects (e.g. `queries`)
+function isTally(value: any, depth = 0): boolean {
+    return isObject(value) && Object.entries<any>(value).every(([key, v]) =>
+        !UNSAFE_KEYS.has(key) && (isCount(v) || (depth > 0 && isTally(v, depth - 1))));
+}
+
+function copy<T>(value: T): T {
+    return JSON.parse(JSON.stringify(value));
+}
+
+/**
+ * Check every store in `raw` has the shape of stats this extension writes, so it can be merged
+ * with `addInto`. `name` labels errors. Fills in missing `queries`; throws on the first problem.
+ */
+export function validateStats(raw: any, name: string) {
+    for (const key of [...PER_DAY_STORES, 'projects', 'changeSources']) {
+        if (raw[key] !== undefined && !isObject(raw[key])) throw new Error(`"${key}" in ${name} is not an object`);
+    }
+    for (const key of [...PER_DAY_STORES, 'changeSources']) {
+        for (const [date, day] of Object.entries<any>(raw[key] || {})) {
+            if (!DATE_KEY.test(date)) throw new Error(`"${key}" in ${name} has an invalid date: ${date}`);
+            if (!isObject(day) && !(key === 'usage' && isCount(day))) throw new Error(`"${key}" in ${name} has an invalid entry for ${date}`);
+        }
+    }
+    for (const [date, models] of Object.entries<any>(raw.usage)) {
+        if (isObject(models) && !isTally(models)) throw new Error(`Model totals for ${date} in ${name} are not token counts`);
+    }
+    for (const [date, day] of Object.entries<any>(raw.tokenQuery || {})) {
+        const { source, ...counts } = day;
+        if (!isCount(day.inputTokens) || !isCount(day.outputTokens) || !isTally(counts, 1)) throw new Error(`Token totals for ${date} in ${name} are not token counts`);
+        if (source !== undefined && source !== 'measured' && source !== 'estimated') throw new Error(`Token totals for ${date} in ${name} have an invalid source`);
+        if (day.queries === undefined) day.queries = {};
+    }
+    // Per language: counts plus `fileTypes`; per hour and per change source: counts
+    for (const [key, depth] of [['languages', 2], ['hourly', 1], ['changeSources', 1]] as const) {
+        for (const [date, day] of Object.entries<any>(raw[key] || {})) {
+            if (!isTally(day, depth)) throw new Error(`"${key}" in ${name} has an invalid entry for ${date}`);
+        }
+    }
+    for (const [repoId, repo] of Object.entries<any>(raw.projects || {})) {
+        // Older exports keep branch totals directly under the project key
+        const { name: repoName, branches, ...legacy } = isObject(repo) ? repo : { name: null };
+        const valid = !UNSAFE_KEYS.has(repoId) && (repoName === undefined || typeof repoName === 'string')
+            && (branches === undefined ? isTally(legacy, 1) : isTally(branches, 2) && Object.keys(legacy).length === 0);
+        if (!valid) throw new Error(`Project totals for ${repoId} in ${name} are not token counts`);
+    }
+}
+
+/**
+ * Read and validate an exported stats file. Exports from older versions (numeric daily totals,
+ * no token stats, branch-only projects) are brought up to the current shape the way migrations would.
+ * Throws with the first problem found.
+ */
+export function readImportFile(file: string): ImportedStats {
+    const name = path.basename(file);
+    let raw: any;
+    try {
+        raw = JSON.parse(fs.readFileSync(file, 'utf8'));
+    } catch (e: any) {
+        throw new Error(`${name} is not valid JSON (${e.message})`);
+    }
+    if (!isObject(raw) || !isObject(raw.usage)) {
+        throw new Error(`${name} is not an Antigravity Monitor export (no usage stats)`);
+    }
+    if (raw.userId !== undefined && typeof raw.userId !== 'string') {
+        throw new Error(`${name} has an invalid userId`);
+    }
+    validateStats(raw, name);
+
+    const usage = raw.usage;
+    const tokenQuery = raw.tokenQuery || {};
+    convertNumericDailyTotals(usage);
+    addMissingTokenTotals(usage, tokenQuery);
+    return {
+        userId: raw.userId,
+        email: raw.email,
+        timeZone: raw.timeZone,
+        usage,
+        tokenQuery,
+        projects: migrateBranchOnlyProjects(raw.projects) || raw.projects || {},
+        languages: raw.languages || {},
+        hourly: raw.hourly || {},
+        changeSources: raw.changeSources || {}
+    };
+}
+
+function dayTokens(rollups: UsageRollups, date: string): number {
+    const day = rollups.tokenQuery[date];
+    if (day) return (day.inputTokens || 0) + (day.outputTokens || 0);
+    return Object.values(rollups.usage[date] || {}).reduce((a, b) => a + b, 0);
+}
+
+function datesOf(stats: UsageRollups & { changeSources: ChangeSourceStats }): Set<string> {
+    const dates = new Set<string>();
+    for (const key of [...PER_DAY_STORES, 'changeSources'] as const) {
+        for (const date of Object.keys(stats[key])) dates.add(date);
+    }
+    return dates;
+}
+
+// Add every number in `source` into `target`, recursively; other values are only copied when missing.
+// Prototype keys are skipped so a crafted file can't reach `Object.prototype`.
+export function addInto(target: object, source: object) {
+    const into = target as { [key: string]: unknown };
+    for (const [key, value] of Object.entries(source as { [key: string]: unknown })) {
+        if (UNSAFE_KEYS.has(key)) continue;
+        const current = into[key];
+        if (typeof value === 'number') {
+            into[key] = (typeof current === 'number' ? current : 0) + value;
+        } else if (isObject(value)) {
+            if (!isObject(current)) into[key] = {};
+            addInto(into[key] as object, value as object);
+        } else if (current === undefined) {
+            into[key] = value;
+        }
+    }
+}
+
+export function summarizeStats(rollups: UsageRollups): StatsSummary {
+    const dates = Object.keys({ ...rollups.usage, ...rollups.tokenQuery }).sort();
+    let tokens = 0;
+    let queries = 0;
+    for (const date of dates) {
+        tokens += dayTokens(rollups, date);
+        queries += Object.values(rollups.tokenQuery[date]?.queries || {}).reduce((a, b) => a + b, 0);
+    }
+    return { days: dates.length, firstDay: dates[0], lastDay: dates[dates.length - 1], tokens, queries };
+}
+
+/**
+ * Merge imported stats into local ones without changing either.
+ */
+export function mergeStats(local: UsageRollups & { changeSources: ChangeSourceStats }, incoming: ImportedStats, strategy: ImportStrategy): MergeResult {
+    if (strategy === 'replace') {
+        const dates = datesOf(local);
+        for (const date of datesOf(incoming)) dates.add(date);
+        const { usage, tokenQuery, projects, languages, hourly, changeSources } = copy(incoming);
+        return { rollups: { usage, tokenQuery, projects, languages, hourly }, changeSources, dates };
+    }
+
+    const rollups: UsageRollups = copy({
+        usage: local.usage, tokenQuery: local.tokenQuery, projects: local.projects, languages: local.languages, hourly: local.hourly
+    });
+    const changeSources = copy(local.changeSources);
+    const dates = datesOf(incoming);
+
+    for (const date of dates) {
+        if (strategy === 'max') {
+            if (dayTokens(incoming, date) <= dayTokens(rollups, date)) continue;
+            for (const store of PER_DAY_STORES) {
+                if (incoming[store][date]) {
+                    (rollups[store] as any)[date] = copy(incoming[store][date]);
+                } else {
+                    delete rollups[store][date];
+                }
+            }
+            continue;
+        }
+        const localSource = rollups.tokenQuery[date]?.source;
+        for (const store of PER_DAY_STORES) {
+            if (!incoming[store][date]) continue;
+            if (!rollups[store][date]) (rollups[store] as any)[date] = {};
+            addInto(rollups[store][date], incoming[store][date]);
+        }
+        // A measured side keeps the day measured, so later estimates don't add to it
+        const day = rollups.tokenQuery[date];
+        if (day && (localSource === 'measured' || incoming.tokenQuery[date]?.source === 'measured')) day.source = 'measured';
+    }
+
+    if (strategy === 'sum') {
+        addInto(rollups.projects, incoming.projects);
+        addInto(changeSources, incoming.changeSources);
+    } else {
+        for (const [repoId, repo] of Object.entries(incoming.projects)) {
+            const target = rollups.projects[repoId] || { name: repo.name, branches: {} };
+            for (const [branch, stats] of Object.entries(repo.branches)) {
+                const current = target.branches[branch];
+                const tokens = (s: typeof stats) => (s.inputTokens || 0) + (s.outputTokens || 0);
+                if (!current || tokens(stats) > tokens(current)) target.branches[branch] = copy(stats);
+            }
+            rollups.projects[repoId] = target;
+        }
+        for (const [date, sources] of Object.entries(incoming.changeSources)) {
+            const chars = (day: ChangeSourceStats[string] | undefined) => Object.values(day || {}).reduce((a, s) => a + (s.chars || 0), 0);
+            if (chars(sources) > chars(changeSources[date])) changeSources[date] = copy(sources);
+        }
+    }
+    return { rollups, changeSources, dates };
+}
+
+/**
+ * Merge `incoming` into the stored stats. Imported days have no journal events, so they are
+ * written into the journal baseline to survive rebuilds; journaled events on those days lose
+ * their per-event detail. Flush the usage buffer before and reload it after.
+ */
+export async function importStats(context: vscode.ExtensionContext, incoming: ImportedStats, strategy: ImportStrategy): Promise<StatsSummary> {
+    const previous = getRollups(context);
+    const local = { ...previous, changeSources: context.globalState.get<ChangeSourceStats>(CHANGE_SOURCE_STORAGE_KEY, {}) };
+    const merged = mergeStats(local, incoming, strategy);
+    await replaceDaysInBaseline(context, previous, merged.rollups, merged.dates);
+    await context.globalState.update(CHANGE_SOURCE_STORAGE_KEY, merged.changeSources);
+    console.log('Antigravity Monitor: Imported', merged.dates.size, 'days of stats using', strategy);
+    return summarizeStats(merged.rollups);
+}
@@ -0,0 +1,412 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import {
+    UsageEvent, UsageRollups,
+    USAGE_STORAGE_KEY, TOKEN_QUERY_STORAGE_KEY, PROJECT_STORAGE_KEY, LANGUAGE_STORAGE_KEY, HOURLY_STORAGE_KEY, LanguageStats
+} from './stats';
+import { LEGACY_TOKENIZER_ID } from './tokenizers';
+import { DAY_BUCKET_TIMEZONE_KEY, toDateKey, toHour, daysAgoKey } from './time';
+import { addToProjectStats, migrateBranchOnlyProjects, LEGACY_REPO_ID, LEGACY_REPO_NAME } from './projects';
+
+// Folded-in totals for everything compacted out of the event files (and pre-journal history)
+const BASELINE_FILE = 'baseline.json';
+const LAST_COMPACTION_KEY = 'antigravity.journalLastCompaction';
+
+export function getJournalDir(context: vscode.ExtensionContext): string {
+    const dir = path.join(context.globalStorageUri.fsPath, 'journal');
+    fs.mkdirSync(dir, { recursive: true });
+    return dir;
+}
+
+function listEventFiles(dir: string): string[] {
+    return fs.readdirSync(dir)
+        .filter(f => /^events-\d{4}-\d{2}\.ndjson$/.test(f))
+        .sort();
+}
+
+function readEventFile(file: string): UsageEvent[] {
+    const events: UsageEvent[] = [];
+    for (const line of fs.readFileSync(file, 'utf8').split('\n')) {
+        if (!line.trim()) continue;
+        try {
+            events.push(JSON.parse(line));
+        } catch (e) {
+            // A torn last line after a crash - skip it
+            console.log('Antigravity Monitor: Skipping unreadable journal line in', path.basename(file));
+        }
+    }
+    return events;
+}
+
+// Replace an event file through a temp file so a crash never leaves it half written; no events deletes it
+function writeEventFile(file: string, events: UsageEvent[]) {
+    if (events.length === 0) {
+        fs.unlinkSync(file);
+        return;
+    }
+    fs.writeFileSync(file + '.tmp', events.map(e => JSON.stringify(e)).join('\n') + '\n');
+    fs.renameSync(file + '.tmp', file);
+}
+
+export function emptyRollups(): UsageRollups {
+    return { usage: {}, tokenQuery: {}, projects: {}, languages: {}, hourly: {} };
+}
+
+export function getRollups(context: vscode.ExtensionContext): UsageRollups {
+    return {
+        usage: context.globalState.get(USAGE_STORAGE_KEY, {}),
+        tokenQuery: context.globalState.get(TOKEN_QUERY_STORAGE_KEY, {}),
+        projects: context.globalState.get(PROJECT_STORAGE_KEY, {}),
+        languages: context.globalState.get(LANGUAGE_STORAGE_KEY, {}),
+        hourly: context.globalState.get(HOURLY_STORAGE_KEY, {})
+    };
+}
+
+export async function saveRollups(context: vscode.ExtensionContext, rollups: UsageRollups) {
+    await context.globalState.update(USAGE_STORAGE_KEY, rollups.usage);
+    await context.globalState.update(TOKEN_QUERY_STORAGE_KEY, rollups.tokenQuery);
+    await context.globalState.update(PROJECT_STORAGE_KEY, rollups.projects);
+    await context.globalState.update(LANGUAGE_STORAGE_KEY, rollups.languages);
+    await context.globalState.update(HOURLY_STORAGE_KEY, rollups.hourly);
+}
+
+/**
+ * Fold one event into the rollups. This is the single definition of how events become
+ * daily totals; incremental tracking and full rebuilds both go through it.
+ *
+ * The first measured event of a day replaces that day's character-based estimate;
+ * after that, estimated events only add their query count for the day.
+ */
+export function applyEventToRollups(rollups: UsageRollups, event: UsageEvent) {
+    const { date } = event;
+    const existing = rollups.tokenQuery[date];
+
+    if (event.source === 'measured' && existing?.source !== 'measured') {
+        rollups.tokenQuery[date] = { inputTokens: 0, outputTokens: 0, queries: existing?.queries || {}, source: 'measured' };
+        rollups.usage[date] = {};
+        for (const h of Object.values(rollups.hourly[date] || {})) h.tokens = 0;
+    } else if (!existing) {
+        rollups.tokenQuery[date] = { inputTokens: 0, outputTokens: 0, queries: {}, source: 'estimated' };
+    }
+
+    const day = rollups.tokenQuery[date];
+    if (!day.queries) day.queries = {};
+    if (!rollups.usage[date]) rollups.usage[date] = {};
+    if (!rollups.hourly[date]) rollups.hourly[date] = {};
+    // Events from before hourly buckets only have their timestamp
+    const hour = event.hour ?? toHour(new Date(event.ts));
+    const hourUsage = rollups.hourly[date][hour] || { tokens: 0, queries: 0 };
+    rollups.hourly[date][hour] = hourUsage;
+
+    if (event.source === 'measured' || day.source !== 'measured') {
+        rollups.usage[date][event.model] = (rollups.usage[date][event.model] || 0) + event.inputTokens + event.outputTokens;
+        hourUsage.tokens += event.inputTokens + event.outputTokens;
+        day.inputTokens = (day.inputTokens || 0) + event.inputTokens;
+        day.outputTokens = (day.outputTokens || 0) + event.outputTokens;
+        if (event.source === 'estimated') {
+            const tokenizer = event.tokenizer || LEGACY_TOKENIZER_ID;
+            if (!day.tokenizers) day.tokenizers = {};
+            day.tokenizers[tokenizer] = (day.tokenizers[tokenizer] || 0) + event.inputTokens + event.outputTokens;
+        }
+    }
+    if (event.queryType) {
+        day.queries[event.queryType] = (day.queries[event.queryType] || 0) + 1;
+        hourUsage.queries++;
+    }
+
+    // Project totals are not per-day, so they only ever come from editor (estimated) events.
+    // Events from before repository tracking have no repoId and land in the legacy bucket.
+    if (event.source === 'estimated' && event.branch) {
+        const repoId = event.repoId || LEGACY_REPO_ID;
+        const repoName = event.repoId ? (event.repo || repoId) : LEGACY_REPO_NAME;
+        addToProjectStats(rollups.projects, repoId, repoName, event.branch, event.inputTokens, event.outputTokens, event.queryType);
+    }
+
+    applyEventToLanguages(rollups.languages, event);
+}
+
+/**
+ * Per-language totals. Like projects, only editor (estimated) events know the document,
+ * so on measured days these show the estimated split rather than the measured total.
+ */
+export function applyEventToLanguages(languages: LanguageStats, event: UsageEvent) {
+    if (event.source !== 'estimated' || !event.language) return;
+    if (!languages[event.date]) languages[event.date] = {};
+    const entry = languages[event.date][event.language] || { inputTokens: 0, outputTokens: 0, queries: 0, fileTypes: {} };
+    entry.inputTokens += event.inputTokens;
+    entry.outputTokens += event.outputTokens;
+    entry.queries++;
+    const ext = (event.file && path.extname(event.file).toLowerCase()) || '(none)';
+    entry.fileTypes[ext] = (entry.fileTypes[ext] || 0) + event.inputTokens + event.outputTokens;
+    languages[event.date][event.language] = entry;
+}
+
+/**
+ * Append events to the journal (one NDJSON file per month).
+ */
+export function appendEvents(context: vscode.ExtensionContext, events: UsageEvent[]) {
+    if (events.length === 0) return;
+    const dir = getJournalDir(context);
+    const byFile = new Map<string, string>();
+    for (const event of events) {
+        const file = path.join(dir, `events-${event.date.slice(0, 7)}.ndjson`);
+        byFile.set(file, (byFile.get(file) || '') + JSON.stringify(event) + '\n');
+    }
+    for (const [file, lines] of byFile) {
+        fs.appendFileSync(file, lines);
+    }
+}
+
+export function readEvents(context: vscode.ExtensionContext): UsageEvent[] {
+    const dir = getJournalDir(context);
+    const events: UsageEvent[] = [];
+    for (const file of listEventFiles(dir)) {
+        events.push(...readEventFile(path.join(dir, file)));
+    }
+    return events.sort((a, b) => a.ts.localeCompare(b.ts));
+}
+
+/**
+ * Rewrite every journaled event in place (e.g. after classification rules change).
+ * Returns how many events `update` changed; rebuild the rollups afterwards.
+ */
+export function rewriteEvents(context: vscode.ExtensionContext, update: (event: UsageEvent) => UsageEvent | null): number {
+    const dir = getJournalDir(context);
+    let changed = 0;
+    for (const file of listEventFiles(dir)) {
+        const filePath = path.join(dir, file);
+        const events = readEventFile(filePath);
+        let fileChanged = false;
+        const rewritten = events.map(event => {
+            const next = update(event);
+            if (!next) return event;
+            changed++;
+            fileChanged = true;
+            return next;
+        });
+        if (!fileChanged) continue;
+        writeEventFile(filePath, rewritten);
+    }
+    return changed;
+}
+
+/**
+ * Drop every journaled event `remove` matches. Returns how many were dropped; rebuild the rollups afterwards.
+ */
+export function removeEvents(context: vscode.ExtensionContext, remove: (event: UsageEvent) => boolean): number {
+    const dir = getJournalDir(context);
+    let removed = 0;
+    for (const file of listEventFiles(dir)) {
+        const filePath = path.join(dir, file);
+        const events = readEventFile(filePath);
+        const keep = events.filter(e => !remove(e));
+        if (keep.length === events.length) continue;
+        removed += events.length - keep.length;
+        writeEventFile(filePath, keep);
+    }
+    return removed;
+}
+
+/**
+ * Raw contents of the baseline and every event file, keyed by file name (for backups).
+ */
+export function snapshotJournal(context: vscode.ExtensionContext): { [fileName: string]: string } {
+    const dir = getJournalDir(context);
+    const files: { [fileName: string]: string } = {};
+    for (const file of [BASELINE_FILE, ...listEventFiles(dir)]) {
+        const filePath = path.join(dir, file);
+        if (fs.existsSync(filePath)) files[file] = fs.readFileSync(filePath, 'utf8');
+    }
+    return files;
+}
+
+/**
+ * Replace the baseline and event files with a snapshot taken by snapshotJournal.
+ */
+export function restoreJournal(context: vscode.ExtensionContext, files: { [fileName: string]: string }) {
+    const dir = getJournalDir(context);
+    for (const file of [BASELINE_FILE, ...listEventFiles(dir)]) {
+        if (!(file in files) && fs.existsSync(path.join(dir, file))) fs.unlinkSync(path.join(dir, file));
+    }
+    for (const [file, content] of Object.entries(files)) {
+        // Only names the journal itself writes
+        if (file !== BASELINE_FILE && !/^events-\d{4}-\d{2}\.ndjson$/.test(file)) continue;
+        fs.writeFileSync(path.join(dir, file + '.tmp'), content);
+        fs.renameSync(path.join(dir, file + '.tmp'), path.join(dir, file));
+    }
+}
+
+/**
+ * The folded-in totals rebuilds start from (a copy; change it with updateBaseline).
+ */
+export function getBaseline(context: vscode.ExtensionContext): UsageRollups {
+    return readBaseline(getJournalDir(context)) || emptyRollups();
+}
+
+function readBaseline(dir: string): UsageRollups | null {
+    const file = path.join(dir, BASELINE_FILE);
+    if (!fs.existsSync(file)) return null;
+    const baseline: UsageRollups = JSON.parse(fs.readFileSync(file, 'utf8'));
+    // Baselines written before repository tracking key projects by branch only
+    baseline.projects = migrateBranchOnlyProjects(baseline.projects) || baseline.projects || {};
+    // Languages and hours were never tracked before the journal, so older baselines have none
+    baseline.languages = baseline.languages || {};
+    baseline.hourly = baseline.hourly || {};
+    return baseline;
+}
+
+function writeBaseline(dir: string, baseline: UsageRollups) {
+    const file = path.join(dir, BASELINE_FILE);
+    fs.writeFileSync(file + '.tmp', JSON.stringify(baseline));
+    fs.renameSync(file + '.tmp', file);
+}
+
+/**
+ * Create the journal on first run. History tracked before the journal existed has no
+ * events, so the current rollups become the baseline that rebuilds start from.
+ */
+export function initJournal(context: vscode.ExtensionContext) {
+    const dir = getJournalDir(context);
+    if (readBaseline(dir) === null && listEventFiles(dir).length === 0) {
+        writeBaseline(dir, getRollups(context));
+        console.log('Antigravity Monitor: Journal initialized from existing stats');
+    }
+}
+
+/**
+ * Recompute the rollups from the baseline plus every journaled event.
+ */
+export async function rebuildRollups(context: vscode.ExtensionContext): Promise<UsageRollups> {
+    const dir = getJournalDir(context);
+    const rollups = readBaseline(dir) || emptyRollups();
+    for (const event of readEvents(context)) {
+        applyEventToRollups(rollups, event);
+    }
+    await saveRollups(context, rollups);
+    return rollups;
+}
+
+/**
+ * Re-derive every journaled event's day and hour from its timestamp in `timeZone`, then rebuild.
+ * Totals in the baseline (pre-journal and compacted history) have no timestamps and keep their day keys.
+ */
+export async function rebucketHistory(context: vscode.ExtensionContext, timeZone: string): Promise<number> {
+    const changed = rewriteEvents(context, (e) => {
+        const at = new Date(e.ts);
+        const date = toDateKey(at, timeZone);
+        const hour = toHour(at, timeZone);
+        return date === e.date && hour === e.hour ? null : { ...e, date, hour };
+    });
+    await rebuildRollups(context);
+    await context.globalState.update(DAY_BUCKET_TIMEZONE_KEY, timeZone);
+    console.log('Antigravity Monitor: Re-bucketed', changed, 'journal events into', timeZone);
+    return changed;
+}
+
+/**
+ * Fold events older than `retainDays` into the baseline and drop them from the event files.
+ * Rollup totals are unchanged; only per-event detail is lost.
+ */
+export function compactJournal(context: vscode.ExtensionContext, retainDays: number): number {
+    const dir = getJournalDir(context);
+    const cutoff = daysAgoKey(retainDays);
+    const baseline = readBaseline(dir) || emptyRollups();
+    let compacted = 0;
+
+    for (const file of listEventFiles(dir)) {
+        const filePath = path.join(dir, file);
+        const events = readEventFile(filePath);
+        const keep = events.filter(e => e.date >= cutoff);
+        if (keep.length === events.length) continue;
+
+        for (const event of events) {
+            if (event.date < cutoff) applyEventToRollups(baseline, event);
+        }
+        compacted += events.length - keep.length;
+
+        // Baseline first: a crash between the two writes double counts rather than loses data
+        writeBaseline(dir, baseline);
+        writeEventFile(filePath, keep);
+    }
+
+    context.globalState.update(LAST_COMPACTION_KEY, toDateKey());
+    if (compacted > 0) console.log('Antigravity Monitor: Compacted', compacted, 'journal events older than', cutoff);
+    return compacted;
+}
+
+/**
+ * Make `next` the rollups a rebuild produces, for data that has no events (e.g. imported stats).
+ * `previous` must be the current rollups. Journaled events on `dates` are folded into the baseline
+ * and dropped, then those days are set to `next` in the baseline (removed where `next` has none).
+ * Project totals are not per day, so the baseline takes the difference between `next` and `previous`.
+ */
+export async function replaceDaysInBaseline(context: vscode.ExtensionContext, previous: UsageRollups, next: UsageRollups, dates: Set<string>) {
+    const dir = getJournalDir(context);
+    const baseline = readBaseline(dir) || emptyRollups();
+
+    for (const file of listEventFiles(dir)) {
+        const filePath = path.join(dir, file);
+        const events = readEventFile(filePath);
+        const keep = events.filter(e => !dates.has(e.date));
+        if (keep.length === events.length) continue;
+        for (const event of events) {
+            if (dates.has(event.date)) applyEventToRollups(baseline, event);
+        }
+        writeBaseline(dir, baseline);
+        writeEventFile(filePath, keep);
+    }
+
+    for (const date of dates) {
+        for (const store of ['usage', 'tokenQuery', 'languages', 'hourly'] as const) {
+            if (next[store][date]) {
+                (baseline[store] as any)[date] = next[store][date];
+            } else {
+                delete baseline[store][date];
+            }
+        }
+    }
+
+    const repoIds = new Set([...Object.keys(previous.projects), ...Object.keys(next.projects)]);
+    for (const repoId of repoIds) {
+        const before = previous.projects[repoId]?.branches || {};
+        const after = next.projects[repoId]?.branches || {};
+        for (const branch of new Set([...Object.keys(before), ...Object.keys(after)])) {
+            const b = before[branch] || { inputTokens: 0, outputTokens: 0, queries: {} };
+            const a = after[branch] || { inputTokens: 0, outputTokens: 0, queries: {} };
+            addToProjectStats(baseline.projects, repoId, next.projects[repoId]?.name || previous.projects[repoId].name, branch,
+                a.inputTokens - b.inputTokens, a.outputTokens - b.outputTokens);
+            const queries = baseline.projects[repoId].branches[branch].queries;
+            for (const type of new Set([...Object.keys(b.queries || {}), ...Object.keys(a.queries || {})])) {
+                queries[type] = (queries[type] || 0) + (a.queries?.[type] || 0) - (b.queries?.[type] || 0);
+                if (queries[type] === 0) delete queries[type];
+            }
+        }
+    }
+
+    writeBaseline(dir, baseline);
+    await saveRollups(context, next);
+}
+
+/**
+ * Rewrite the baseline in place, e.g. to aggregate old days. Call rebuildRollups afterwards.
+ */
+export function updateBaseline(context: vscode.ExtensionContext, update: (baseline: UsageRollups) => void) {
+    const dir = getJournalDir(context);
+    const baseline = readBaseline(dir) || emptyRollups();
+    update(baseline);
+    writeBaseline(dir, baseline);
+}
+
+/**
+ * Compact at most once a day, on startup.
+ */
+export function compactJournalIfDue(context: vscode.ExtensionContext) {
+    if (context.globalState.get<string>(LAST_COMPACTION_KEY) === toDateKey()) return;
+    const retainDays = vscode.workspace.getConfiguration('antigravity').get<number>('journal.retainEventsDays', 90);
+    try {
+        compactJournal(context, retainDays);
+    } catch (e: any) {
+        console.log('Antigravity Monitor: Journal compaction failed:', e?.message || e);
+    }
+}
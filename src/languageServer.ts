@@ -0,0 +1,280 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as https from 'https';
+import * as tls from 'tls';
+import { execFileSync } from 'child_process';
+
+export interface LanguageServerConnection {
+    host: string;
+    port: number;
+    csrfToken: string;
+    pid: number;
+}
+
+export interface ProcessInfo {
+    pid: number;
+    commandLine: string;
+}
+
+// Where discovery looks for the server; swapped for a fake table in tests
+export interface ProcessTable {
+    list(): ProcessInfo[];
+}
+
+// The parts of GetUserStatus this extension reads. proto3 JSON encodes int64 as strings.
+export interface ClientModelConfig {
+    label?: string;
+    modelOrAlias?: { model?: string };
+    usage?: { inputTokens?: string | number; outputTokens?: string | number };
+    tokenUsage?: { inputTokens?: string | number; outputTokens?: string | number };
+    quotaInfo?: { remainingFraction?: number; resetTime?: string };
+}
+
+export interface UserStatusResponse {
+    userStatus?: {
+        email?: string;
+        name?: string;
+        selectedModel?: string;
+        cascadeModelConfigData?: {
+            clientModelConfigs?: ClientModelConfig[];
+            selectedModelConfig?: ClientModelConfig;
+            defaultOverrideModelConfig?: ClientModelConfig;
+        };
+    };
+}
+
+export type LanguageServerErrorCode =
+    | 'not_running'       // no language server process found
+    | 'unreachable'       // connection refused/reset
+    | 'timeout'
+    | 'certificate'       // the server presented a different certificate than the pinned one
+    | 'http'              // non-2xx response; see `status`
+    | 'invalid_response'; // body was not JSON
+
+export class LanguageServerError extends Error {
+    constructor(readonly code: LanguageServerErrorCode, message: string, readonly status?: number) {
+        super(message);
+        this.name = 'LanguageServerError';
+    }
+}
+
+export interface LanguageServerClient {
+    getUserStatus(): Promise<UserStatusResponse>;
+    // The cached connection, discovering the server when there is none
+    connect(): Promise<LanguageServerConnection>;
+    // Forget the cached connection and certificate pin
+    reset(): void;
+}
+
+export interface LanguageServerClientOptions {
+    processTable?: ProcessTable;
+    host?: string;
+    timeoutMs?: number;
+}
+
+const RPC_PREFIX = '/exa.language_server_pb.LanguageServerService/';
+const DEFAULT_TIMEOUT_MS = 5000;
+
+/**
+ * Linux: read every process's argv from /proc (no child process, no `ps` output format to depend on).
+ */
+export function procfsProcessTable(root = '/proc'): ProcessTable {
+    return {
+        list() {
+            const processes: ProcessInfo[] = [];
+            for (const entry of fs.readdirSync(root)) {
+                if (!/^\d+$/.test(entry)) continue;
+                try {
+                    const argv = fs.readFileSync(path.join(root, entry, 'cmdline'), 'utf8').split('\0').filter(Boolean);
+                    if (argv.length > 0) processes.push({ pid: Number(entry), commandLine: argv.join(' ') });
+                } catch (e) {
+                    // Exited while listing, or not ours to read
+                }
+            }
+            return processes;
+        }
+    };
+}
+
+/**
+ * macOS and Windows: the system process list.
+ */
+export function systemProcessTable(): ProcessTable {
+    return {
+        list() {
+            if (process.platform === 'win32') {
+                const output = execFileSync('powershell.exe', [
+                    '-NoProfile', '-NonInteractive', '-Command',
+                    'Get-CimInstance Win32_Process | Where-Object { $_.CommandLine } | ForEach-Object { "$($_.ProcessId) $($_.CommandLine)" }'
+                ], { timeout: DEFAULT_TIMEOUT_MS, windowsHide: true }).toString();
+                return parsePidLines(output);
+            }
+            return parsePidLines(execFileSync('ps', ['-axww', '-o', 'pid=,command='], { timeout: DEFAULT_TIMEOUT_MS }).toString());
+        }
+    };
+}
+
+function parsePidLines(output: string): ProcessInfo[] {
+    const processes: ProcessInfo[] = [];
+    for (const line of output.split(/\r?\n/)) {
+        const match = line.trim().match(/^(\d+)\s+(.*)$/);
+        if (match) processes.push({ pid: Number(match[1]), commandLine: match[2] });
+    }
+    return processes;
+}
+
+export function defaultProcessTable(): ProcessTable {
+    return process.platform === 'linux' && fs.existsSync('/proc/self/cmdline') ? procfsProcessTable() : systemProcessTable();
+}
+
+/**
+ * Port and CSRF token from a language server command line, or null when it isn't one.
+ */
+export function parseServerArgs(commandLine: string): { port: number; csrfToken: string } | null {
+    if (!commandLine.toLowerCase().includes('antigravity') && !commandLine.includes('language_server')) return null;
+    const portMatch = commandLine.match(/--port[=\s](\d+)/);
+    const tokenMatch = commandLine.match(/--?csrf[_-]token[=\s](\S+)/);
+    if (!portMatch || !tokenMatch) return null;
+    return { port: parseInt(portMatch[1], 10), csrfToken: tokenMatch[1] };
+}
+
+/**
+ * Find the language server in `table`. Returns null when it isn't running.
+ */
+export function findLanguageServer(table: ProcessTable = defaultProcessTable(), host = '127.0.0.1'): LanguageServerConnection | null {
+    for (const { pid, commandLine } of table.list()) {
+        const args = parseServerArgs(commandLine);
+        if (args) return { host, pid, ...args };
+    }
+    return null;
+}
+
+function fingerprint(cert: tls.PeerCertificate): string {
+    return cert.fingerprint256;
+}
+
+function toPem(raw: Buffer): string {
+    return `-----BEGIN CERTIFICATE-----\n${raw.toString('base64').match(/.{1,64}/g)!.join('\n')}\n-----END CERTIFICATE-----\n`;
+}
+
+/**
+ * Read the certificate the server presents, before anything (like the CSRF token) is sent to it.
+ * The server is a local process we just found by its command line, so the first certificate seen
+ * for a process is pinned and every request afterwards must present exactly that one.
+ */
+function fetchCertificate(host: string, port: number, timeoutMs: number): Promise<{ pem: string; fingerprint: string }> {
+    return new Promise((resolve, reject) => {
+        // Handshake only to read the certificate; it is verified against the pin on every request
+        const socket = tls.connect({ host, port, rejectUnauthorized: false, timeout: timeoutMs }, () => {
+            const cert = socket.getPeerCertificate();
+            socket.end();
+            if (!cert || !cert.raw) {
+                reject(new LanguageServerError('certificate', 'Language server presented no certificate'));
+            } else {
+                resolve({ pem: toPem(cert.raw), fingerprint: fingerprint(cert) });
+            }
+        });
+        socket.on('timeout', () => socket.destroy(new LanguageServerError('timeout', `No TLS handshake within ${timeoutMs}ms`)));
+        socket.on('error', (e: any) => reject(e instanceof LanguageServerError ? e : new LanguageServerError('unreachable', e.message)));
+    });
+}
+
+/**
+ * Client for the Antigravity language server's Connect JSON API. The discovered connection and the
+ * server's certificate are cached; when a call fails in a way a server restart explains (refused
+ * connection, rejected CSRF token, new certificate), the server is discovered again and the call retried once.
+ */
+export function createLanguageServerClient(options: LanguageServerClientOptions = {}): LanguageServerClient {
+    const timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+    let cached: { conn: LanguageServerConnection; pem: string; fingerprint: string } | undefined;
+
+    async function discover() {
+        const conn = findLanguageServer(options.processTable || defaultProcessTable(), options.host);
+        if (!conn) throw new LanguageServerError('not_running', 'Antigravity language server is not running');
+        const cert = await fetchCertificate(conn.host, conn.port, timeoutMs);
+        cached = { conn, ...cert };
+        console.log(`Antigravity Monitor: Found Antigravity language server (pid ${conn.pid}) on port ${conn.port}`);
+        return cached;
+    }
+
+    function post<T>(target: NonNullable<typeof cached>, method: string, body: object): Promise<T> {
+        const payload = JSON.stringify({
+            metadata: { ideName: 'antigravity', extensionName: 'antigravity', locale: 'en' },
+            ...body
+        });
+        return new Promise<T>((resolve, reject) => {
+            const req = https.request({
+                hostname: target.conn.host,
+                port: target.conn.port,
+                path: RPC_PREFIX + method,
+                method: 'POST',
+                headers: {
+                    'Content-Type': 'application/json',
+                    'Content-Length': Buffer.byteLength(payload),
+                    'Connect-Protocol-Version': '1',
+                    'X-Codeium-Csrf-Token': target.conn.csrfToken,
+                },
+                // Trust exactly the pinned certificate; its names don't cover 127.0.0.1, so identity is the fingerprint
+                ca: target.pem,
+                checkServerIdentity: (_host, cert) => fingerprint(cert) === target.fingerprint
+                    ? undefined
+                    : new LanguageServerError('certificate', 'Language server certificate does not match the pinned one'),
+                timeout: timeoutMs,
+                agent: false,
+            }, (res) => {
+                let data = '';
+                res.on('data', (chunk) => data += chunk);
+                res.on('end', () => {
+                    const status = res.statusCode || 0;
+                    if (status < 200 || status >= 300) {
+                        reject(new LanguageServerError('http', `${method} failed with HTTP ${status}`, status));
+                        return;
+                    }
+                    try {
+                        resolve(JSON.parse(data) as T);
+                    } catch {
+                        reject(new LanguageServerError('invalid_response', `${method} returned invalid JSON`));
+                    }
+                });
+            });
+            req.on('timeout', () => req.destroy(new LanguageServerError('timeout', `${method} timed out after ${timeoutMs}ms`)));
+            req.on('error', (e: any) => {
+                if (e instanceof LanguageServerError) reject(e);
+                else if (e?.code === 'DEPTH_ZERO_SELF_SIGNED_CERT' || /certificate/i.test(e?.message || '')) reject(new LanguageServerError('certificate', e.message));
+                else reject(new LanguageServerError('unreachable', `${method}: ${e?.message || e}`));
+            });
+            req.write(payload);
+            req.end();
+        });
+    }
+
+    async function call<T>(method: string, body: object = {}): Promise<T> {
+        const target = cached || await discover();
+        try {
+            return await post<T>(target, method, body);
+        } catch (e) {
+            const restarted = e instanceof LanguageServerError &&
+                (e.code === 'unreachable' || e.code === 'certificate' || (e.code === 'http' && (e.status === 401 || e.status === 403)));
+            if (!restarted) throw e;
+            // A restarted server has a new port, token and certificate
+            cached = undefined;
+            const next = await discover();
+            if ((e as LanguageServerError).code === 'certificate' && next.conn.pid === target.conn.pid) {
+                // Same process, different certificate: something else answered on its port. Keep the old pin.
+                cached = target;
+                throw e;
+            }
+            return post<T>(next, method, body);
+        }
+    }
+
+    return {
+        getUserStatus: () => call<UserStatusResponse>('GetUserStatus'),
+        async connect() {
+            return (cached || await discover()).conn;
+        },
+        reset() {
+            cached = undefined;
+        }
+    };
+}
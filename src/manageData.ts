@@ -0,0 +1,173 @@
+import * as vscode from 'vscode';
+import { CHANGE_SOURCE_STORAGE_KEY, ROLLED_UP_PERIODS_KEY, ChangeSourceStats, RolledUpPeriods, UsageEvent, UsageRollups } from './stats';
+import { applyEventToRollups, getBaseline, readEvents, rebuildRollups, removeEvents, rewriteEvents, updateBaseline } from './journal';
+import { StatsSummary, summarizeStats } from './importStats';
+import { DateRange } from './serializers';
+
+const PER_DAY_STORES = ['usage', 'tokenQuery', 'languages', 'hourly'] as const;
+
+// What to delete: everything in `range`, narrowed by at most one dimension
+export interface DeletionFilter {
+    range: DateRange;
+    model?: string;
+    repoId?: string;
+    branch?: string;
+    queryType?: string;
+    // Token/query days that versions before the journal made up from model totals
+    seeded?: boolean;
+}
+
+export interface DeletionPreview {
+    removed: StatsSummary;
+    // Change in all-time repository/branch totals
+    projectTokens: number;
+    // Journal events deleted, or stripped of their query type when deleting one
+    events: number;
+}
+
+function inRange(date: string, range: DateRange): boolean {
+    return (!range.from || date >= range.from) && (!range.to || date <= range.to);
+}
+
+const isAllTime = (range: DateRange) => !range.from && !range.to;
+const isDatesOnly = (filter: DeletionFilter) => !filter.model && !filter.branch && !filter.queryType && !filter.seeded;
+
+/**
+ * Whether a day has the made-up query counts and 20/80 token split older versions seeded from model totals.
+ */
+export function isSeededDay(models: { [model: string]: number } | undefined, day: UsageRollups['tokenQuery'][string] | undefined): boolean {
+    if (!models || !day || day.source) return false;
+    const total = Object.values(models).reduce((a, b) => a + b, 0);
+    const types = Object.keys(day.queries || {});
+    return total > 0 && types.length === 1 && day.queries['Coding'] === Math.ceil(total / 100) &&
+        day.inputTokens === Math.ceil(total * 0.2) && day.outputTokens === Math.ceil(total * 0.8);
+}
+
+// Events deleted whole. A query type filter deletes no events: see withoutQuery.
+function matchesEvent(filter: DeletionFilter, event: UsageEvent): boolean {
+    if (filter.seeded || filter.queryType || !inRange(event.date, filter.range)) return false;
+    if (filter.model) return event.model === filter.model;
+    if (filter.branch) return event.repoId === filter.repoId && event.branch === filter.branch;
+    return true;
+}
+
+// Deleting a query type removes its query counts but keeps the tokens, as in the baseline, so the
+// event stays without a type (and without the excerpt re-classification would restore it from).
+// Returns null for events the filter leaves alone.
+function withoutQuery(filter: DeletionFilter, event: UsageEvent): UsageEvent | null {
+    if (!filter.queryType || event.queryType !== filter.queryType || !inRange(event.date, filter.range)) return null;
+    const { queryType, queryLabels, excerpt, ...rest } = event;
+    return rest;
+}
+
+/**
+ * Remove what `filter` matches from folded-in totals, in place. The baseline has no per-event detail,
+ * so only what its shape allows is removed: a model's tokens (and the same share of the day's token split),
+ * a query type's counts (in branch totals only when deleting all time; hourly query totals have no type),
+ * a branch's all-time totals (only when deleting all time).
+ */
+function removeFromBaseline(baseline: UsageRollups, filter: DeletionFilter) {
+    const dates = new Set(PER_DAY_STORES.flatMap(store => Object.keys(baseline[store])).filter(date => inRange(date, filter.range)));
+    if (filter.seeded) {
+        for (const date of dates) {
+            const models = baseline.usage[date];
+            if (!isSeededDay(models, baseline.tokenQuery[date])) continue;
+            // The estimate schema v2 gives days without token data
+            const total = Object.values(models).reduce((a, b) => a + b, 0);
+            const inputTokens = Math.round(total / 6);
+            baseline.tokenQuery[date] = { inputTokens, outputTokens: total - inputTokens, queries: {}, source: 'estimated' };
+        }
+    } else if (filter.model) {
+        for (const date of dates) {
+            const models = baseline.usage[date];
+            const tokens = models?.[filter.model];
+            if (tokens === undefined) continue;
+            const total = Object.values(models).reduce((a, b) => a + b, 0);
+            const day = baseline.tokenQuery[date];
+            if (day && total > 0) {
+                day.inputTokens = Math.max(0, day.inputTokens - Math.round(day.inputTokens * tokens / total));
+                day.outputTokens = Math.max(0, day.outputTokens - Math.round(day.outputTokens * tokens / total));
+            }
+            delete models[filter.model];
+            if (Object.keys(models).length === 0) delete baseline.usage[date];
+        }
+    } else if (filter.queryType) {
+        for (const date of dates) {
+            delete baseline.tokenQuery[date]?.queries[filter.queryType];
+        }
+        if (isAllTime(filter.range)) {
+            for (const repo of Object.values(baseline.projects)) {
+                for (const branch of Object.values(repo.branches)) delete branch.queries?.[filter.queryType];
+            }
+        }
+    } else if (filter.branch) {
+        const repo = baseline.projects[filter.repoId || ''];
+        if (repo && isAllTime(filter.range)) {
+            delete repo.branches[filter.branch];
+            if (Object.keys(repo.branches).length === 0) delete baseline.projects[filter.repoId || ''];
+        }
+    } else {
+        for (const date of dates) {
+            for (const store of PER_DAY_STORES) delete baseline[store][date];
+        }
+        if (isAllTime(filter.range)) baseline.projects = {};
+    }
+}
+
+function rollupsFrom(baseline: UsageRollups, events: UsageEvent[]): UsageRollups {
+    for (const event of events) applyEventToRollups(baseline, event);
+    return baseline;
+}
+
+function projectTokens(rollups: UsageRollups): number {
+    let tokens = 0;
+    for (const repo of Object.values(rollups.projects)) {
+        for (const branch of Object.values(repo.branches)) tokens += branch.inputTokens + branch.outputTokens;
+    }
+    return tokens;
+}
+
+/**
+ * What deleting `filter` would remove, computed the way a rebuild would, without changing anything.
+ */
+export function previewDeletion(context: vscode.ExtensionContext, filter: DeletionFilter): DeletionPreview {
+    const events = readEvents(context);
+    const before = rollupsFrom(getBaseline(context), events);
+    const baseline = getBaseline(context);
+    removeFromBaseline(baseline, filter);
+    const kept = events.filter(e => !matchesEvent(filter, e));
+    const stripped = kept.filter(e => withoutQuery(filter, e)).length;
+    const after = rollupsFrom(baseline, kept.map(e => withoutQuery(filter, e) || e));
+
+    const b = summarizeStats(before);
+    const a = summarizeStats(after);
+    return {
+        removed: { days: b.days - a.days, tokens: b.tokens - a.tokens, queries: b.queries - a.queries },
+        projectTokens: projectTokens(before) - projectTokens(after),
+        events: events.length - kept.length + stripped
+    };
+}
+
+/**
+ * Delete what `filter` matches from the journal (events and baseline) and rebuild the rollups.
+ * Deleting by date also drops those days' change attribution. Returns the number of events removed or changed.
+ */
+export async function deleteData(context: vscode.ExtensionContext, filter: DeletionFilter): Promise<number> {
+    updateBaseline(context, baseline => removeFromBaseline(baseline, filter));
+    const removed = removeEvents(context, e => matchesEvent(filter, e)) + rewriteEvents(context, e => withoutQuery(filter, e));
+
+    if (isDatesOnly(filter)) {
+        const changeSources = context.globalState.get<ChangeSourceStats>(CHANGE_SOURCE_STORAGE_KEY, {});
+        const periods = context.globalState.get<RolledUpPeriods>(ROLLED_UP_PERIODS_KEY, {});
+        for (const store of [changeSources, periods]) {
+            for (const date of Object.keys(store)) {
+                if (inRange(date, filter.range)) delete store[date];
+            }
+        }
+        await context.globalState.update(CHANGE_SOURCE_STORAGE_KEY, changeSources);
+        await context.globalState.update(ROLLED_UP_PERIODS_KEY, periods);
+    }
+    await rebuildRollups(context);
+    console.log('Antigravity Monitor: Deleted usage data', JSON.stringify(filter), `(${removed} journal events)`);
+    return removed;
+}
@@ -0,0 +1,144 @@
+import * as vscode from 'vscode';
+import {
+    DailyStats, TokenQueryStats, LanguageStats,
+    USAGE_STORAGE_KEY, TOKEN_QUERY_STORAGE_KEY, PROJECT_STORAGE_KEY, LANGUAGE_STORAGE_KEY
+} from './stats';
+import { createBackup } from './backups';
+import { migrateBranchOnlyProjects } from './projects';
+import { applyEventToLanguages, readEvents } from './journal';
+
+export const SCHEMA_VERSION_KEY = 'antigravity.schemaVersion';
+export const MIGRATION_HISTORY_KEY = 'antigravity.migrationHistory';
+
+export interface MigrationRecord {
+    version: number;
+    name: string;
+    appliedAt: string;
+    changed: boolean;
+    // Backup written right before the step ran (absent when there was no data yet)
+    backup?: string;
+}
+
+interface Migration {
+    version: number;
+    name: string;
+    // Must be idempotent: running it on already-migrated data changes nothing. Returns whether it changed anything.
+    migrate(context: vscode.ExtensionContext): Promise<boolean>;
+}
+
+/**
+ * Schema v1: replace numeric day totals with `{ 'Gemini 1.5 Pro': n }` in place. Returns whether anything changed.
+ */
+export function convertNumericDailyTotals(usage: any): boolean {
+    let changed = false;
+    for (const [date, value] of Object.entries(usage)) {
+        if (typeof value === 'number') {
+            usage[date] = { 'Gemini 1.5 Pro': value };
+            changed = true;
+        }
+    }
+    return changed;
+}
+
+/**
+ * Schema v2: give days that only have model totals an estimated input/output split, in place.
+ * Returns whether anything changed.
+ */
+export function addMissingTokenTotals(usage: DailyStats, tokenQuery: TokenQueryStats): boolean {
+    let changed = false;
+    for (const [date, models] of Object.entries(usage)) {
+        if (tokenQuery[date]) continue;
+        const dayTotal = Object.values(models).reduce((a, b) => a + b, 0);
+        if (dayTotal === 0) continue;
+        const inputTokens = Math.round(dayTotal / 6);
+        tokenQuery[date] = { inputTokens, outputTokens: dayTotal - inputTokens, queries: {}, source: 'estimated' };
+        changed = true;
+    }
+    return changed;
+}
+
+// Ordered by version. Append new steps; never edit or reorder shipped ones.
+const MIGRATIONS: Migration[] = [
+    {
+        // The first releases stored one number per day, all of it Gemini 1.5 Pro usage
+        version: 1,
+        name: 'Convert numeric daily totals to per-model totals',
+        async migrate(context) {
+            const usage = context.globalState.get(USAGE_STORAGE_KEY, {});
+            const changed = convertNumericDailyTotals(usage);
+            if (changed) await context.globalState.update(USAGE_STORAGE_KEY, usage);
+            return changed;
+        }
+    },
+    {
+        // Days tracked before token/query stats existed only have a model total. Give them the
+        // tracker's own input/output ratio (input ~ 20% of output), but no invented query counts.
+        version: 2,
+        name: 'Add token totals for days that only have model totals',
+        async migrate(context) {
+            const usage: DailyStats = context.globalState.get(USAGE_STORAGE_KEY, {});
+            const tokenQuery: TokenQueryStats = context.globalState.get(TOKEN_QUERY_STORAGE_KEY, {});
+            const changed = addMissingTokenTotals(usage, tokenQuery);
+            if (changed) await context.globalState.update(TOKEN_QUERY_STORAGE_KEY, tokenQuery);
+            return changed;
+        }
+    },
+    {
+        version: 3,
+        name: 'Key project stats by repository and branch',
+        async migrate(context) {
+            const migrated = migrateBranchOnlyProjects(context.globalState.get(PROJECT_STORAGE_KEY, {}));
+            if (!migrated) return false;
+            await context.globalState.update(PROJECT_STORAGE_KEY, migrated);
+            return true;
+        }
+    },
+    {
+        // Journal events have carried the document language since the journal was introduced
+        version: 4,
+        name: 'Backfill language stats from the journal',
+        async migrate(context) {
+            if (context.globalState.get(LANGUAGE_STORAGE_KEY) !== undefined) return false;
+            const languages: LanguageStats = {};
+            for (const event of readEvents(context)) {
+                applyEventToLanguages(languages, event);
+            }
+            await context.globalState.update(LANGUAGE_STORAGE_KEY, languages);
+            return Object.keys(languages).length > 0;
+        }
+    }
+];
+
+export const LATEST_SCHEMA_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
+
+export function getSchemaVersion(context: vscode.ExtensionContext): number {
+    return context.globalState.get<number>(SCHEMA_VERSION_KEY, 0);
+}
+
+export function getMigrationHistory(context: vscode.ExtensionContext): MigrationRecord[] {
+    return context.globalState.get<MigrationRecord[]>(MIGRATION_HISTORY_KEY, []);
+}
+
+/**
+ * Run every step newer than the stored schema version, in order. Each step is preceded by a
+ * backup and recorded in the history; the version only advances once its step has succeeded,
+ * so a failed step is retried on the next activation.
+ */
+export async function runMigrations(context: vscode.ExtensionContext): Promise<MigrationRecord[]> {
+    const applied: MigrationRecord[] = [];
+    for (const step of MIGRATIONS) {
+        const current = getSchemaVersion(context);
+        if (step.version <= current) continue;
+
+        const backup = createBackup(context, `schema-v${current}-to-v${step.version}`, current);
+        const changed = await step.migrate(context);
+        const record: MigrationRecord = { version: step.version, name: step.name, appliedAt: new Date().toISOString(), changed };
+        if (backup) record.backup = backup;
+
+        await context.globalState.update(MIGRATION_HISTORY_KEY, [...getMigrationHistory(context), record]);
+        await context.globalState.update(SCHEMA_VERSION_KEY, step.version);
+        applied.push(record);
+        console.log(`Antigravity Monitor: Schema v${step.version} (${step.name})`, changed ? 'applied' : 'had nothing to change');
+    }
+    return applied;
+}
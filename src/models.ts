@@ -0,0 +1,143 @@
+import * as vscode from 'vscode';
+import { LanguageServerClient, LanguageServerError, UserStatusResponse } from './languageServer';
+import { getSelectedModelFromDB } from './dbLogic';
+import { StateDbReader } from './stateDb';
+import { isCssColor } from './colors';
+
+export interface ModelDefinition {
+    name: string;
+    aliases?: string[];
+    color?: string;
+    // Tokenizer id from tokenizers.ts; models without one use the estimator
+    tokenizer?: string;
+}
+
+export const UNKNOWN_MODEL = 'Unknown Model';
+
+// Built-in entries; `antigravity.models` adds to or overrides these by name
+const DEFAULT_MODELS: ModelDefinition[] = [
+    { name: 'Gemini 1.5 Pro', aliases: ['gemini-1.5-pro'], color: 'rgba(158, 158, 158, 0.8)', tokenizer: 'gemini' },
+    { name: 'Gemini 3 Flash', aliases: ['gemini-3-flash'], color: 'rgba(234, 179, 8, 0.8)', tokenizer: 'gemini' },
+    { name: 'Claude Sonnet 4.5', aliases: ['claude-sonnet-4-5', 'claude-sonnet-4.5'], color: 'rgba(139, 92, 246, 0.8)', tokenizer: 'claude' },
+    { name: 'GPT-OSS 120B (Medium)', aliases: ['gpt-oss-120b', 'gpt-oss-120b-medium'], color: 'rgba(45, 212, 191, 0.8)', tokenizer: 'o200k' }
+];
+
+const OTHER_COLOR = 'rgba(201, 203, 207, 0.8)';
+
+// Longest wait between state DB reads while none of them has a model
+const MAX_DB_BACKOFF_MS = 10 * 60 * 1000;
+
+export function getModelRegistry(): ModelDefinition[] {
+    const configured = vscode.workspace.getConfiguration('antigravity').get<ModelDefinition[]>('models', []);
+    const registry = new Map<string, ModelDefinition>();
+    for (const model of DEFAULT_MODELS) registry.set(model.name, model);
+    for (const model of configured) {
+        if (!model || !model.name) continue;
+        registry.set(model.name, { ...registry.get(model.name), ...model });
+    }
+    return Array.from(registry.values());
+}
+
+/**
+ * Map a raw model id/label (from the language server, the state DB or a setting)
+ * to its registry display name. Unregistered names are passed through unchanged.
+ */
+export function resolveModelName(raw: string, registry: ModelDefinition[] = getModelRegistry()): string {
+    const needle = raw.trim().toLowerCase();
+    for (const model of registry) {
+        if (model.name.toLowerCase() === needle) return model.name;
+        if (model.aliases && model.aliases.some(a => a.toLowerCase() === needle)) return model.name;
+    }
+    return raw.trim();
+}
+
+export function getModelColors(registry: ModelDefinition[] = getModelRegistry()): { [model: string]: string } {
+    const colors: { [model: string]: string } = {};
+    for (const model of registry) {
+        if (isCssColor(model.color)) colors[model.name] = model.color;
+    }
+    colors['Other'] = OTHER_COLOR;
+    return colors;
+}
+
+/**
+ * Pull the currently selected model out of a GetUserStatus response.
+ */
+export function parseSelectedModel(data: UserStatusResponse | null): string | null {
+    const modelData = data?.userStatus?.cascadeModelConfigData;
+    const selected = modelData?.selectedModelConfig || modelData?.defaultOverrideModelConfig;
+    return selected?.label || selected?.modelOrAlias?.model || data?.userStatus?.selectedModel || null;
+}
+
+export interface ModelDetector extends vscode.Disposable {
+    /** Last detected model, cheap enough to call on every change */
+    getActiveModel(): string;
+    refresh(): Promise<void>;
+}
+
+/**
+ * Track which model is selected so each insertion is attributed at the time it happens.
+ * Order: `antigravity.modelOverride` setting, language server status, state.vscdb. The DB is only read while
+ * the server can't be reached (a reachable server without a model is not a reason to copy it), and less
+ * often after each read that finds no model.
+ */
+export function createModelDetector(client: LanguageServerClient, stateDb: StateDbReader, refreshIntervalMs = 30000): ModelDetector {
+    let activeModel = UNKNOWN_MODEL;
+    let refreshing = false;
+    let dbBackoffMs = 0;
+    let nextDbReadAt = 0;
+
+    const readFromDb = async (): Promise<string | null> => {
+        if (Date.now() < nextDbReadAt) return null;
+        const model = await getSelectedModelFromDB(stateDb);
+        dbBackoffMs = model ? 0 : Math.min(MAX_DB_BACKOFF_MS, dbBackoffMs ? dbBackoffMs * 2 : refreshIntervalMs);
+        nextDbReadAt = Date.now() + dbBackoffMs;
+        return model;
+    };
+
+    const detect = async (): Promise<string | null> => {
+        const override = vscode.workspace.getConfiguration('antigravity').get<string>('modelOverride', '');
+        if (override) return override;
+
+        try {
+            return parseSelectedModel(await client.getUserStatus());
+        } catch (e) {
+            const unreachable = e instanceof LanguageServerError && (e.code === 'not_running' || e.code === 'unreachable' || e.code === 'timeout');
+            return unreachable ? readFromDb() : null;
+        }
+    };
+
+    const refresh = async () => {
+        if (refreshing) return;
+        refreshing = true;
+        try {
+            const detected = await detect();
+            if (detected) {
+                const name = resolveModelName(detected);
+                if (name !== activeModel) console.log('Antigravity Monitor: Active model =', name);
+                activeModel = name;
+            }
+        } catch (e: any) {
+            console.log('Antigravity Monitor: Model detection failed:', e?.message || e);
+        } finally {
+            refreshing = false;
+        }
+    };
+
+    refresh();
+    const timer = setInterval(refresh, refreshIntervalMs);
+    const focusListener = vscode.window.onDidChangeWindowState((state) => { if (state.focused) refresh(); });
+    const configListener = vscode.workspace.onDidChangeConfiguration((e) => {
+        if (e.affectsConfiguration('antigravity.modelOverride') || e.affectsConfiguration('antigravity.models')) refresh();
+    });
+
+    return {
+        getActiveModel: () => activeModel,
+        refresh,
+        dispose() {
+            clearInterval(timer);
+            focusListener.dispose();
+            configListener.dispose();
+        }
+    };
+}
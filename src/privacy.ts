@@ -0,0 +1,198 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import * as crypto from 'crypto';
+import { ProjectStats, UsageEvent, UsageRollups } from './stats';
+import { ProjectIdentity } from './projects';
+import { addBranch, bucketBranch } from './anonymize';
+import { toDateKey } from './time';
+import { rebuildRollups, rewriteEvents, updateBaseline } from './journal';
+import { deleteBackups } from './backups';
+
+export type PrivacyCategory = 'email' | 'hostname' | 'mac' | 'branchNames' | 'filePaths';
+
+export const PRIVACY_CATEGORIES: { [category in PrivacyCategory]: { label: string; detail: string } } = {
+    email: { label: 'Email address', detail: 'Looked up from your signed-in accounts, the editor state DB, the language server or git; shown in the dashboard and exported' },
+    hostname: { label: 'Hostname', detail: 'Shown in the dashboard, written to sync shards and used in scheduled export file names' },
+    mac: { label: 'MAC address', detail: 'Shown in the dashboard header' },
+    branchNames: { label: 'Branch names', detail: 'Recorded with each insertion; without consent only main/master/develop/trunk and prefixes like feature/* are kept' },
+    filePaths: { label: 'File paths', detail: 'The edited file, and the local folder of repositories without a remote' }
+};
+
+export interface ConsentRecord {
+    granted: boolean;
+    at: string;
+}
+
+export type AuditAction = 'read' | 'granted' | 'denied' | 'revoked' | 'purged';
+
+export interface AuditEntry {
+    // First and last time of the entry; reads of one source on one day share an entry
+    at: string;
+    last?: string;
+    category: PrivacyCategory;
+    action: AuditAction;
+    // What was read, or what a purge removed
+    source?: string;
+    count: number;
+}
+
+export interface PrivacyControls extends vscode.Disposable {
+    // Granted consent; undecided categories are not allowed
+    isAllowed(category: PrivacyCategory): boolean;
+    getConsent(category: PrivacyCategory): ConsentRecord | undefined;
+    setConsent(category: PrivacyCategory, granted: boolean, action?: AuditAction): Promise<void>;
+    record(category: PrivacyCategory, action: AuditAction, source?: string): void;
+    getAuditLog(): AuditEntry[];
+    // `project` with the branch bucketed and a local root path hashed, as far as consent requires
+    redactProject(project: ProjectIdentity): ProjectIdentity;
+    redactProjects(projects: ProjectStats): ProjectStats;
+    onDidChange: vscode.Event<PrivacyCategory>;
+}
+
+const CONSENT_KEY = 'antigravity.privacy.consent';
+const AUDIT_LOG_KEY = 'antigravity.privacy.auditLog';
+// The yes/no email prompt of earlier versions
+export const LEGACY_EMAIL_CONSENT_KEY = 'antigravity.unsafeEmailAccessConsent';
+
+const MAX_AUDIT_ENTRIES = 500;
+// Reads are frequent (every tracked insertion), so the log is written at most this often
+const AUDIT_FLUSH_MS = 30 * 1000;
+
+/**
+ * Repositories without a remote are keyed by their root folder, which names the local user.
+ */
+export function isPathRepoId(repoId: string): boolean {
+    return path.isAbsolute(repoId) || /^[a-zA-Z]:[\\/]/.test(repoId);
+}
+
+export function redactRepoId(repoId: string): string {
+    return isPathRepoId(repoId) ? `local/${crypto.createHash('sha256').update(repoId).digest('hex').slice(0, 12)}` : repoId;
+}
+
+function redactProjectStats(projects: ProjectStats, branches: boolean, paths: boolean): ProjectStats {
+    const result: ProjectStats = {};
+    for (const [repoId, repo] of Object.entries(projects)) {
+        const id = paths ? redactRepoId(repoId) : repoId;
+        const target = result[id] = result[id] || { name: repo.name, branches: {} };
+        for (const [branch, stats] of Object.entries(repo.branches)) {
+            const name = branches ? bucketBranch(branch) : branch;
+            // Copies, so redacting never touches the stored rollups
+            target.branches[name] = addBranch(target.branches[name], stats);
+        }
+    }
+    return result;
+}
+
+/**
+ * `event` without what `categories` covers: branch bucketed, file dropped, local root paths hashed.
+ */
+export function redactEvent(event: UsageEvent, categories: PrivacyCategory[]): UsageEvent {
+    const redacted = { ...event };
+    if (categories.includes('branchNames') && redacted.branch) redacted.branch = bucketBranch(redacted.branch);
+    if (categories.includes('filePaths')) {
+        delete redacted.file;
+        if (redacted.repoId) redacted.repoId = redactRepoId(redacted.repoId);
+    }
+    return redacted;
+}
+
+/**
+ * Redact the repository/branch totals of stored rollups in place, as `redactEvent` does for events.
+ */
+export function redactRollups(rollups: UsageRollups, categories: PrivacyCategory[]) {
+    rollups.projects = redactProjectStats(rollups.projects, categories.includes('branchNames'), categories.includes('filePaths'));
+}
+
+/**
+ * Remove already collected branch names and file paths from the journal (events and baseline), rebuild
+ * the rollups, and delete the backups, which hold the same data. Other categories are not stored.
+ * Flush the usage buffer first and reload it afterwards.
+ */
+export async function purgeCollectedData(context: vscode.ExtensionContext, categories: PrivacyCategory[]): Promise<{ events: number; backups: number }> {
+    const stored = categories.filter(c => c === 'branchNames' || c === 'filePaths');
+    if (stored.length === 0) return { events: 0, backups: 0 };
+    const events = rewriteEvents(context, event => {
+        const redacted = redactEvent(event, stored);
+        return JSON.stringify(redacted) === JSON.stringify(event) ? null : redacted;
+    });
+    updateBaseline(context, baseline => redactRollups(baseline, stored));
+    await rebuildRollups(context);
+    const backups = deleteBackups(context);
+    console.log('Antigravity Monitor: Purged', stored.join(', '), `(${events} journal events, ${backups} backups)`);
+    return { events, backups };
+}
+
+/**
+ * Per-category consent and the audit log of reads and consent changes, both kept in globalState.
+ * Consent given to the email prompt of earlier versions carries over.
+ */
+export function createPrivacyControls(context: vscode.ExtensionContext): PrivacyControls {
+    const emitter = new vscode.EventEmitter<PrivacyCategory>();
+    const consent = context.globalState.get<{ [category: string]: ConsentRecord }>(CONSENT_KEY, {});
+    const log = context.globalState.get<AuditEntry[]>(AUDIT_LOG_KEY, []);
+    let dirty = false;
+
+    const flush = () => {
+        if (!dirty) return;
+        dirty = false;
+        context.globalState.update(AUDIT_LOG_KEY, log.slice(-MAX_AUDIT_ENTRIES));
+    };
+    const timer = setInterval(flush, AUDIT_FLUSH_MS);
+
+    function record(category: PrivacyCategory, action: AuditAction, source?: string) {
+        const now = new Date().toISOString();
+        // Repeated reads of one source on one day only bump the entry
+        const existing = action === 'read'
+            ? log.slice().reverse().find(e => e.category === category && e.action === 'read' && e.source === source)
+            : undefined;
+        if (existing && toDateKey(new Date(existing.at)) === toDateKey()) {
+            existing.last = now;
+            existing.count++;
+        } else {
+            log.push({ at: now, category, action, source, count: 1 });
+            if (log.length > MAX_AUDIT_ENTRIES) log.splice(0, log.length - MAX_AUDIT_ENTRIES);
+        }
+        dirty = true;
+        if (action !== 'read') flush();
+    }
+
+    async function setConsent(category: PrivacyCategory, granted: boolean, action: AuditAction = granted ? 'granted' : 'denied') {
+        consent[category] = { granted, at: new Date().toISOString() };
+        await context.globalState.update(CONSENT_KEY, consent);
+        record(category, action);
+        emitter.fire(category);
+    }
+
+    if (!consent.email && context.globalState.get<boolean>(LEGACY_EMAIL_CONSENT_KEY, false)) {
+        consent.email = { granted: true, at: new Date().toISOString() };
+        context.globalState.update(CONSENT_KEY, consent);
+        record('email', 'granted', 'earlier email access prompt');
+    }
+
+    const isAllowed = (category: PrivacyCategory) => consent[category]?.granted === true;
+
+    return {
+        isAllowed,
+        getConsent: (category) => consent[category],
+        setConsent,
+        record,
+        getAuditLog: () => log.slice(),
+        redactProject(project) {
+            return {
+                ...project,
+                repoId: isAllowed('filePaths') ? project.repoId : redactRepoId(project.repoId),
+                branch: isAllowed('branchNames') ? project.branch : bucketBranch(project.branch)
+            };
+        },
+        redactProjects(projects) {
+            if (isAllowed('branchNames') && isAllowed('filePaths')) return projects;
+            return redactProjectStats(projects, !isAllowed('branchNames'), !isAllowed('filePaths'));
+        },
+        onDidChange: emitter.event,
+        dispose() {
+            clearInterval(timer);
+            flush();
+            emitter.dispose();
+        }
+    };
+}
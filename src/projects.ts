@@ -0,0 +1,151 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { execSync } from 'child_process';
+import { BranchStats, ProjectStats } from './stats';
+
+export interface ProjectIdentity {
+    // Normalized remote URL, or the repository root when it has no remote
+    repoId: string;
+    repoName: string;
+    branch: string;
+}
+
+// Branch totals recorded before stats were keyed by repository
+export const LEGACY_REPO_ID = 'legacy';
+export const LEGACY_REPO_NAME = 'Unknown repository';
+
+const NO_GIT_BRANCH = 'no-git-repo';
+const CLI_CACHE_MS = 10000;
+
+/**
+ * `git@github.com:Org/Repo.git`, `https://user@github.com/Org/Repo` and `ssh://git@github.com/Org/Repo.git`
+ * all become `github.com/Org/Repo`, so clones of the same repository share one id.
+ */
+export function normalizeRemoteUrl(url: string): string {
+    const trimmed = url.trim().replace(/\.git$/, '').replace(/\/+$/, '');
+    const scp = /^[\w.-]+@([^:/]+):(.+)$/.exec(trimmed);
+    if (scp) return `${scp[1].toLowerCase()}/${scp[2].replace(/^\/+/, '')}`;
+    try {
+        const parsed = new URL(trimmed);
+        return `${parsed.hostname.toLowerCase()}${parsed.pathname}`;
+    } catch (e) {
+        return trimmed;
+    }
+}
+
+function identityFromRepository(repo: any): ProjectIdentity {
+    const root: string = repo.rootUri.fsPath;
+    const remotes: any[] = repo.state?.remotes || [];
+    const remote = remotes.find(r => r.name === 'origin') || remotes[0];
+    const url: string | undefined = remote?.fetchUrl || remote?.pushUrl;
+    return {
+        repoId: url ? normalizeRemoteUrl(url) : root,
+        repoName: path.basename(root),
+        // Detached HEAD reports no name; match `git rev-parse --abbrev-ref HEAD`
+        branch: repo.state?.HEAD?.name || 'HEAD'
+    };
+}
+
+function isInside(filePath: string, root: string): boolean {
+    return filePath === root || filePath.startsWith(root.endsWith(path.sep) ? root : root + path.sep);
+}
+
+// Strategy 1: VS Code's built-in Git extension. The innermost repository wins (submodules, nested repos).
+function identityFromGitApi(filePath: string): ProjectIdentity | undefined {
+    try {
+        const gitExtension = vscode.extensions.getExtension('vscode.git');
+        const gitApi = gitExtension?.exports?.getAPI(1);
+        const repos: any[] = (gitApi?.repositories || [])
+            .filter((r: any) => isInside(filePath, r.rootUri.fsPath))
+            .sort((a: any, b: any) => b.rootUri.fsPath.length - a.rootUri.fsPath.length);
+        return repos.length > 0 ? identityFromRepository(repos[0]) : undefined;
+    } catch (e) {
+        return undefined;
+    }
+}
+
+function identityWithoutGit(dir: string, folder?: vscode.WorkspaceFolder): ProjectIdentity {
+    return folder
+        ? { repoId: folder.uri.fsPath, repoName: folder.name, branch: NO_GIT_BRANCH }
+        : { repoId: dir, repoName: path.basename(dir), branch: NO_GIT_BRANCH };
+}
+
+// Strategy 2: git CLI in the file's directory (slow, cached per directory). Outside a repository
+// every file in a workspace folder counts towards that folder, not towards its own directory.
+const cliCache = new Map<string, { identity: ProjectIdentity; checkedAt: number }>();
+
+function identityFromGitCli(cwd: string, folder?: vscode.WorkspaceFolder): ProjectIdentity {
+    const cached = cliCache.get(cwd);
+    if (cached && Date.now() - cached.checkedAt < CLI_CACHE_MS) return cached.identity;
+
+    const git = (args: string) => execSync(`git ${args}`, { cwd, timeout: 3000, stdio: ['ignore', 'pipe', 'ignore'] }).toString().trim();
+    let identity: ProjectIdentity;
+    try {
+        const root = path.normalize(git('rev-parse --show-toplevel'));
+        let remote = '';
+        try {
+            remote = git('remote get-url origin');
+        } catch (e) { /* no origin remote */ }
+        identity = { repoId: remote ? normalizeRemoteUrl(remote) : root, repoName: path.basename(root), branch: git('rev-parse --abbrev-ref HEAD') };
+    } catch (e: any) {
+        console.log('Antigravity Monitor: git lookup failed in', cwd, '-', e?.message || e);
+        identity = identityWithoutGit(cwd, folder);
+    }
+    cliCache.set(cwd, { identity, checkedAt: Date.now() });
+    return identity;
+}
+
+/**
+ * Repository + branch that owns `uri`. Without a uri (or for untitled/virtual documents) this uses
+ * the active editor's document, then the first workspace folder.
+ */
+export function getProjectForUri(uri?: vscode.Uri): ProjectIdentity {
+    let target = uri && uri.scheme === 'file' ? uri : undefined;
+    if (!target) {
+        const active = vscode.window.activeTextEditor?.document.uri;
+        target = active && active.scheme === 'file' ? active : vscode.workspace.workspaceFolders?.[0]?.uri;
+    }
+    if (!target) return { repoId: LEGACY_REPO_ID, repoName: LEGACY_REPO_NAME, branch: NO_GIT_BRANCH };
+
+    const fromApi = identityFromGitApi(target.fsPath);
+    if (fromApi) return fromApi;
+
+    const folder = vscode.workspace.getWorkspaceFolder(target);
+    const dir = folder && folder.uri.fsPath === target.fsPath ? target.fsPath : path.dirname(target.fsPath);
+    // A repository's git config can run commands, so git is only run in trusted workspaces
+    return vscode.workspace.isTrusted ? identityFromGitCli(dir, folder) : identityWithoutGit(dir, folder);
+}
+
+export function addToProjectStats(projects: ProjectStats, repoId: string, repoName: string, branch: string, inputTokens: number, outputTokens: number, queryType?: string) {
+    const repo = projects[repoId] || { name: repoName, branches: {} };
+    const entry: BranchStats = repo.branches[branch] || { inputTokens: 0, outputTokens: 0, queries: {} };
+    entry.inputTokens = (entry.inputTokens || 0) + inputTokens;
+    entry.outputTokens = (entry.outputTokens || 0) + outputTokens;
+    if (!entry.queries) entry.queries = {};
+    if (queryType) entry.queries[queryType] = (entry.queries[queryType] || 0) + 1;
+    repo.branches[branch] = entry;
+    projects[repoId] = repo;
+}
+
+/**
+ * Move branch-keyed totals (`{ [branch]: { inputTokens, ... } }`) into the LEGACY_REPO_ID bucket.
+ * Which repository they came from was never recorded. Returns null when nothing needed moving.
+ */
+export function migrateBranchOnlyProjects(projects: any): ProjectStats | null {
+    const legacyKeys = Object.keys(projects || {}).filter(k => projects[k] && typeof projects[k].branches !== 'object');
+    if (legacyKeys.length === 0) return null;
+
+    const migrated: ProjectStats = {};
+    for (const [key, value] of Object.entries<any>(projects)) {
+        if (!legacyKeys.includes(key)) migrated[key] = value;
+    }
+    for (const branch of legacyKeys) {
+        const old = projects[branch];
+        addToProjectStats(migrated, LEGACY_REPO_ID, LEGACY_REPO_NAME, branch, old.inputTokens || 0, old.outputTokens || 0);
+        const queries = migrated[LEGACY_REPO_ID].branches[branch].queries;
+        for (const [type, count] of Object.entries<number>(old.queries || {})) {
+            queries[type] = (queries[type] || 0) + count;
+        }
+    }
+    return migrated;
+}
@@ -0,0 +1,119 @@
+import * as vscode from 'vscode';
+import { CHANGE_SOURCE_STORAGE_KEY, ROLLED_UP_PERIODS_KEY, ChangeSourceStats, RolledUpPeriods, TokenQueryStats, UsageRollups } from './stats';
+import { compactJournal, rebuildRollups, updateBaseline } from './journal';
+import { addInto } from './importStats';
+import { daysAgoKey } from './time';
+
+// Last policy applied ('<days>:<granularity>'), so enabling or changing it can be backed up first
+const LAST_RETENTION_POLICY_KEY = 'antigravity.retention.lastPolicy';
+// Ranges like "Last 2 Weeks" in the chart must still find daily detail
+const MIN_DETAIL_DAYS = 31;
+
+export interface RetentionPolicy {
+    detailDays: number;
+    granularity: 'weekly' | 'monthly';
+}
+
+/**
+ * The configured policy, or undefined when daily detail is kept forever (`antigravity.retention.dailyDetailDays` = 0).
+ */
+export function getRetentionPolicy(): RetentionPolicy | undefined {
+    const config = vscode.workspace.getConfiguration('antigravity');
+    const days = config.get<number>('retention.dailyDetailDays', 0);
+    if (!days || days <= 0) return undefined;
+    return { detailDays: Math.max(MIN_DETAIL_DAYS, Math.floor(days)), granularity: config.get<RetentionPolicy['granularity']>('retention.rollup', 'monthly') };
+}
+
+export function policyKey(policy: RetentionPolicy): string {
+    return `${policy.detailDays}:${policy.granularity}`;
+}
+
+/**
+ * Whether `policy` differs from the one applied last (or none was applied yet).
+ */
+export function isNewPolicy(context: vscode.ExtensionContext, policy: RetentionPolicy): boolean {
+    return context.globalState.get<string>(LAST_RETENTION_POLICY_KEY) !== policyKey(policy);
+}
+
+/**
+ * First day of the period `date` falls in: the 1st of its month, or the Monday of its week
+ * (the 1st instead when the week started in the previous month).
+ */
+export function periodStart(date: string, granularity: RetentionPolicy['granularity']): string {
+    const monthStart = `${date.slice(0, 7)}-01`;
+    if (granularity === 'monthly') return monthStart;
+    const d = new Date(date + 'T00:00:00Z');
+    d.setUTCDate(d.getUTCDate() + 1 - (d.getUTCDay() || 7));
+    const monday = d.toISOString().split('T')[0];
+    return monday > monthStart ? monday : monthStart;
+}
+
+/**
+ * Sum every day before `cutoff` into its period's key. Days from `cutoff` on are kept as they are.
+ * Keys that already are period starts map to themselves, so rolling up again changes nothing.
+ */
+function rollUpDays<T extends object>(days: { [date: string]: T }, cutoff: string, granularity: RetentionPolicy['granularity']): { [date: string]: T } {
+    const result: { [date: string]: any } = {};
+    for (const [date, value] of Object.entries(days || {})) {
+        if (date >= cutoff) {
+            result[date] = value;
+        } else {
+            const key = periodStart(date, granularity);
+            result[key] = result[key] || {};
+            addInto(result[key], value);
+        }
+    }
+    return result;
+}
+
+// A period is only measured when every day in it was; addInto keeps whichever source came first
+function rollUpTokenQuery(days: TokenQueryStats, cutoff: string, granularity: RetentionPolicy['granularity']): TokenQueryStats {
+    const result = rollUpDays(days, cutoff, granularity);
+    for (const [date, day] of Object.entries(days || {})) {
+        if (date >= cutoff) continue;
+        const period = result[periodStart(date, granularity)];
+        period.source = (day.source || 'estimated') === 'measured' && period.source === 'measured' ? 'measured' : 'estimated';
+    }
+    return result;
+}
+
+/**
+ * Roll daily entries older than `policy.detailDays` up into weekly or monthly entries. Token and
+ * query totals are preserved exactly; only the split across days within a period is lost.
+ * Journaled events before the cutoff are compacted into the baseline first, so rebuilds keep the rollup.
+ * Returns the number of daily entries that were rolled up.
+ */
+export async function applyRetention(context: vscode.ExtensionContext, policy: RetentionPolicy): Promise<number> {
+    const cutoff = daysAgoKey(policy.detailDays);
+    const periods = context.globalState.get<RolledUpPeriods>(ROLLED_UP_PERIODS_KEY, {});
+    const granularity = policy.granularity === 'monthly' ? 'month' : 'week';
+    const rolledDates = new Set<string>();
+    const collect = (days: { [date: string]: unknown }) => {
+        for (const date of Object.keys(days || {})) {
+            if (date < cutoff && !periods[date]) rolledDates.add(date);
+        }
+    };
+
+    compactJournal(context, policy.detailDays);
+    updateBaseline(context, (baseline: UsageRollups) => {
+        for (const store of ['usage', 'tokenQuery', 'languages', 'hourly'] as const) collect(baseline[store]);
+        baseline.usage = rollUpDays(baseline.usage, cutoff, policy.granularity);
+        baseline.tokenQuery = rollUpTokenQuery(baseline.tokenQuery, cutoff, policy.granularity);
+        baseline.languages = rollUpDays(baseline.languages, cutoff, policy.granularity);
+        baseline.hourly = rollUpDays(baseline.hourly, cutoff, policy.granularity);
+    });
+    // Change attribution is not journaled; it only lives in globalState
+    const changeSources = context.globalState.get<ChangeSourceStats>(CHANGE_SOURCE_STORAGE_KEY, {});
+    collect(changeSources);
+    await context.globalState.update(CHANGE_SOURCE_STORAGE_KEY, rollUpDays(changeSources, cutoff, policy.granularity));
+    await rebuildRollups(context);
+
+    for (const date of rolledDates) {
+        const key = periodStart(date, policy.granularity);
+        periods[key] = periods[key] || granularity;
+    }
+    await context.globalState.update(ROLLED_UP_PERIODS_KEY, periods);
+    await context.globalState.update(LAST_RETENTION_POLICY_KEY, policyKey(policy));
+    if (rolledDates.size > 0) console.log('Antigravity Monitor: Rolled up', rolledDates.size, 'days older than', cutoff, 'into', policy.granularity, 'totals');
+    return rolledDates.size;
+}
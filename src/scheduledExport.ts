@@ -0,0 +1,127 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { toDateKey, toTimeKey, daysAgoKey } from './time';
+
+// Day key of the last scheduled export
+const LAST_AUTO_EXPORT_KEY = 'antigravity.lastAutoExport';
+const CHECK_INTERVAL_MS = 60 * 60 * 1000;
+const DEFAULT_TEMPLATE = 'antigravity-stats-{date}.json';
+
+// What each placeholder can expand to, so rotation never matches a file the template could not have produced
+const PLACEHOLDER_PATTERNS: { [placeholder: string]: string } = {
+    date: '\\d{4}-\\d{2}-\\d{2}',
+    time: '\\d{6}',
+    userId: '[^/\\\\]+?',
+    hostname: '[^/\\\\]+?'
+};
+
+interface AutoExportConfig {
+    schedule: 'off' | 'daily' | 'weekly';
+    directory: string;
+    template: string;
+    keep: number;
+}
+
+function getConfig(): AutoExportConfig {
+    const config = vscode.workspace.getConfiguration('antigravity');
+    const directory = config.get<string>('autoExport.directory', '').trim();
+    return {
+        schedule: config.get<AutoExportConfig['schedule']>('autoExport.schedule', 'off'),
+        directory: !directory
+            ? path.join(os.homedir(), 'antigravity-exports')
+            : directory.startsWith('~') ? path.join(os.homedir(), directory.slice(1)) : directory,
+        template: config.get<string>('autoExport.fileNameTemplate', DEFAULT_TEMPLATE).trim() || DEFAULT_TEMPLATE,
+        keep: Math.max(1, config.get<number>('autoExport.keep', 10))
+    };
+}
+
+/**
+ * Expand `{date}`, `{time}`, `{userId}` and `{hostname}` in the file name template.
+ */
+export function expandTemplate(template: string, values: { [placeholder: string]: string }): string {
+    const name = template.replace(/\{(\w+)\}/g, (match, key) => values[key] ?? match);
+    // Placeholder values must not be able to point outside the export directory
+    return name.replace(/[\/\\:*?"<>|]/g, '_');
+}
+
+// Matches every name the template can produce, so rotation only ever touches our own exports
+function templatePattern(template: string): RegExp {
+    const literal = (part: string) => part.replace(/[\/\\:*?"<>|]/g, '_').replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    // Odd entries are the placeholders; unknown ones stay in the name as written
+    const source = template.split(/(\{\w+\})/).map((part, i) => (i % 2 === 1 && PLACEHOLDER_PATTERNS[part.slice(1, -1)]) || literal(part));
+    return new RegExp(`^${source.join('')}$`);
+}
+
+/**
+ * Write one export into the configured directory and delete the oldest ones beyond `keep`.
+ * Returns the written file.
+ */
+export function writeScheduledExport(payload: { userId?: string }, hostname: string, now: Date = new Date()): string {
+    const { directory, template, keep } = getConfig();
+    fs.mkdirSync(directory, { recursive: true });
+    const fileName = expandTemplate(template, {
+        date: toDateKey(now),
+        time: toTimeKey(now),
+        userId: payload.userId || 'unknown',
+        hostname
+    });
+    const file = path.join(directory, fileName);
+    fs.writeFileSync(file + '.tmp', JSON.stringify(payload, null, 2));
+    fs.renameSync(file + '.tmp', file);
+
+    const pattern = templatePattern(template);
+    const exports = fs.readdirSync(directory)
+        .filter(f => pattern.test(f))
+        .map(f => ({ f, mtime: fs.statSync(path.join(directory, f)).mtimeMs }))
+        .sort((a, b) => b.mtime - a.mtime);
+    for (const old of exports.slice(keep)) {
+        fs.unlinkSync(path.join(directory, old.f));
+    }
+    console.log('Antigravity Monitor: Scheduled export written to', file, exports.length > keep ? `(rotated ${exports.length - keep})` : '');
+    return file;
+}
+
+/**
+ * Export on `antigravity.autoExport.schedule` without prompting. Checked on startup and hourly,
+ * so a run missed while VS Code was closed happens at the next start (once, since every export holds all history).
+ */
+export function startScheduledExports(context: vscode.ExtensionContext, getPayload: () => Promise<{ userId?: string }>, getHostname: () => string): vscode.Disposable {
+    let failureShown = false;
+    let exporting = false;
+
+    async function exportIfDue() {
+        const { schedule } = getConfig();
+        if (exporting || (schedule !== 'daily' && schedule !== 'weekly')) return;
+        const last = context.globalState.get<string>(LAST_AUTO_EXPORT_KEY);
+        const due = !last || (schedule === 'daily' ? last < toDateKey() : last <= daysAgoKey(7));
+        if (!due) return;
+        exporting = true;
+        try {
+            writeScheduledExport(await getPayload(), getHostname());
+            await context.globalState.update(LAST_AUTO_EXPORT_KEY, toDateKey());
+            failureShown = false;
+        } catch (e: any) {
+            console.log('Antigravity Monitor: Scheduled export failed:', e?.message || e);
+            // Retried every hour; only tell the user once per failure streak
+            if (!failureShown) vscode.window.showWarningMessage(`Scheduled export failed: ${e?.message || e}`);
+            failureShown = true;
+        } finally {
+            exporting = false;
+        }
+    }
+
+    const timer = setInterval(exportIfDue, CHECK_INTERVAL_MS);
+    const configListener = vscode.workspace.onDidChangeConfiguration(e => {
+        if (e.affectsConfiguration('antigravity.autoExport')) exportIfDue();
+    });
+    exportIfDue();
+
+    return {
+        dispose() {
+            clearInterval(timer);
+            configListener.dispose();
+        }
+    };
+}
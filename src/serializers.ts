@@ -0,0 +1,200 @@
+import {
+    DailyStats, TokenQueryStats, ProjectStats, LanguageStats, HourlyStats, ChangeSourceStats
+} from './stats';
+
+// What `antigravity.exportStats` writes, and what every other format is derived from
+export interface ExportData {
+    userId: string;
+    email: string;
+    usage: DailyStats;
+    tokenQuery: TokenQueryStats;
+    projects: ProjectStats;
+    languages: LanguageStats;
+    hourly: HourlyStats;
+    timeZone: string;
+    changeSources: ChangeSourceStats;
+}
+
+export type ExportFormat = 'json' | 'csv' | 'ndjson' | 'openmetrics';
+
+export const EXPORT_FORMATS: { [format in ExportFormat]: { label: string; extension: string } } = {
+    json: { label: 'JSON (nested, re-importable)', extension: 'json' },
+    csv: { label: 'CSV (flat, long format)', extension: 'csv' },
+    ndjson: { label: 'NDJSON (one record per day and dimension)', extension: 'ndjson' },
+    openmetrics: { label: 'OpenMetrics / Prometheus text', extension: 'prom' }
+};
+
+// Inclusive 'YYYY-MM-DD' bounds; a missing bound is open
+export interface DateRange {
+    from?: string;
+    to?: string;
+}
+
+// One row of the long format. `dimension` says which of the optional keys are set:
+// day (totals), model, query_type, language, hour, branch (all-time: project totals are not per day)
+export interface FlatRecord {
+    userId: string;
+    date?: string;
+    dimension: 'day' | 'model' | 'query_type' | 'language' | 'hour' | 'branch';
+    model?: string;
+    // Display name and the id project totals are keyed by (names can repeat across remotes)
+    repository?: string;
+    repositoryId?: string;
+    branch?: string;
+    queryType?: string;
+    language?: string;
+    hour?: number;
+    inputTokens?: number;
+    outputTokens?: number;
+    tokens?: number;
+    queries?: number;
+    source?: string;
+}
+
+const CSV_COLUMNS: [string, keyof FlatRecord][] = [
+    ['user_id', 'userId'], ['date', 'date'], ['dimension', 'dimension'], ['model', 'model'], ['repository', 'repository'],
+    ['repository_id', 'repositoryId'], ['branch', 'branch'], ['query_type', 'queryType'], ['language', 'language'], ['hour', 'hour'],
+    ['input_tokens', 'inputTokens'], ['output_tokens', 'outputTokens'], ['tokens', 'tokens'], ['queries', 'queries'], ['source', 'source']
+];
+
+function inRange(date: string, range: DateRange): boolean {
+    return (!range.from || date >= range.from) && (!range.to || date <= range.to);
+}
+
+function filterDays<T>(days: { [date: string]: T }, range: DateRange): { [date: string]: T } {
+    const filtered: { [date: string]: T } = {};
+    for (const [date, value] of Object.entries(days || {})) {
+        if (inRange(date, range)) filtered[date] = value;
+    }
+    return filtered;
+}
+
+/**
+ * Keep only the days in `range`. Project totals have no dates and are kept whole.
+ */
+export function filterExportData(data: ExportData, range: DateRange): ExportData {
+    return {
+        ...data,
+        usage: filterDays(data.usage, range),
+        tokenQuery: filterDays(data.tokenQuery, range),
+        languages: filterDays(data.languages, range),
+        hourly: filterDays(data.hourly, range),
+        changeSources: filterDays(data.changeSources, range)
+    };
+}
+
+const sum = (values: number[]) => values.reduce((a, b) => a + b, 0);
+
+export function toFlatRecords(data: ExportData): FlatRecord[] {
+    const { userId } = data;
+    const records: FlatRecord[] = [];
+    const dates = Object.keys({ ...data.usage, ...data.tokenQuery }).sort();
+    for (const date of dates) {
+        const day = data.tokenQuery[date];
+        const models = data.usage[date] || {};
+        if (day) {
+            records.push({
+                userId, date, dimension: 'day', inputTokens: day.inputTokens, outputTokens: day.outputTokens,
+                tokens: day.inputTokens + day.outputTokens, queries: sum(Object.values(day.queries || {})), source: day.source || 'estimated'
+            });
+        } else {
+            records.push({ userId, date, dimension: 'day', tokens: sum(Object.values(models)), source: 'estimated' });
+        }
+        for (const [model, tokens] of Object.entries(models).sort()) {
+            records.push({ userId, date, dimension: 'model', model, tokens });
+        }
+        for (const [queryType, queries] of Object.entries(day?.queries || {}).sort()) {
+            records.push({ userId, date, dimension: 'query_type', queryType, queries });
+        }
+        for (const [language, u] of Object.entries(data.languages[date] || {}).sort()) {
+            records.push({ userId, date, dimension: 'language', language, inputTokens: u.inputTokens, outputTokens: u.outputTokens, tokens: u.inputTokens + u.outputTokens, queries: u.queries });
+        }
+        for (const [hour, u] of Object.entries(data.hourly[date] || {}).sort((a, b) => Number(a[0]) - Number(b[0]))) {
+            records.push({ userId, date, dimension: 'hour', hour: Number(hour), tokens: u.tokens, queries: u.queries });
+        }
+    }
+    for (const [repositoryId, repo] of Object.entries(data.projects)) {
+        for (const [branch, b] of Object.entries(repo.branches).sort()) {
+            records.push({
+                userId, dimension: 'branch', repository: repo.name, repositoryId, branch, inputTokens: b.inputTokens, outputTokens: b.outputTokens,
+                tokens: b.inputTokens + b.outputTokens, queries: sum(Object.values(b.queries || {}))
+            });
+        }
+    }
+    return records;
+}
+
+function csvField(value: unknown): string {
+    if (value === undefined || value === null) return '';
+    const text = String(value);
+    return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Rows of cells as CSV, quoting cells that need it. Every CSV the extension writes goes through here.
+ */
+export function rowsToCsv(rows: unknown[][]): string {
+    return rows.map(row => row.map(csvField).join(',')).join('\n') + '\n';
+}
+
+export function toCsv(data: ExportData): string {
+    const rows: unknown[][] = [CSV_COLUMNS.map(([header]) => header)];
+    for (const record of toFlatRecords(data)) {
+        rows.push(CSV_COLUMNS.map(([, key]) => record[key]));
+    }
+    return rowsToCsv(rows);
+}
+
+export function toNdjson(data: ExportData): string {
+    return toFlatRecords(data).map(r => JSON.stringify(r)).join('\n') + '\n';
+}
+
+function labelValue(value: string): string {
+    return value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+}
+
+/**
+ * OpenMetrics text snapshot of the totals in `data` (counters over the exported range).
+ */
+export function toOpenMetrics(data: ExportData): string {
+    const lines: string[] = [];
+    const family = (name: string, help: string, samples: [{ [label: string]: string | number }, number][], type: 'counter' | 'gauge' = 'counter') => {
+        lines.push(`# TYPE ${name} ${type}`, `# HELP ${name} ${help}`);
+        for (const [labels, value] of samples) {
+            const rendered = Object.entries({ user: data.userId, ...labels }).map(([k, v]) => `${k}="${labelValue(String(v))}"`).join(',');
+            lines.push(`${name}${type === 'counter' ? '_total' : ''}{${rendered}} ${value}`);
+        }
+    };
+    const records = toFlatRecords(data);
+    const totals = (dimension: FlatRecord['dimension'], key: keyof FlatRecord, field: 'tokens' | 'queries') => {
+        const byKey = new Map<string, number>();
+        for (const r of records) {
+            if (r.dimension === dimension) byKey.set(String(r[key]), (byKey.get(String(r[key])) || 0) + (r[field] || 0));
+        }
+        return [...byKey.entries()];
+    };
+
+    const days = records.filter(r => r.dimension === 'day');
+    family('antigravity_tokens', 'AI tokens by direction', [
+        [{ direction: 'input' }, sum(days.map(r => r.inputTokens || 0))],
+        [{ direction: 'output' }, sum(days.map(r => r.outputTokens || 0))]
+    ]);
+    family('antigravity_queries', 'AI queries by query type', totals('query_type', 'queryType', 'queries').map(([queryType, n]) => [{ query_type: queryType }, n]));
+    family('antigravity_model_tokens', 'AI tokens by model', totals('model', 'model', 'tokens').map(([model, n]) => [{ model }, n]));
+    family('antigravity_language_tokens', 'AI tokens by language', totals('language', 'language', 'tokens').map(([language, n]) => [{ language }, n]));
+    family('antigravity_branch_tokens', 'AI tokens by repository and branch (all time)', records
+        .filter(r => r.dimension === 'branch')
+        .map(r => [{ repository: r.repository || '', repository_id: r.repositoryId || '', branch: r.branch || '' }, r.tokens || 0]));
+    family('antigravity_active_days', 'Days with AI usage in the exported range', [[{}, days.filter(r => (r.tokens || 0) > 0).length]], 'gauge');
+    lines.push('# EOF');
+    return lines.join('\n') + '\n';
+}
+
+export function serializeExport(data: ExportData, format: ExportFormat): string {
+    switch (format) {
+        case 'csv': return toCsv(data);
+        case 'ndjson': return toNdjson(data);
+        case 'openmetrics': return toOpenMetrics(data);
+        default: return JSON.stringify(data, null, 2);
+    }
+}
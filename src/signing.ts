@@ -0,0 +1,96 @@
+import * as vscode from 'vscode';
+import * as crypto from 'crypto';
+
+// Private key of this installation (PKCS#8 PEM), in SecretStorage so it never lands in settings or exports
+const SIGNING_KEY_SECRET = 'antigravity.signingKey';
+
+export interface ExportSignature {
+    algorithm: 'ed25519';
+    // SPKI DER, base64
+    publicKey: string;
+    // Signature over canonicalJson(payload without `signature`), base64
+    value: string;
+}
+
+export type SignedExport<T> = T & { signature: ExportSignature };
+
+export interface ExportSigner {
+    publicKey: string;
+    sign<T extends object>(payload: T): SignedExport<T>;
+}
+
+/**
+ * JSON with object keys sorted at every level and no whitespace, so the same data always encodes
+ * to the same bytes. Undefined members are left out, as JSON.stringify does. The dashboard's
+ * verifier (dashboard/app/lib/signature.ts) must encode exactly the same way.
+ */
+export function canonicalJson(value: unknown): string {
+    if (Array.isArray(value)) return `[${value.map(v => canonicalJson(v === undefined ? null : v)).join(',')}]`;
+    if (value && typeof value === 'object') {
+        const obj = value as { [key: string]: unknown };
+        const members = Object.keys(obj).filter(key => obj[key] !== undefined).sort()
+            .map(key => `${JSON.stringify(key)}:${canonicalJson(obj[key])}`);
+        return `{${members.join(',')}}`;
+    }
+    return JSON.stringify(value) ?? 'null';
+}
+
+async function loadOrCreateKey(context: vscode.ExtensionContext): Promise<crypto.KeyObject> {
+    const stored = await context.secrets.get(SIGNING_KEY_SECRET);
+    if (stored) {
+        try {
+            return crypto.createPrivateKey(stored);
+        } catch (e: any) {
+            console.log('Antigravity Monitor: Stored signing key is unreadable, creating a new one:', e?.message || e);
+        }
+    }
+    const { privateKey } = crypto.generateKeyPairSync('ed25519');
+    await context.secrets.store(SIGNING_KEY_SECRET, privateKey.export({ format: 'pem', type: 'pkcs8' }).toString());
+    console.log('Antigravity Monitor: Created a new export signing key');
+    return privateKey;
+}
+
+/**
+ * Signs exports with this installation's Ed25519 key, created on first use. A signature shows the
+ * export was not edited after the extension wrote it; the dashboard verifies it on import.
+ */
+export async function createExportSigner(context: vscode.ExtensionContext): Promise<ExportSigner> {
+    const privateKey = await loadOrCreateKey(context);
+    const publicKey = crypto.createPublicKey(privateKey).export({ format: 'der', type: 'spki' }).toString('base64');
+
+    return {
+        publicKey,
+        sign(payload) {
+            // Re-signing a signed payload signs its data, not the old signature
+            const { signature: _previous, ...data } = payload as { signature?: ExportSignature };
+            const value = crypto.sign(null, new Uint8Array(Buffer.from(canonicalJson(data), 'utf8')), privateKey).toString('base64');
+            return { ...data, signature: { algorithm: 'ed25519', publicKey, value } } as SignedExport<typeof payload>;
+        }
+    };
+}
+
+export interface LazyExportSigner {
+    // The payload signed, or unchanged when no signing key is available
+    sign<T extends object>(payload: T): Promise<T | SignedExport<T>>;
+}
+
+/**
+ * createExportSigner on the first export rather than at activation. When the key can't be loaded or
+ * stored (e.g. no OS keyring behind SecretStorage) the export goes out unsigned, `onUnsigned` is told
+ * why, and the next export tries again.
+ */
+export function createLazyExportSigner(context: vscode.ExtensionContext, onUnsigned: (reason: string) => void): LazyExportSigner {
+    let signer: Promise<ExportSigner> | undefined;
+    return {
+        async sign(payload) {
+            signer = signer || createExportSigner(context);
+            try {
+                return (await signer).sign(payload);
+            } catch (e: any) {
+                signer = undefined;
+                onUnsigned(e?.message || String(e));
+                return payload;
+            }
+        }
+    };
+}
@@ -0,0 +1,258 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import type { Database } from 'sql.js';
+// @ts-ignore
+const initSqlJs = require('sql.js');
+
+export interface StateDbCandidate {
+    path: string;
+    // Product the DB belongs to, e.g. 'Antigravity' or 'VSCodium'
+    product: string;
+    // Why this location was searched, for diagnostics
+    reason: string;
+    // Profile name when the DB belongs to a non-default VS Code profile
+    profile?: string;
+    exists: boolean;
+    size?: number;
+    modified?: number;
+}
+
+export type StateDbOutcome = 'used' | 'no match' | 'too large' | 'error';
+
+export interface StateDbLookup {
+    purpose: string;
+    at: number;
+    attempts: { candidate: StateDbCandidate; outcome: StateDbOutcome; error?: string }[];
+    used?: StateDbCandidate;
+}
+
+export interface StateDbHit<T> {
+    value: T;
+    candidate: StateDbCandidate;
+}
+
+export interface StateDbReader {
+    // Every location searched, in lookup order; the running instance's DBs first
+    candidates(): StateDbCandidate[];
+    // Run `query` against each existing candidate in order until one returns a value
+    lookup<T>(purpose: string, query: (db: Database) => T | null): Promise<StateDbHit<T> | null>;
+    // The latest lookup per purpose, for diagnostics
+    lastLookups(): StateDbLookup[];
+    // Forget cached values and lookups
+    reset(): void;
+}
+
+interface Product {
+    product: string;
+    // User data folder name under the platform's config directory
+    folders: string[];
+    flatpak?: string;
+    snap?: string;
+}
+
+// Antigravity first: it is the one that stores the signed-in account
+const PRODUCTS: Product[] = [
+    { product: 'Antigravity', folders: ['Antigravity', 'antigravity'] },
+    { product: 'Visual Studio Code', folders: ['Code'], flatpak: 'com.visualstudio.code', snap: 'code' },
+    { product: 'Visual Studio Code - Insiders', folders: ['Code - Insiders'], snap: 'code-insiders' },
+    { product: 'Cursor', folders: ['Cursor'] },
+    { product: 'VSCodium', folders: ['VSCodium'], flatpak: 'com.vscodium.codium', snap: 'codium' }
+];
+
+// sql.js holds the whole DB in memory; anything bigger is not a state DB worth reading
+const MAX_STATE_DB_BYTES = 256 * 1024 * 1024;
+
+/**
+ * Where the platform keeps per-user application data (the parent of `Code`, `Cursor`, ...).
+ */
+function configRoot(): string {
+    const home = os.homedir();
+    if (process.platform === 'darwin') return path.join(home, 'Library', 'Application Support');
+    if (process.platform === 'win32') return process.env.APPDATA || path.join(home, 'AppData', 'Roaming');
+    return process.env.XDG_CONFIG_HOME || path.join(home, '.config');
+}
+
+/**
+ * User data directories of every known product install, with the kind of install they belong to.
+ */
+function wellKnownUserDataDirs(): { dir: string; product: string; install: string }[] {
+    const home = os.homedir();
+    const dirs: { dir: string; product: string; install: string }[] = [];
+    for (const p of PRODUCTS) {
+        for (const folder of p.folders) dirs.push({ dir: path.join(configRoot(), folder), product: p.product, install: 'default install location' });
+        if (process.platform !== 'linux') continue;
+        if (p.flatpak) dirs.push({ dir: path.join(home, '.var', 'app', p.flatpak, 'config', p.folders[0]), product: p.product, install: 'Flatpak install' });
+        if (p.snap) dirs.push({ dir: path.join(home, 'snap', p.snap, 'current', '.config', p.folders[0]), product: p.product, install: 'Snap install' });
+    }
+    return dirs;
+}
+
+/**
+ * The running instance's user data directory and profile, derived from where the editor put this
+ * extension's storage: `<userData>/User/globalStorage/<ext>` or `<userData>/User/profiles/<id>/globalStorage/<ext>`.
+ * This follows portable mode and `--user-data-dir`, which no fixed list of paths can.
+ */
+export function runningUserDataDir(context: vscode.ExtensionContext): { userDataDir: string; globalStorageDir: string; profileId?: string } {
+    const globalStorageDir = path.dirname(context.globalStorageUri.fsPath);
+    const parent = path.dirname(globalStorageDir);
+    if (path.basename(path.dirname(parent)) === 'profiles') {
+        return { userDataDir: path.dirname(path.dirname(path.dirname(parent))), globalStorageDir, profileId: path.basename(parent) };
+    }
+    return { userDataDir: path.dirname(parent), globalStorageDir };
+}
+
+/**
+ * Profile folder ids mapped to their names, from the user data dir's storage.json.
+ */
+function profileNames(userDataDir: string): { [id: string]: string } {
+    const names: { [id: string]: string } = {};
+    try {
+        const storage = JSON.parse(fs.readFileSync(path.join(userDataDir, 'User', 'globalStorage', 'storage.json'), 'utf8'));
+        for (const profile of storage.userDataProfiles || []) {
+            if (profile?.location && profile?.name) names[path.basename(String(profile.location))] = profile.name;
+        }
+    } catch (e) {
+        // No profiles, or a storage.json we don't understand
+    }
+    return names;
+}
+
+/**
+ * State DBs of a user data directory: the default profile's, then every other profile's.
+ */
+function userDataDbs(userDataDir: string, product: string, reason: string): Omit<StateDbCandidate, 'exists'>[] {
+    const dbs: Omit<StateDbCandidate, 'exists'>[] = [{ path: path.join(userDataDir, 'User', 'globalStorage', 'state.vscdb'), product, reason }];
+    const profilesDir = path.join(userDataDir, 'User', 'profiles');
+    let ids: string[] = [];
+    try {
+        ids = fs.readdirSync(profilesDir);
+    } catch (e) {
+        return dbs;
+    }
+    const names = profileNames(userDataDir);
+    for (const id of ids) {
+        dbs.push({ path: path.join(profilesDir, id, 'globalStorage', 'state.vscdb'), product, reason, profile: names[id] || id });
+    }
+    return dbs;
+}
+
+function withStat(candidate: Omit<StateDbCandidate, 'exists'>): StateDbCandidate {
+    try {
+        const stat = fs.statSync(candidate.path);
+        return { ...candidate, exists: stat.isFile(), size: stat.size, modified: stat.mtimeMs };
+    } catch (e) {
+        return { ...candidate, exists: false };
+    }
+}
+
+/**
+ * Every state DB location worth searching, in lookup order, each with the product it belongs to and why
+ * it was searched. The running instance comes first (its current profile, then its other profiles),
+ * then the well-known locations of every product.
+ */
+export function listStateDbCandidates(context: vscode.ExtensionContext): StateDbCandidate[] {
+    const running = runningUserDataDir(context);
+    const wellKnown = wellKnownUserDataDirs();
+    const known = wellKnown.find(w => path.resolve(w.dir) === path.resolve(running.userDataDir));
+    const portable = process.env.VSCODE_PORTABLE;
+    const how = known ? known.install
+        : portable && path.resolve(running.userDataDir).startsWith(path.resolve(portable)) ? 'portable mode'
+        : 'custom --user-data-dir';
+    const runningReason = `Running editor (${how}), from this extension's storage location`;
+
+    const ordered: Omit<StateDbCandidate, 'exists'>[] = [];
+    // The profile this window runs in stores its own state next to this extension's storage
+    ordered.push({ path: path.join(running.globalStorageDir, 'state.vscdb'), product: vscode.env.appName, reason: runningReason, profile: running.profileId && (profileNames(running.userDataDir)[running.profileId] || running.profileId) });
+    ordered.push(...userDataDbs(running.userDataDir, vscode.env.appName, runningReason));
+    for (const w of wellKnown) ordered.push(...userDataDbs(w.dir, w.product, w.install));
+
+    const seen = new Set<string>();
+    const candidates: StateDbCandidate[] = [];
+    for (const candidate of ordered) {
+        // Case-insensitive file systems (macOS, Windows) list 'Antigravity' and 'antigravity' twice
+        const key = process.platform === 'linux' ? path.resolve(candidate.path) : path.resolve(candidate.path).toLowerCase();
+        if (seen.has(key)) continue;
+        seen.add(key);
+        candidates.push(withStat(candidate));
+    }
+    return candidates;
+}
+
+/**
+ * Copy `dbPath` to a private, read-only temp file and load that. The editor keeps writing to its DB
+ * while it runs; reading a copy never sees a half-written page and never touches the original.
+ */
+async function openSnapshot(dbPath: string): Promise<Database> {
+    const SQL = await initSqlJs();
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'antigravity-statedb-'));
+    const snapshot = path.join(dir, 'state.vscdb');
+    try {
+        // Copy-on-write clone where the file system supports it
+        fs.copyFileSync(dbPath, snapshot, fs.constants.COPYFILE_FICLONE);
+        fs.chmodSync(snapshot, 0o400);
+        return new SQL.Database(fs.readFileSync(snapshot));
+    } finally {
+        fs.rmSync(dir, { recursive: true, force: true });
+    }
+}
+
+/**
+ * Reads state DBs through snapshots, remembering which DB answered each lookup and why the others did not.
+ * Results are cached per DB until the file changes, so polling lookups don't copy an unchanged DB again.
+ */
+export function createStateDbReader(context: vscode.ExtensionContext): StateDbReader {
+    const lookups = new Map<string, StateDbLookup>();
+    const cache = new Map<string, { version: string; value: unknown }>();
+
+    return {
+        candidates: () => listStateDbCandidates(context),
+        async lookup<T>(purpose: string, query: (db: Database) => T | null): Promise<StateDbHit<T> | null> {
+            const previous = lookups.get(purpose)?.used?.path;
+            const record: StateDbLookup = { purpose, at: Date.now(), attempts: [] };
+            lookups.set(purpose, record);
+            for (const candidate of listStateDbCandidates(context)) {
+                if (!candidate.exists) continue;
+                if ((candidate.size || 0) > MAX_STATE_DB_BYTES) {
+                    record.attempts.push({ candidate, outcome: 'too large' });
+                    continue;
+                }
+                const cacheKey = `${purpose}\n${candidate.path}`;
+                const version = `${candidate.size}:${candidate.modified}`;
+                let value: T | null;
+                try {
+                    const cached = cache.get(cacheKey);
+                    if (cached && cached.version === version) {
+                        value = cached.value as T | null;
+                    } else {
+                        const db = await openSnapshot(candidate.path);
+                        try {
+                            value = query(db);
+                        } finally {
+                            db.close();
+                        }
+                        cache.set(cacheKey, { version, value });
+                    }
+                } catch (e: any) {
+                    record.attempts.push({ candidate, outcome: 'error', error: e?.message || String(e) });
+                    continue;
+                }
+                if (value === null || value === undefined) {
+                    record.attempts.push({ candidate, outcome: 'no match' });
+                    continue;
+                }
+                record.attempts.push({ candidate, outcome: 'used' });
+                record.used = candidate;
+                if (candidate.path !== previous) console.log(`Antigravity Monitor: ${purpose} read from ${candidate.path} (${candidate.product})`);
+                return { value, candidate };
+            }
+            return null;
+        },
+        lastLookups: () => Array.from(lookups.values()),
+        reset() {
+            lookups.clear();
+            cache.clear();
+        }
+    };
+}
@@ -0,0 +1,124 @@
+export const USAGE_STORAGE_KEY = 'daily_usage_stats';
+export const TOKEN_QUERY_STORAGE_KEY = 'daily_token_query_stats';
+export const PROJECT_STORAGE_KEY = 'project_usage_stats';
+export const CHANGE_SOURCE_STORAGE_KEY = 'change_source_stats';
+export const LANGUAGE_STORAGE_KEY = 'language_usage_stats';
+export const HOURLY_STORAGE_KEY = 'hourly_usage_stats';
+export const ROLLED_UP_PERIODS_KEY = 'rolled_up_periods';
+
+// Every globalState store holding usage data (backed up and restored together)
+export const STATS_STORAGE_KEYS = [
+    USAGE_STORAGE_KEY, TOKEN_QUERY_STORAGE_KEY, PROJECT_STORAGE_KEY,
+    CHANGE_SOURCE_STORAGE_KEY, LANGUAGE_STORAGE_KEY, HOURLY_STORAGE_KEY, ROLLED_UP_PERIODS_KEY
+];
+
+// 'measured' = counters reported by the Antigravity language server,
+// 'estimated' = derived from inserted characters. Missing means estimated (pre-collector data).
+export type UsageSource = 'measured' | 'estimated';
+
+// Updated interface to track tokens per model
+export interface DailyStats {
+    [date: string]: {
+        [model: string]: number;
+    };
+}
+
+export interface TokenQueryDay {
+    inputTokens: number;
+    outputTokens: number;
+    queries: { [queryType: string]: number };
+    source?: UsageSource;
+    // Estimated tokens per tokenizer id, so days counted with a weaker tokenizer can be found and re-estimated
+    tokenizers?: { [tokenizerId: string]: number };
+}
+
+export interface TokenQueryStats {
+    [date: string]: TokenQueryDay;
+}
+
+export interface BranchStats {
+    inputTokens: number;
+    outputTokens: number;
+    queries: { [queryType: string]: number };
+}
+
+// Keyed by repository id (normalized remote URL, or root path for repos without a remote), then branch
+export interface ProjectStats {
+    [repoId: string]: {
+        name: string;
+        branches: { [branch: string]: BranchStats };
+    };
+}
+
+export interface LanguageUsage {
+    inputTokens: number;
+    outputTokens: number;
+    queries: number;
+    // Tokens per file extension ('.tsx', '.sql'...; '(none)' for extensionless/untitled files)
+    fileTypes: { [extension: string]: number };
+}
+
+// Keyed by date, then VS Code language id ('typescript', 'sql', 'yaml'...)
+export interface LanguageStats {
+    [date: string]: {
+        [languageId: string]: LanguageUsage;
+    };
+}
+
+// Keyed by date, then hour of day (0-23) in the bucket time zone
+export interface HourlyStats {
+    [date: string]: {
+        [hour: number]: { tokens: number; queries: number };
+    };
+}
+
+// Where a document change came from. Only 'ai' feeds the usage stores above.
+export type ChangeSource = 'ai' | 'paste' | 'undoRedo' | 'formatter' | 'external' | 'manual';
+
+export interface ChangeSourceStats {
+    [date: string]: {
+        [source: string]: { changes: number; chars: number };
+    };
+}
+
+// Date keys that hold a whole week or month (keyed by its first day) after the retention policy
+// rolled up old daily detail. Weeks never cross a month boundary, so month and year ranges stay exact.
+export interface RolledUpPeriods {
+    [date: string]: 'week' | 'month';
+}
+
+// One tracked AI insertion (estimated) or one language-server counter delta (measured).
+// Measured events carry no editor context, so branch/repo/language/queryType are left empty.
+export interface UsageEvent {
+    ts: string;
+    // Day and hour of `ts` in the bucket time zone (see time.ts)
+    date: string;
+    hour?: number;
+    model: string;
+    branch?: string;
+    // Repository that owns the changed file: display name and the id ProjectStats is keyed by
+    repo?: string;
+    repoId?: string;
+    language?: string;
+    file?: string;
+    // Primary category (what query counts are keyed by) and every label that scored close to it
+    queryType?: string;
+    queryLabels?: string[];
+    // Start of the inserted text, kept locally so history can be re-classified when rules change
+    excerpt?: string;
+    chars: number;
+    inputTokens: number;
+    outputTokens: number;
+    source: UsageSource;
+    // Which tokenizer produced the estimate; missing on events from before tokenizers ('chars/4')
+    tokenizer?: string;
+}
+
+// The globalState views, all derivable from the event journal
+export interface UsageRollups {
+    usage: DailyStats;
+    tokenQuery: TokenQueryStats;
+    projects: ProjectStats;
+    languages: LanguageStats;
+    hourly: HourlyStats;
+}
@@ -0,0 +1,191 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as crypto from 'crypto';
+import { UsageRollups, ChangeSourceStats } from './stats';
+import { mergeStats, validateStats } from './importStats';
+
+// Stable per install; names this device's shard in the sync folder
+export const DEVICE_ID_KEY = 'antigravity.deviceId';
+
+const SHARD_PREFIX = 'antigravity-usage-';
+const SYNC_INTERVAL_MS = 60 * 1000;
+
+export type DeviceStats = UsageRollups & { changeSources: ChangeSourceStats };
+
+// One device's own stats (never merged ones, so shards can be summed without double counting)
+interface DeviceShard extends DeviceStats {
+    deviceId: string;
+    hostname: string;
+    updatedAt: string;
+}
+
+export interface DeviceSummary {
+    deviceId: string;
+    hostname: string;
+    // When the device last wrote its shard; missing for this device
+    updatedAt?: string;
+    isLocal: boolean;
+    days: { [date: string]: { tokens: number; queries: number } };
+}
+
+export interface DeviceSync extends vscode.Disposable {
+    isEnabled(): boolean;
+    hasRemoteDevices(): boolean;
+    // This device's stats plus every other device's shard
+    merge(local: DeviceStats): DeviceStats;
+    // Write this device's shard and re-read the others now
+    refresh(): void;
+    getDevices(local: DeviceStats): DeviceSummary[];
+    onDidChangeShards: vscode.Event<void>;
+}
+
+export function getDeviceId(context: vscode.ExtensionContext): string {
+    let deviceId = context.globalState.get<string>(DEVICE_ID_KEY);
+    if (!deviceId) {
+        deviceId = crypto.randomUUID();
+        context.globalState.update(DEVICE_ID_KEY, deviceId);
+    }
+    return deviceId;
+}
+
+function getSyncFolder(): string | undefined {
+    const configured = vscode.workspace.getConfiguration('antigravity').get<string>('sync.folder', '').trim();
+    if (!configured) return undefined;
+    return configured.startsWith('~') ? path.join(os.homedir(), configured.slice(1)) : configured;
+}
+
+function summarizeDays(stats: DeviceStats): DeviceSummary['days'] {
+    const days: DeviceSummary['days'] = {};
+    for (const date of Object.keys({ ...stats.usage, ...stats.tokenQuery })) {
+        const day = stats.tokenQuery[date];
+        const tokens = day
+            ? (day.inputTokens || 0) + (day.outputTokens || 0)
+            : Object.values(stats.usage[date] || {}).reduce((a, b) => a + b, 0);
+        const queries = Object.values(day?.queries || {}).reduce((a, b) => a + b, 0);
+        days[date] = { tokens, queries };
+    }
+    return days;
+}
+
+/**
+ * Opt-in sync through a shared folder (`antigravity.sync.folder`): every device writes only its
+ * own shard file and reads everyone else's, so there are no conflicting writes. Local stores
+ * are never changed; merged totals are computed on read.
+ */
+/**
+ * `getHostname` may return '' (no consent to share it); other devices then see this one by its id.
+ */
+export function createDeviceSync(context: vscode.ExtensionContext, getHostname: () => string, getLocal: () => DeviceStats): DeviceSync {
+    const deviceId = getDeviceId(context);
+    const shardName = `${SHARD_PREFIX}${deviceId}.json`;
+    const emitter = new vscode.EventEmitter<void>();
+    // Other devices' shards by file name, re-read when their mtime changes
+    const remote = new Map<string, { mtimeMs: number; shard: DeviceShard }>();
+    let lastWritten = '';
+
+    function writeShard(folder: string) {
+        const local = getLocal();
+        const hostname = getHostname();
+        const body = hostname + '\n' + JSON.stringify(local);
+        if (body === lastWritten) return;
+        const shard: DeviceShard = { deviceId, hostname, updatedAt: new Date().toISOString(), ...local };
+        const file = path.join(folder, shardName);
+        // Write-then-rename so readers never see a half-written shard
+        fs.writeFileSync(file + '.tmp', JSON.stringify(shard));
+        fs.renameSync(file + '.tmp', file);
+        lastWritten = body;
+    }
+
+    function readShards(folder: string): boolean {
+        let changed = false;
+        const files = fs.readdirSync(folder).filter(f => f.startsWith(SHARD_PREFIX) && f.endsWith('.json') && f !== shardName);
+        for (const name of [...remote.keys()]) {
+            if (!files.includes(name)) {
+                remote.delete(name);
+                changed = true;
+            }
+        }
+        for (const name of files) {
+            const file = path.join(folder, name);
+            try {
+                const { mtimeMs } = fs.statSync(file);
+                if (remote.get(name)?.mtimeMs === mtimeMs) continue;
+                const shard: DeviceShard = JSON.parse(fs.readFileSync(file, 'utf8'));
+                if (typeof shard.deviceId !== 'string' || !shard.usage || !shard.tokenQuery) throw new Error('not a usage shard');
+                if (typeof shard.hostname !== 'string' || typeof shard.updatedAt !== 'string') throw new Error('no hostname or update time');
+                // Anyone with access to the folder can write a shard, so it gets the same checks as an import
+                validateStats(shard, name);
+                // A shard copied from this install would count our own usage twice
+                if (shard.deviceId === deviceId) continue;
+                remote.set(name, {
+                    mtimeMs,
+                    shard: { ...shard, projects: shard.projects || {}, languages: shard.languages || {}, hourly: shard.hourly || {}, changeSources: shard.changeSources || {} }
+                });
+                changed = true;
+            } catch (e: any) {
+                console.log('Antigravity Monitor: Skipping sync shard', name, '-', e?.message || e);
+            }
+        }
+        return changed;
+    }
+
+    function sync() {
+        const folder = getSyncFolder();
+        if (!folder) return;
+        try {
+            fs.mkdirSync(folder, { recursive: true });
+            writeShard(folder);
+            if (readShards(folder)) emitter.fire();
+        } catch (e: any) {
+            console.log('Antigravity Monitor: Sync with', folder, 'failed:', e?.message || e);
+        }
+    }
+
+    const timer = setInterval(sync, SYNC_INTERVAL_MS);
+    const configListener = vscode.workspace.onDidChangeConfiguration(e => {
+        if (!e.affectsConfiguration('antigravity.sync')) return;
+        remote.clear();
+        lastWritten = '';
+        sync();
+        emitter.fire();
+    });
+    sync();
+
+    return {
+        isEnabled() {
+            return getSyncFolder() !== undefined;
+        },
+        hasRemoteDevices() {
+            return remote.size > 0;
+        },
+        merge(local) {
+            let merged = local;
+            for (const { shard } of remote.values()) {
+                const { rollups, changeSources } = mergeStats(merged, shard, 'sum');
+                merged = { ...rollups, changeSources };
+            }
+            return merged;
+        },
+        refresh() {
+            sync();
+        },
+        getDevices(local) {
+            return [
+                { deviceId, hostname: getHostname() || deviceId, isLocal: true, days: summarizeDays(local) },
+                ...[...remote.values()].map(({ shard }) => ({
+                    deviceId: shard.deviceId, hostname: shard.hostname || shard.deviceId, updatedAt: shard.updatedAt, isLocal: false, days: summarizeDays(shard)
+                }))
+            ];
+        },
+        onDidChangeShards: emitter.event,
+        dispose() {
+            clearInterval(timer);
+            configListener.dispose();
+            // Publish the final totals before the window goes away
+            sync();
+            emitter.dispose();
+        }
+    };
+}
@@ -0,0 +1,45 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+export interface TestContext extends vscode.ExtensionContext {
+    // Remove the context's storage directory
+    cleanup(): void;
+}
+
+/**
+ * Extension context with in-memory globalState and secrets, and global storage in a fresh temp directory.
+ */
+export function createTestContext(): TestContext {
+    const storageDir = fs.mkdtempSync(path.join(os.tmpdir(), 'antigravity-test-'));
+    const state = new Map<string, unknown>();
+    const secrets = new Map<string, string>();
+
+    const context = {
+        subscriptions: [],
+        globalStorageUri: vscode.Uri.file(storageDir),
+        globalState: {
+            keys: () => Array.from(state.keys()),
+            // Like the real Memento, values are kept and handed out by reference
+            get: (key: string, defaultValue?: unknown) => state.has(key) ? state.get(key) : defaultValue,
+            async update(key: string, value: unknown) {
+                if (value === undefined) state.delete(key); else state.set(key, value);
+            },
+            setKeysForSync: () => undefined
+        },
+        secrets: {
+            get: async (key: string) => secrets.get(key),
+            async store(key: string, value: string) {
+                secrets.set(key, value);
+            },
+            async delete(key: string) {
+                secrets.delete(key);
+            }
+        },
+        cleanup() {
+            fs.rmSync(storageDir, { recursive: true, force: true });
+        }
+    };
+    return context as unknown as TestContext;
+}
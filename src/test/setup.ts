@@ -0,0 +1,9 @@
+// Loaded by mocha (--require) before any test: unit tests run in plain Node, outside the extension host
+import * as path from 'path';
+
+const Module = require('module');
+const resolveFilename = Module._resolveFilename;
+Module._resolveFilename = function (request: string, ...rest: unknown[]) {
+    if (request === 'vscode') return path.join(__dirname, 'vscode.js');
+    return resolveFilename.call(this, request, ...rest);
+};
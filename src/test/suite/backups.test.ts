@@ -0,0 +1,48 @@
+import * as assert from 'assert';
+import { UsageEvent, USAGE_STORAGE_KEY } from '../../stats';
+import { appendEvents, getBaseline, readEvents, rebuildRollups } from '../../journal';
+import { createBackup, restoreBackup } from '../../backups';
+import { DAY_BUCKET_TIMEZONE_KEY } from '../../time';
+import { createTestContext, TestContext } from '../context';
+
+function event(ts: string, outputTokens: number): UsageEvent {
+    return { ts, date: ts.slice(0, 10), hour: 9, model: 'm', chars: 40, inputTokens: 0, outputTokens, source: 'estimated', tokenizer: 'estimate' };
+}
+
+suite('backups', () => {
+    let context: TestContext;
+    setup(() => { context = createTestContext(); });
+    teardown(() => context.cleanup());
+
+    test('a restore brings back the journal and time zone, so the next rebuild keeps it', async () => {
+        await context.globalState.update(DAY_BUCKET_TIMEZONE_KEY, 'Europe/Berlin');
+        appendEvents(context, [event('2024-05-01T09:00:00.000Z', 10)]);
+        await rebuildRollups(context);
+        const backup = createBackup(context, 'schema-v1-to-v2', 1)!;
+
+        appendEvents(context, [event('2024-05-02T09:00:00.000Z', 20)]);
+        await rebuildRollups(context);
+        await context.globalState.update(DAY_BUCKET_TIMEZONE_KEY, 'Asia/Tokyo');
+
+        assert.strictEqual(await restoreBackup(context, backup), 1);
+        assert.strictEqual(context.globalState.get(DAY_BUCKET_TIMEZONE_KEY), 'Europe/Berlin');
+        assert.strictEqual(readEvents(context).length, 1);
+        await rebuildRollups(context);
+        assert.deepStrictEqual(context.globalState.get(USAGE_STORAGE_KEY), { '2024-05-01': { m: 10 } });
+    });
+
+    test('a backup from before the journal existed seeds it from the restored stats', async () => {
+        await context.globalState.update(USAGE_STORAGE_KEY, { '2024-04-01': { m: 5 } });
+        const backup = createBackup(context, 'schema-v0-to-v1', 0)!;
+
+        appendEvents(context, [event('2024-05-01T09:00:00.000Z', 10)]);
+        await rebuildRollups(context);
+
+        await restoreBackup(context, backup);
+        assert.strictEqual(context.globalState.get(DAY_BUCKET_TIMEZONE_KEY), undefined);
+        assert.strictEqual(readEvents(context).length, 0);
+        assert.deepStrictEqual(getBaseline(context).usage, { '2024-04-01': { m: 5 } });
+        await rebuildRollups(context);
+        assert.deepStrictEqual(context.globalState.get(USAGE_STORAGE_KEY), { '2024-04-01': { m: 5 } });
+    });
+});
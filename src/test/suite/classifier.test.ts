@@ -0,0 +1,55 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { createClassifier, getCategoryColors, loadClassificationRules, REPO_RULES_FILE } from '../../classifier';
+import { settings, Uri, workspace } from '../vscode';
+
+suite('classifier', () => {
+    let dir: string;
+    setup(() => {
+        dir = fs.mkdtempSync(path.join(os.tmpdir(), 'antigravity-repo-'));
+        fs.mkdirSync(path.join(dir, path.dirname(REPO_RULES_FILE)));
+        fs.writeFileSync(path.join(dir, REPO_RULES_FILE), JSON.stringify({ rules: [{ category: 'Repo', patterns: ['repo'] }] }));
+        workspace.workspaceFolders = [{ uri: Uri.file(dir), name: 'repo', index: 0 }];
+        settings.set('antigravity.classification.includeDefaultRules', false);
+    });
+    teardown(() => {
+        workspace.isTrusted = true;
+        workspace.workspaceFolders = undefined;
+        settings.clear();
+        fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    test('repository rules are only read in trusted workspaces', () => {
+        assert.deepStrictEqual(loadClassificationRules().map(r => r.category), ['Repo']);
+        workspace.isTrusted = false;
+        assert.deepStrictEqual(loadClassificationRules(), []);
+    });
+
+    test('overlong patterns are skipped and only the start of the text is matched', () => {
+        settings.set('antigravity.classification.rules', [
+            { category: 'Long', patterns: ['x' + '?'.repeat(500)] },
+            { category: 'Tail', patterns: ['needle'] }
+        ]);
+        const classifier = createClassifier();
+        try {
+            assert.strictEqual(classifier.classify('x').primary, 'General Question');
+            assert.strictEqual(classifier.classify('needle').primary, 'Tail');
+            assert.strictEqual(classifier.classify(' '.repeat(5000) + 'needle').primary, 'General Question');
+        } finally {
+            classifier.dispose();
+        }
+    });
+
+    test('only CSS colors reach the dashboard', () => {
+        const colors = getCategoryColors([
+            { category: 'Hex', patterns: [], color: '#a1b2c3' },
+            { category: 'Rgba', patterns: [], color: 'rgba(1, 2, 3, 0.5)' },
+            { category: 'Named', patterns: [], color: 'rebeccapurple' },
+            { category: 'Markup', patterns: [], color: 'red"><img src=x onerror=alert(1)>' },
+            { category: 'Style', patterns: [], color: 'red;background-image:url(https://example.com/x)' }
+        ]);
+        assert.deepStrictEqual(colors, { Hex: '#a1b2c3', Rgba: 'rgba(1, 2, 3, 0.5)', Named: 'rebeccapurple' });
+    });
+});
@@ -0,0 +1,131 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ChangeSourceStats, UsageRollups } from '../../stats';
+import { ImportedStats, addInto, mergeStats, readImportFile } from '../../importStats';
+
+type LocalStats = UsageRollups & { changeSources: ChangeSourceStats };
+
+function local(): LocalStats {
+    return {
+        usage: { '2024-01-01': { 'Gemini 3 Flash': 100 }, '2024-01-02': { 'Gemini 3 Flash': 50 } },
+        tokenQuery: {
+            '2024-01-01': { inputTokens: 20, outputTokens: 80, queries: { Coding: 2 }, source: 'estimated' },
+            '2024-01-02': { inputTokens: 10, outputTokens: 40, queries: {}, source: 'measured' }
+        },
+        projects: { r: { name: 'r', branches: { main: { inputTokens: 20, outputTokens: 80, queries: { Coding: 2 } } } } },
+        languages: {},
+        hourly: { '2024-01-01': { 9: { tokens: 100, queries: 2 } } },
+        changeSources: { '2024-01-01': { ai: { changes: 2, chars: 400 } } }
+    };
+}
+
+function incoming(): ImportedStats {
+    return {
+        usage: { '2024-01-01': { 'Gemini 3 Flash': 300 }, '2024-01-03': { 'Claude Sonnet 4.5': 30 } },
+        tokenQuery: {
+            '2024-01-01': { inputTokens: 60, outputTokens: 240, queries: { Coding: 1, Search: 1 }, source: 'estimated' },
+            '2024-01-03': { inputTokens: 5, outputTokens: 25, queries: {}, source: 'estimated' }
+        },
+        projects: { r: { name: 'r', branches: { main: { inputTokens: 5, outputTokens: 5, queries: {} }, dev: { inputTokens: 1, outputTokens: 1, queries: {} } } } },
+        languages: {},
+        hourly: { '2024-01-01': { 9: { tokens: 300, queries: 2 } } },
+        changeSources: { '2024-01-01': { ai: { changes: 1, chars: 100 } } }
+    };
+}
+
+suite('importStats.mergeStats', () => {
+    test('sum adds every count and only reports the imported days', () => {
+        const { rollups, changeSources, dates } = mergeStats(local(), incoming(), 'sum');
+
+        assert.deepStrictEqual([...dates].sort(), ['2024-01-01', '2024-01-03']);
+        assert.deepStrictEqual(rollups.usage['2024-01-01'], { 'Gemini 3 Flash': 400 });
+        assert.deepStrictEqual(rollups.tokenQuery['2024-01-01'].queries, { Coding: 3, Search: 1 });
+        assert.strictEqual(rollups.tokenQuery['2024-01-01'].inputTokens, 80);
+        assert.deepStrictEqual(rollups.hourly['2024-01-01'][9], { tokens: 400, queries: 4 });
+        assert.deepStrictEqual(rollups.usage['2024-01-02'], { 'Gemini 3 Flash': 50 });
+        assert.deepStrictEqual(rollups.projects.r.branches.main, { inputTokens: 25, outputTokens: 85, queries: { Coding: 2 } });
+        assert.ok(rollups.projects.r.branches.dev);
+        assert.deepStrictEqual(changeSources['2024-01-01'].ai, { changes: 3, chars: 500 });
+    });
+
+    test('sum keeps a day measured when either side measured it', () => {
+        const theirs = incoming();
+        theirs.tokenQuery['2024-01-02'] = { inputTokens: 1, outputTokens: 1, queries: {}, source: 'estimated' };
+        const { rollups } = mergeStats(local(), theirs, 'sum');
+        assert.strictEqual(rollups.tokenQuery['2024-01-02'].source, 'measured');
+    });
+
+    test('max keeps whichever side has more tokens per day and per branch', () => {
+        const mine = local();
+        mine.usage['2024-01-03'] = { 'Gemini 3 Flash': 1000 };
+        mine.tokenQuery['2024-01-03'] = { inputTokens: 500, outputTokens: 500, queries: {}, source: 'estimated' };
+        const { rollups, changeSources } = mergeStats(mine, incoming(), 'max');
+
+        assert.deepStrictEqual(rollups.usage['2024-01-01'], { 'Gemini 3 Flash': 300 });
+        assert.deepStrictEqual(rollups.tokenQuery['2024-01-01'].queries, { Coding: 1, Search: 1 });
+        assert.deepStrictEqual(rollups.usage['2024-01-03'], { 'Gemini 3 Flash': 1000 });
+        assert.strictEqual(rollups.projects.r.branches.main.inputTokens, 20);
+        assert.ok(rollups.projects.r.branches.dev);
+        assert.deepStrictEqual(changeSources['2024-01-01'].ai, { changes: 2, chars: 400 });
+    });
+
+    test('replace takes the import as is and reports local days as changed too', () => {
+        const theirs = incoming();
+        const { rollups, dates } = mergeStats(local(), theirs, 'replace');
+
+        assert.deepStrictEqual(rollups, { usage: theirs.usage, tokenQuery: theirs.tokenQuery, projects: theirs.projects, languages: theirs.languages, hourly: theirs.hourly });
+        assert.deepStrictEqual([...dates].sort(), ['2024-01-01', '2024-01-02', '2024-01-03']);
+    });
+
+    test('never changes its inputs', () => {
+        const mine = local();
+        const theirs = incoming();
+        for (const strategy of ['sum', 'max', 'replace'] as const) {
+            const { rollups } = mergeStats(mine, theirs, strategy);
+            rollups.usage['2024-01-01']['Gemini 3 Flash'] = -1;
+        }
+        assert.deepStrictEqual(mine, local());
+        assert.deepStrictEqual(theirs, incoming());
+    });
+});
+
+suite('importStats.readImportFile', () => {
+    let dir: string;
+    setup(() => { dir = fs.mkdtempSync(path.join(os.tmpdir(), 'antigravity-import-')); });
+    teardown(() => fs.rmSync(dir, { recursive: true, force: true }));
+
+    const write = (body: string) => {
+        const file = path.join(dir, 'export.json');
+        fs.writeFileSync(file, body);
+        return file;
+    };
+    const day = (queries: string) => `{"usage":{"2024-01-01":{"Gemini 3 Flash":10}},"tokenQuery":{"2024-01-01":{"inputTokens":2,"outputTokens":8,"queries":${queries}}}}`;
+
+    test('accepts a current export', () => {
+        const stats = readImportFile(write(day('{"Coding":1}')));
+        assert.deepStrictEqual(stats.tokenQuery['2024-01-01'].queries, { Coding: 1 });
+    });
+
+    test('rejects nested values that are not counts', () => {
+        assert.throws(() => readImportFile(write(day('{"Coding":"1"}'))), /not token counts/);
+        assert.throws(() => readImportFile(write(day('[1]'))), /not token counts/);
+        assert.throws(() => readImportFile(write('{"usage":{"2024-01-01":{"Gemini 3 Flash":{"n":1}}}}')), /not token counts/);
+        assert.throws(() => readImportFile(write('{"usage":{},"hourly":{"2024-01-01":{"9":{"tokens":"x"}}}}')), /invalid entry/);
+    });
+
+    test('rejects prototype keys', () => {
+        assert.throws(() => readImportFile(write(day('{"__proto__":{"polluted":7}}'))), /not token counts/);
+        assert.throws(() => readImportFile(write('{"usage":{},"projects":{"__proto__":{"branches":{}}}}')), /not token counts/);
+    });
+});
+
+suite('importStats.addInto', () => {
+    test('skips prototype keys', () => {
+        const target = {};
+        addInto(target, JSON.parse('{"queries":{"__proto__":{"polluted":7},"constructor":{"prototype":{"polluted":7}}}}'));
+        assert.strictEqual(({} as any).polluted, undefined);
+        assert.deepStrictEqual(target, { queries: {} });
+    });
+});
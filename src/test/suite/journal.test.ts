@@ -0,0 +1,98 @@
+import * as assert from 'assert';
+import { UsageEvent } from '../../stats';
+import { applyEventToRollups, appendEvents, emptyRollups, getBaseline, readEvents, rebuildRollups, compactJournal } from '../../journal';
+import { LEGACY_REPO_ID } from '../../projects';
+import { createTestContext, TestContext } from '../context';
+
+function event(overrides: Partial<UsageEvent> = {}): UsageEvent {
+    return {
+        ts: '2024-03-01T10:15:00.000Z', date: '2024-03-01', hour: 10, model: 'Gemini 3 Flash',
+        chars: 40, inputTokens: 2, outputTokens: 10, source: 'estimated', tokenizer: 'gemini',
+        ...overrides
+    };
+}
+
+suite('journal.applyEventToRollups', () => {
+    test('adds an estimated event to every store', () => {
+        const rollups = emptyRollups();
+        applyEventToRollups(rollups, event({ queryType: 'Coding', branch: 'main', repoId: 'github.com/org/app', repo: 'app', language: 'typescript', file: '/w/a.ts' }));
+
+        assert.deepStrictEqual(rollups.usage['2024-03-01'], { 'Gemini 3 Flash': 12 });
+        assert.deepStrictEqual(rollups.tokenQuery['2024-03-01'], {
+            inputTokens: 2, outputTokens: 10, queries: { Coding: 1 }, source: 'estimated', tokenizers: { gemini: 12 }
+        });
+        assert.deepStrictEqual(rollups.hourly['2024-03-01'][10], { tokens: 12, queries: 1 });
+        assert.deepStrictEqual(rollups.projects['github.com/org/app'], {
+            name: 'app', branches: { main: { inputTokens: 2, outputTokens: 10, queries: { Coding: 1 } } }
+        });
+        assert.deepStrictEqual(rollups.languages['2024-03-01'].typescript, { inputTokens: 2, outputTokens: 10, queries: 1, fileTypes: { '.ts': 12 } });
+    });
+
+    test('the first measured event replaces the day\'s estimate but keeps its query counts', () => {
+        const rollups = emptyRollups();
+        applyEventToRollups(rollups, event({ queryType: 'Coding' }));
+        applyEventToRollups(rollups, event({ source: 'measured', model: 'Claude Sonnet 4.5', inputTokens: 100, outputTokens: 300, tokenizer: undefined }));
+
+        const day = rollups.tokenQuery['2024-03-01'];
+        assert.strictEqual(day.source, 'measured');
+        assert.strictEqual(day.inputTokens, 100);
+        assert.strictEqual(day.outputTokens, 300);
+        assert.deepStrictEqual(day.queries, { Coding: 1 });
+        assert.deepStrictEqual(rollups.usage['2024-03-01'], { 'Claude Sonnet 4.5': 400 });
+        assert.deepStrictEqual(rollups.hourly['2024-03-01'][10], { tokens: 400, queries: 1 });
+    });
+
+    test('estimated events on a measured day only add their query', () => {
+        const rollups = emptyRollups();
+        applyEventToRollups(rollups, event({ source: 'measured', inputTokens: 100, outputTokens: 300 }));
+        applyEventToRollups(rollups, event({ queryType: 'Debugging' }));
+
+        const day = rollups.tokenQuery['2024-03-01'];
+        assert.strictEqual(day.inputTokens + day.outputTokens, 400);
+        assert.deepStrictEqual(day.queries, { Debugging: 1 });
+        assert.deepStrictEqual(rollups.usage['2024-03-01'], { 'Gemini 3 Flash': 400 });
+    });
+
+    test('events from before repository tracking land in the legacy bucket', () => {
+        const rollups = emptyRollups();
+        applyEventToRollups(rollups, event({ branch: 'feature/x' }));
+        assert.ok(rollups.projects[LEGACY_REPO_ID].branches['feature/x']);
+    });
+
+    test('measured events never touch project or language totals', () => {
+        const rollups = emptyRollups();
+        applyEventToRollups(rollups, event({ source: 'measured', branch: 'main', repoId: 'r', language: 'typescript' }));
+        assert.deepStrictEqual(rollups.projects, {});
+        assert.deepStrictEqual(rollups.languages, {});
+    });
+});
+
+suite('journal files', () => {
+    let context: TestContext;
+    setup(() => { context = createTestContext(); });
+    teardown(() => context.cleanup());
+
+    test('a rebuild from the journal matches applying the events directly', async () => {
+        const events = [
+            event({ queryType: 'Coding', branch: 'main', repoId: 'r', repo: 'r' }),
+            event({ ts: '2024-04-02T08:00:00.000Z', date: '2024-04-02', hour: 8, queryType: 'Search' }),
+            event({ ts: '2024-04-02T09:00:00.000Z', date: '2024-04-02', hour: 9, source: 'measured', inputTokens: 50, outputTokens: 50 })
+        ];
+        appendEvents(context, events);
+        const expected = emptyRollups();
+        for (const e of events) applyEventToRollups(expected, e);
+
+        assert.strictEqual(readEvents(context).length, 3);
+        assert.deepStrictEqual(await rebuildRollups(context), expected);
+    });
+
+    test('compaction folds old events into the baseline without changing totals', async () => {
+        appendEvents(context, [event({ queryType: 'Coding' }), event({ ts: new Date().toISOString(), date: '2999-01-01' })]);
+        const before = await rebuildRollups(context);
+
+        assert.strictEqual(compactJournal(context, 30), 1);
+        assert.strictEqual(readEvents(context).length, 1);
+        assert.deepStrictEqual(getBaseline(context).tokenQuery['2024-03-01'].queries, { Coding: 1 });
+        assert.deepStrictEqual(await rebuildRollups(context), before);
+    });
+});
@@ -0,0 +1,135 @@
+import * as assert from 'assert';
+import * as https from 'https';
+import { AddressInfo } from 'net';
+import { createLanguageServerClient, findLanguageServer, parseServerArgs, LanguageServerError, ProcessInfo, ProcessTable } from '../../languageServer';
+import { SERVER_1, SERVER_2 } from '../certificates';
+
+// Process list the tests edit, counting how often discovery reads it
+function fakeTable(processes: ProcessInfo[]): ProcessTable & { processes: ProcessInfo[]; lists: number } {
+    return {
+        processes,
+        lists: 0,
+        list() {
+            this.lists++;
+            return this.processes;
+        }
+    };
+}
+
+interface FakeServer {
+    port: number;
+    // CSRF token of every request received
+    tokens: string[];
+    status: number;
+    server: https.Server;
+}
+
+function startServer(credentials: { key: string; cert: string }): Promise<FakeServer> {
+    return new Promise(resolve => {
+        const fake = { port: 0, tokens: [] as string[], status: 200 } as FakeServer;
+        fake.server = https.createServer(credentials, (req, res) => {
+            fake.tokens.push(String(req.headers['x-codeium-csrf-token']));
+            req.resume();
+            req.on('end', () => {
+                res.writeHead(fake.status, { 'Content-Type': 'application/json' });
+                res.end(JSON.stringify({ userStatus: { email: 'dev@example.com' } }));
+            });
+        });
+        fake.server.listen(0, '127.0.0.1', () => {
+            fake.port = (fake.server.address() as AddressInfo).port;
+            resolve(fake);
+        });
+    });
+}
+
+function stopServer(fake: FakeServer): Promise<void> {
+    return new Promise(resolve => {
+        fake.server.close(() => resolve());
+        fake.server.closeAllConnections();
+    });
+}
+
+function serverProcess(pid: number, port: number, token: string): ProcessInfo {
+    return { pid, commandLine: `/opt/antigravity/bin/language_server_linux_x64 --enable_lsp --port ${port} --csrf_token ${token}` };
+}
+
+suite('languageServer.parseServerArgs', () => {
+    test('reads the port and token in either flag style', () => {
+        assert.deepStrictEqual(parseServerArgs('/opt/Antigravity/language_server --port 4242 --csrf_token abc-123'), { port: 4242, csrfToken: 'abc-123' });
+        assert.deepStrictEqual(parseServerArgs('language_server_macos_arm --port=4242 --csrf-token=abc'), { port: 4242, csrfToken: 'abc' });
+    });
+
+    test('ignores other processes and incomplete command lines', () => {
+        assert.strictEqual(parseServerArgs('node server.js --port 4242 --csrf_token abc'), null);
+        assert.strictEqual(parseServerArgs('/opt/antigravity/language_server --port 4242'), null);
+        assert.strictEqual(parseServerArgs('/opt/antigravity/language_server --csrf_token abc'), null);
+    });
+});
+
+suite('languageServer.findLanguageServer', () => {
+    test('returns the first language server in the process table', () => {
+        const table = fakeTable([
+            { pid: 10, commandLine: 'node server.js --port 80' },
+            serverProcess(20, 4242, 'first'),
+            serverProcess(30, 4343, 'second')
+        ]);
+        assert.deepStrictEqual(findLanguageServer(table, 'localhost'), { host: 'localhost', pid: 20, port: 4242, csrfToken: 'first' });
+    });
+
+    test('returns null when no language server is running', () => {
+        assert.strictEqual(findLanguageServer(fakeTable([{ pid: 10, commandLine: 'bash' }])), null);
+    });
+});
+
+suite('languageServer.createLanguageServerClient', () => {
+    const servers: FakeServer[] = [];
+    const start = async (credentials: { key: string; cert: string }) => {
+        const fake = await startServer(credentials);
+        servers.push(fake);
+        return fake;
+    };
+    teardown(async () => {
+        await Promise.all(servers.splice(0).filter(s => s.server.listening).map(stopServer));
+    });
+
+    test('rejects a different certificate from the same process and keeps the pin', async () => {
+        const fake = await start(SERVER_1);
+        const table = fakeTable([serverProcess(100, fake.port, 'token-1')]);
+        const client = createLanguageServerClient({ processTable: table, timeoutMs: 2000 });
+        assert.strictEqual((await client.getUserStatus()).userStatus?.email, 'dev@example.com');
+
+        // Something else now answers on the port the server process still owns
+        fake.server.setSecureContext(SERVER_2);
+        for (let attempt = 0; attempt < 2; attempt++) {
+            await assert.rejects(client.getUserStatus(), (e: any) => e instanceof LanguageServerError && e.code === 'certificate');
+        }
+        // Only the first request reached the server; the token never went to the impostor
+        assert.deepStrictEqual(fake.tokens, ['token-1']);
+    });
+
+    test('a restarted server is found again and the call retried once', async () => {
+        const before = await start(SERVER_1);
+        const table = fakeTable([serverProcess(100, before.port, 'token-1')]);
+        const client = createLanguageServerClient({ processTable: table, timeoutMs: 2000 });
+        await client.getUserStatus();
+
+        await stopServer(before);
+        const after = await start(SERVER_2);
+        table.processes = [serverProcess(200, after.port, 'token-2')];
+        assert.strictEqual((await client.getUserStatus()).userStatus?.email, 'dev@example.com');
+        assert.deepStrictEqual(after.tokens, ['token-2']);
+        assert.strictEqual(table.lists, 2);
+        assert.strictEqual((await client.connect()).pid, 200);
+    });
+
+    test('a call still rejected after rediscovery is not retried again', async () => {
+        const fake = await start(SERVER_1);
+        fake.status = 403;
+        const table = fakeTable([serverProcess(100, fake.port, 'stale')]);
+        const client = createLanguageServerClient({ processTable: table, timeoutMs: 2000 });
+
+        await assert.rejects(client.getUserStatus(), (e: any) => e instanceof LanguageServerError && e.code === 'http' && e.status === 403);
+        assert.strictEqual(table.lists, 2);
+        assert.strictEqual(fake.tokens.length, 2);
+    });
+});
@@ -0,0 +1,36 @@
+import * as assert from 'assert';
+import { UsageEvent } from '../../stats';
+import { appendEvents, compactJournal, getRollups, readEvents } from '../../journal';
+import { deleteData, previewDeletion } from '../../manageData';
+import { createTestContext, TestContext } from '../context';
+
+function event(queryType: string): UsageEvent {
+    return {
+        ts: '2024-03-01T10:15:00.000Z', date: '2024-03-01', hour: 10, model: 'Gemini 3 Flash', queryType, queryLabels: [queryType],
+        excerpt: 'const x = 1;', chars: 40, inputTokens: 2, outputTokens: 10, source: 'estimated', tokenizer: 'gemini'
+    };
+}
+
+suite('manageData.deleteData', () => {
+    let context: TestContext;
+    setup(() => { context = createTestContext(); });
+    teardown(() => context.cleanup());
+
+    for (const folded of [false, true]) {
+        test(`deleting a query type removes its counts and keeps the tokens (${folded ? 'compacted' : 'journaled'} day)`, async () => {
+            appendEvents(context, [event('Coding'), event('Search')]);
+            if (folded) compactJournal(context, 30);
+
+            const preview = previewDeletion(context, { range: {}, queryType: 'Coding' });
+            assert.strictEqual(preview.removed.tokens, 0);
+            assert.strictEqual(preview.removed.queries, 1);
+            await deleteData(context, { range: {}, queryType: 'Coding' });
+
+            const day = getRollups(context).tokenQuery['2024-03-01'];
+            assert.deepStrictEqual(day.queries, { Search: 1 });
+            assert.strictEqual(day.inputTokens + day.outputTokens, 24);
+            // Nothing left to re-classify the stripped event back into the deleted type
+            assert.ok(readEvents(context).every(e => e.queryType !== 'Coding' && (e.queryType || e.excerpt === undefined)));
+        });
+    }
+});
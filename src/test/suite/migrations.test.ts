@@ -0,0 +1,67 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import { DailyStats, TokenQueryStats, USAGE_STORAGE_KEY, TOKEN_QUERY_STORAGE_KEY, PROJECT_STORAGE_KEY, LANGUAGE_STORAGE_KEY } from '../../stats';
+import {
+    convertNumericDailyTotals, addMissingTokenTotals, runMigrations, getSchemaVersion, getMigrationHistory, LATEST_SCHEMA_VERSION
+} from '../../migrations';
+import { appendEvents } from '../../journal';
+import { LEGACY_REPO_ID } from '../../projects';
+import { createTestContext, TestContext } from '../context';
+
+suite('migrations steps', () => {
+    test('numeric day totals become Gemini 1.5 Pro totals', () => {
+        const usage: any = { '2024-01-01': 120, '2024-01-02': { 'Gemini 3 Flash': 5 } };
+        assert.strictEqual(convertNumericDailyTotals(usage), true);
+        assert.deepStrictEqual(usage, { '2024-01-01': { 'Gemini 1.5 Pro': 120 }, '2024-01-02': { 'Gemini 3 Flash': 5 } });
+        assert.strictEqual(convertNumericDailyTotals(usage), false);
+    });
+
+    test('days with only model totals get a one-to-five input/output split', () => {
+        const usage: DailyStats = { '2024-01-01': { a: 60, b: 60 }, '2024-01-02': { a: 0 }, '2024-01-03': { a: 9 } };
+        const tokenQuery: TokenQueryStats = { '2024-01-03': { inputTokens: 1, outputTokens: 8, queries: { Coding: 1 } } };
+        assert.strictEqual(addMissingTokenTotals(usage, tokenQuery), true);
+        assert.deepStrictEqual(tokenQuery['2024-01-01'], { inputTokens: 20, outputTokens: 100, queries: {}, source: 'estimated' });
+        assert.strictEqual(tokenQuery['2024-01-02'], undefined);
+        assert.deepStrictEqual(tokenQuery['2024-01-03'], { inputTokens: 1, outputTokens: 8, queries: { Coding: 1 } });
+        assert.strictEqual(addMissingTokenTotals(usage, tokenQuery), false);
+    });
+});
+
+suite('migrations.runMigrations', () => {
+    let context: TestContext;
+    setup(() => { context = createTestContext(); });
+    teardown(() => context.cleanup());
+
+    test('brings a first-release store up to date, with a backup before each step', async () => {
+        await context.globalState.update(USAGE_STORAGE_KEY, { '2024-01-01': 120 });
+        await context.globalState.update(PROJECT_STORAGE_KEY, { main: { inputTokens: 1, outputTokens: 2, queries: {} } });
+        appendEvents(context, [{
+            ts: '2024-01-02T10:00:00.000Z', date: '2024-01-02', model: 'm', language: 'sql', file: 'q.sql',
+            chars: 4, inputTokens: 1, outputTokens: 1, source: 'estimated'
+        }]);
+
+        const applied = await runMigrations(context);
+
+        assert.deepStrictEqual(applied.map(r => r.version), [1, 2, 3, 4]);
+        assert.ok(applied.every(r => r.changed));
+        assert.ok(applied.every(r => r.backup && fs.existsSync(r.backup)));
+        assert.strictEqual(getSchemaVersion(context), LATEST_SCHEMA_VERSION);
+        assert.deepStrictEqual(getMigrationHistory(context).map(r => r.version), [1, 2, 3, 4]);
+        assert.deepStrictEqual(context.globalState.get(USAGE_STORAGE_KEY), { '2024-01-01': { 'Gemini 1.5 Pro': 120 } });
+        assert.strictEqual((context.globalState.get(TOKEN_QUERY_STORAGE_KEY) as TokenQueryStats)['2024-01-01'].outputTokens, 100);
+        assert.ok((context.globalState.get(PROJECT_STORAGE_KEY) as any)[LEGACY_REPO_ID].branches.main);
+        assert.strictEqual((context.globalState.get(LANGUAGE_STORAGE_KEY) as any)['2024-01-02'].sql.queries, 1);
+    });
+
+    test('runs nothing once the schema is current', async () => {
+        await runMigrations(context);
+        assert.deepStrictEqual(await runMigrations(context), []);
+        assert.strictEqual(getMigrationHistory(context).length, LATEST_SCHEMA_VERSION);
+    });
+
+    test('a fresh install has nothing to back up or change', async () => {
+        const applied = await runMigrations(context);
+        assert.ok(applied.every(r => !r.backup));
+        assert.ok(applied.every(r => !r.changed));
+    });
+});
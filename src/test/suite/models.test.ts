@@ -0,0 +1,83 @@
+import * as assert from 'assert';
+import { createModelDetector, ModelDetector, UNKNOWN_MODEL } from '../../models';
+import { LanguageServerClient, LanguageServerError, UserStatusResponse } from '../../languageServer';
+import { StateDbReader } from '../../stateDb';
+
+// Lets the detector's first refresh, started on creation, finish
+const settle = () => new Promise(resolve => setTimeout(resolve, 0));
+
+function fakeClient(respond: () => UserStatusResponse): LanguageServerClient {
+    return {
+        getUserStatus: async () => respond(),
+        connect: async () => { throw new Error('not used'); },
+        reset: () => undefined
+    };
+}
+
+// State DB whose every lookup returns `model`, counting lookups
+function fakeStateDb(model: string | null): StateDbReader & { lookups: number } {
+    return {
+        lookups: 0,
+        candidates: () => [],
+        async lookup<T>() {
+            this.lookups++;
+            return model === null ? null : { value: model as unknown as T, candidate: { path: 'state.vscdb', product: 'Antigravity', reason: 'test', exists: true } };
+        },
+        lastLookups: () => [],
+        reset: () => undefined
+    };
+}
+
+suite('models.createModelDetector', () => {
+    const detectors: ModelDetector[] = [];
+    const create = (client: LanguageServerClient, stateDb: StateDbReader) => {
+        const detector = createModelDetector(client, stateDb, 60 * 60 * 1000);
+        detectors.push(detector);
+        return detector;
+    };
+    teardown(() => detectors.splice(0).forEach(d => d.dispose()));
+
+    test('a reachable server without a model does not send it to the state DB', async () => {
+        const stateDb = fakeStateDb('gemini-3-flash');
+        const detector = create(fakeClient(() => ({ userStatus: {} })), stateDb);
+        await settle();
+        await detector.refresh();
+
+        assert.strictEqual(stateDb.lookups, 0);
+        assert.strictEqual(detector.getActiveModel(), UNKNOWN_MODEL);
+    });
+
+    test('an unreachable server falls back to the state DB', async () => {
+        const stateDb = fakeStateDb('gemini-3-flash');
+        const detector = create(fakeClient(() => { throw new LanguageServerError('not_running', 'not running'); }), stateDb);
+        await settle();
+
+        assert.strictEqual(detector.getActiveModel(), 'Gemini 3 Flash');
+        assert.strictEqual(stateDb.lookups, 1);
+    });
+
+    test('the state DB is not read again right after it had no model', async () => {
+        const stateDb = fakeStateDb(null);
+        const detector = create(fakeClient(() => { throw new LanguageServerError('unreachable', 'refused'); }), stateDb);
+        await settle();
+        await detector.refresh();
+        await detector.refresh();
+
+        assert.strictEqual(stateDb.lookups, 1);
+    });
+
+    test('other server errors keep the last model without reading the state DB', async () => {
+        const stateDb = fakeStateDb('gemini-3-flash');
+        let fail = false;
+        const detector = create(fakeClient(() => {
+            if (fail) throw new LanguageServerError('http', 'HTTP 500', 500);
+            return { userStatus: { selectedModel: 'claude-sonnet-4-5' } };
+        }), stateDb);
+        await settle();
+        fail = true;
+        await detector.refresh();
+
+        assert.strictEqual(detector.getActiveModel(), 'Claude Sonnet 4.5');
+        assert.strictEqual(stateDb.lookups, 0);
+    });
+});
@@ -0,0 +1,34 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { execFileSync } from 'child_process';
+import { getProjectForUri } from '../../projects';
+import { Uri, workspace } from '../vscode';
+
+suite('projects.getProjectForUri', () => {
+    let dir: string;
+    setup(() => {
+        dir = fs.mkdtempSync(path.join(os.tmpdir(), 'antigravity-folder-'));
+        fs.mkdirSync(path.join(dir, 'src', 'nested'), { recursive: true });
+        workspace.workspaceFolders = [{ uri: Uri.file(dir), name: 'my-folder', index: 0 }];
+    });
+    teardown(() => {
+        workspace.isTrusted = true;
+        workspace.workspaceFolders = undefined;
+        fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    test('files outside a repository count towards their workspace folder', () => {
+        const top = getProjectForUri(Uri.file(path.join(dir, 'a.ts')) as any);
+        const nested = getProjectForUri(Uri.file(path.join(dir, 'src', 'nested', 'b.ts')) as any);
+        assert.deepStrictEqual(top, { repoId: dir, repoName: 'my-folder', branch: 'no-git-repo' });
+        assert.deepStrictEqual(nested, top);
+    });
+
+    test('git is not run in untrusted workspaces', () => {
+        execFileSync('git', ['init', '-q', '-b', 'main'], { cwd: dir });
+        workspace.isTrusted = false;
+        assert.deepStrictEqual(getProjectForUri(Uri.file(path.join(dir, 'c.ts')) as any), { repoId: dir, repoName: 'my-folder', branch: 'no-git-repo' });
+    });
+});
@@ -0,0 +1,82 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { expandTemplate, writeScheduledExport } from '../../scheduledExport';
+import { toDateKey } from '../../time';
+import { settings } from '../vscode';
+
+suite('scheduledExport.expandTemplate', () => {
+    test('fills known placeholders and leaves unknown ones', () => {
+        assert.strictEqual(
+            expandTemplate('{userId}-{date}-{other}.json', { userId: 'u1', date: '2024-01-01' }),
+            'u1-2024-01-01-{other}.json'
+        );
+    });
+
+    test('values cannot leave the export directory', () => {
+        assert.strictEqual(expandTemplate('{hostname}.json', { hostname: '../../etc/passwd' }), '.._.._etc_passwd.json');
+        assert.strictEqual(expandTemplate('{hostname}.json', { hostname: 'C:\\x' }), 'C__x.json');
+    });
+});
+
+suite('scheduledExport.writeScheduledExport', () => {
+    let dir: string;
+    setup(() => {
+        dir = fs.mkdtempSync(path.join(os.tmpdir(), 'antigravity-exports-'));
+        settings.set('antigravity.autoExport.directory', dir);
+    });
+    teardown(() => {
+        settings.clear();
+        fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    test('writes the payload under the expanded name', () => {
+        const now = new Date();
+        const file = writeScheduledExport({ userId: 'u1' }, 'host', now);
+        assert.strictEqual(path.basename(file), `antigravity-stats-${toDateKey(now)}.json`);
+        assert.deepStrictEqual(JSON.parse(fs.readFileSync(file, 'utf8')), { userId: 'u1' });
+    });
+
+    test('rotation keeps the newest exports and leaves other files alone', () => {
+        settings.set('antigravity.autoExport.fileNameTemplate', 'stats-{userId}.json');
+        settings.set('antigravity.autoExport.keep', 2);
+        fs.writeFileSync(path.join(dir, 'notes.json'), '{}');
+        ['a', 'b', 'c'].forEach((user, i) => {
+            const file = writeScheduledExport({ userId: user }, 'host');
+            // Rotation goes by mtime; space the writes out so the order is certain
+            const at = new Date(Date.now() - (3 - i) * 60000);
+            fs.utimesSync(file, at, at);
+        });
+        writeScheduledExport({ userId: 'd' }, 'host');
+
+        assert.deepStrictEqual(fs.readdirSync(dir).sort(), ['notes.json', 'stats-c.json', 'stats-d.json']);
+    });
+
+    test('rotation only deletes names the template can produce', () => {
+        settings.set('antigravity.autoExport.keep', 1);
+        // Each of these matched the old catch-all pattern for {date}
+        const unrelated = ['antigravity-stats-backup.json', 'antigravity-stats-2024-01-01-old.json', 'antigravity-stats-2024-01-01 copy.json'];
+        unrelated.forEach(f => fs.writeFileSync(path.join(dir, f), '{}'));
+        const first = writeScheduledExport({}, 'host', new Date('2024-01-01T12:00:00Z'));
+        const at = new Date(Date.now() - 60000);
+        fs.utimesSync(first, at, at);
+        writeScheduledExport({}, 'host', new Date('2024-01-03T12:00:00Z'));
+
+        assert.deepStrictEqual(fs.readdirSync(dir).sort(), [...unrelated, 'antigravity-stats-2024-01-03.json'].sort());
+    });
+
+    test('{time} is in the configured time zone', () => {
+        settings.set('antigravity.timezone', 'Asia/Tokyo');
+        settings.set('antigravity.autoExport.fileNameTemplate', 'stats-{date}-{time}.json');
+        const file = writeScheduledExport({}, 'host', new Date('2024-05-01T20:08:07Z'));
+        assert.strictEqual(path.basename(file), 'stats-2024-05-02-050807.json');
+    });
+
+    test('{time} minutes follow zones that are not a whole hour off', () => {
+        settings.set('antigravity.timezone', 'Asia/Kolkata');
+        settings.set('antigravity.autoExport.fileNameTemplate', 's-{date}-{time}.json');
+        const file = writeScheduledExport({}, 'host', new Date('2024-05-01T20:08:07Z'));
+        assert.strictEqual(path.basename(file), 's-2024-05-02-013807.json');
+    });
+});
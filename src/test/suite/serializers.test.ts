@@ -0,0 +1,11 @@
+import * as assert from 'assert';
+import { rowsToCsv } from '../../serializers';
+
+suite('serializers.rowsToCsv', () => {
+    test('quotes cells with commas, quotes or newlines and leaves others as they are', () => {
+        assert.strictEqual(
+            rowsToCsv([['Branch', 'Tokens'], ['feat/"quoted"', 10], ['a,b', 2], ['two\nlines', 0], [], ['plain', undefined]]),
+            'Branch,Tokens\n"feat/""quoted""",10\n"a,b",2\n"two\nlines",0\n\nplain,\n'
+        );
+    });
+});
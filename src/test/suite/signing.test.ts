@@ -0,0 +1,113 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as ts from 'typescript';
+import { canonicalJson, createExportSigner, createLazyExportSigner } from '../../signing';
+import { createTestContext, TestContext } from '../context';
+
+// The dashboard's verifier, compiled from its source so both sides are tested exactly as they ship
+function loadDashboardVerifier(): {
+    canonicalJson(value: unknown): string;
+    verifyExportSignature(raw: Record<string, unknown>): { integrity: string; signingKey?: string };
+} {
+    const file = path.join(__dirname, '..', '..', '..', 'dashboard', 'app', 'lib', 'signature.ts');
+    const js = ts.transpileModule(fs.readFileSync(file, 'utf8'), { compilerOptions: { module: ts.ModuleKind.CommonJS } }).outputText;
+    const exports = {};
+    new Function('exports', 'require', js)(exports, require);
+    return exports as ReturnType<typeof loadDashboardVerifier>;
+}
+
+const dashboard = loadDashboardVerifier();
+
+const SAMPLES: unknown[] = [
+    null, 0, -1.5, 1e21, 'text', 'quotes " and \\ and  ', true, [], {},
+    [1, undefined, 'a', null],
+    { b: 1, a: { d: [3, { z: 1, y: undefined }], c: 'x' }, e: undefined },
+    { 'é': 1, 'e': 2, 'E': 3, '10': 4, '9': 5 },
+    { usage: { '2024-01-01': { 'Gemini 3 Flash': 12 } }, tokenQuery: { '2024-01-01': { inputTokens: 2, outputTokens: 10, queries: {} } } }
+];
+
+suite('signing.canonicalJson', () => {
+    test('sorts keys at every level and drops undefined members', () => {
+        assert.strictEqual(canonicalJson({ b: 1, a: { d: 2, c: undefined }, e: [undefined] }), '{"a":{"d":2},"b":1,"e":[null]}');
+    });
+
+    test('encodes exactly like the dashboard', () => {
+        for (const sample of SAMPLES) {
+            assert.strictEqual(canonicalJson(sample), dashboard.canonicalJson(sample), JSON.stringify(sample));
+        }
+    });
+
+    test('does not depend on key order', () => {
+        assert.strictEqual(canonicalJson({ a: 1, b: { c: 2, d: 3 } }), canonicalJson({ b: { d: 3, c: 2 }, a: 1 }));
+    });
+});
+
+suite('signing.createExportSigner', () => {
+    let context: TestContext;
+    setup(() => { context = createTestContext(); });
+    teardown(() => context.cleanup());
+
+    test('exports it signs verify in the dashboard after a JSON round trip', async () => {
+        const signer = await createExportSigner(context);
+        for (const sample of SAMPLES.filter(s => s && typeof s === 'object' && !Array.isArray(s))) {
+            const received = JSON.parse(JSON.stringify(signer.sign(sample as object)));
+            assert.deepStrictEqual(dashboard.verifyExportSignature(received), { integrity: 'verified', signingKey: signer.publicKey });
+        }
+    });
+
+    test('the dashboard detects edited and unsigned exports', async () => {
+        const signer = await createExportSigner(context);
+        const signed = JSON.parse(JSON.stringify(signer.sign({ userId: 'u', usage: { '2024-01-01': { m: 10 } } })));
+
+        const edited = JSON.parse(JSON.stringify(signed));
+        edited.usage['2024-01-01'].m = 1000;
+        assert.strictEqual(dashboard.verifyExportSignature(edited).integrity, 'tampered');
+
+        const { signature, ...unsigned } = signed;
+        assert.ok(signature);
+        assert.strictEqual(dashboard.verifyExportSignature(unsigned).integrity, 'unsigned');
+    });
+
+    test('keeps its key across activations and re-signs signed payloads', async () => {
+        const first = await createExportSigner(context);
+        const second = await createExportSigner(context);
+        assert.strictEqual(second.publicKey, first.publicKey);
+
+        const resigned = JSON.parse(JSON.stringify(second.sign(first.sign({ a: 1 }))));
+        assert.strictEqual(dashboard.verifyExportSignature(resigned).integrity, 'verified');
+    });
+});
+
+suite('signing.createLazyExportSigner', () => {
+    let context: TestContext;
+    setup(() => { context = createTestContext(); });
+    teardown(() => context.cleanup());
+
+    test('does not touch the key until something is signed', async () => {
+        let reads = 0;
+        const get = context.secrets.get;
+        context.secrets.get = (key: string) => { reads++; return get(key); };
+        const signer = createLazyExportSigner(context, () => assert.fail('should sign'));
+        assert.strictEqual(reads, 0);
+
+        await signer.sign({ a: 1 });
+        await signer.sign({ a: 2 });
+        assert.strictEqual(reads, 1);
+    });
+
+    test('exports unsigned while the key is unavailable and retries on the next export', async () => {
+        const reasons: string[] = [];
+        const get = context.secrets.get;
+        context.secrets.get = async () => { throw new Error('no keyring'); };
+        const signer = createLazyExportSigner(context, reason => reasons.push(reason));
+
+        assert.deepStrictEqual(await signer.sign({ a: 1 }), { a: 1 });
+        assert.deepStrictEqual(reasons, ['no keyring']);
+
+        context.secrets.get = get;
+        const signed = JSON.parse(JSON.stringify(await signer.sign({ a: 1 })));
+        assert.strictEqual(dashboard.verifyExportSignature(signed).integrity, 'verified');
+        assert.strictEqual(reasons.length, 1);
+    });
+});
@@ -0,0 +1,60 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as path from 'path';
+import { settings } from '../vscode';
+import { createDeviceSync, DeviceStats, DeviceSync } from '../../sync';
+import { createTestContext, TestContext } from '../context';
+
+function stats(tokens: number): DeviceStats {
+    return {
+        usage: { '2024-01-01': { 'Gemini 3 Flash': tokens } },
+        tokenQuery: { '2024-01-01': { inputTokens: 0, outputTokens: tokens, queries: { Coding: 1 } } },
+        projects: {},
+        languages: {},
+        hourly: {},
+        changeSources: {}
+    };
+}
+
+suite('sync.createDeviceSync', () => {
+    let context: TestContext;
+    let folder: string;
+    let sync: DeviceSync | undefined;
+
+    setup(() => {
+        context = createTestContext();
+        folder = path.join(context.globalStorageUri.fsPath, 'shared');
+        settings.set('antigravity.sync.folder', folder);
+    });
+    teardown(() => {
+        sync?.dispose();
+        sync = undefined;
+        settings.delete('antigravity.sync.folder');
+        context.cleanup();
+    });
+
+    const writeShard = (deviceId: string, body: string) => {
+        fs.mkdirSync(folder, { recursive: true });
+        fs.writeFileSync(path.join(folder, `antigravity-usage-${deviceId}.json`), body);
+    };
+    const shard = (deviceId: string, rest: string) =>
+        `{"deviceId":"${deviceId}","hostname":"laptop","updatedAt":"2024-01-02T00:00:00.000Z",${rest}}`;
+
+    test('merges other devices\' shards', () => {
+        writeShard('other', JSON.stringify({ deviceId: 'other', hostname: 'laptop', updatedAt: '2024-01-02T00:00:00.000Z', ...stats(30) }));
+        sync = createDeviceSync(context, () => 'desktop', () => stats(10));
+
+        assert.strictEqual(sync.merge(stats(10)).tokenQuery['2024-01-01'].outputTokens, 40);
+        assert.deepStrictEqual(sync.getDevices(stats(10)).map(d => d.hostname), ['desktop', 'laptop']);
+    });
+
+    test('skips shards that are not stats this extension writes', () => {
+        writeShard('polluter', shard('polluter', '"usage":{},"tokenQuery":{"2024-01-01":{"inputTokens":0,"outputTokens":0,"queries":{"__proto__":{"polluted":7}}}}'));
+        writeShard('strings', shard('strings', '"usage":{"2024-01-01":{"Gemini 3 Flash":"10"}},"tokenQuery":{}'));
+        sync = createDeviceSync(context, () => 'desktop', () => stats(10));
+
+        assert.strictEqual(sync.hasRemoteDevices(), false);
+        sync.merge(stats(10));
+        assert.strictEqual(({} as any).polluted, undefined);
+    });
+});
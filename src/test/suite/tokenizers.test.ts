@@ -0,0 +1,40 @@
+import * as assert from 'assert';
+import { countTokens, disposeTokenizers, getTokenizer, preloadTokenizers, ESTIMATE_TOKENIZER_ID } from '../../tokenizers';
+import { ModelDefinition } from '../../models';
+
+const REGISTRY: ModelDefinition[] = [
+    { name: 'Claude', tokenizer: 'claude' },
+    { name: 'Gemini', tokenizer: 'gemini' },
+    { name: 'Typo', tokenizer: 'no-such-tokenizer' }
+];
+const TEXT = 'export function add(a: number, b: number) {\n    return a + b;\n}\n';
+
+suite('tokenizers', () => {
+    suiteTeardown(() => disposeTokenizers());
+
+    test('the Claude tokenizer is built once and counts like the package', async () => {
+        const { countTokens: packageCount } = require('@anthropic-ai/tokenizer');
+        assert.strictEqual(getTokenizer('claude'), getTokenizer('claude'));
+        assert.deepStrictEqual(await countTokens('Claude', TEXT, REGISTRY), { tokens: packageCount(TEXT), tokenizer: 'claude' });
+    });
+
+    test('models without a known tokenizer are estimated', async () => {
+        assert.deepStrictEqual(await countTokens('Typo', 'abcdefgh', REGISTRY), { tokens: 2, tokenizer: ESTIMATE_TOKENIZER_ID });
+        assert.deepStrictEqual(await countTokens('Unregistered', '日本語', REGISTRY), { tokens: 3, tokenizer: ESTIMATE_TOKENIZER_ID });
+    });
+
+    test('Gemini is estimated until its worker has built the vocabulary', async function () {
+        this.timeout(60000);
+        preloadTokenizers(REGISTRY);
+        const early = await countTokens('Gemini', TEXT, REGISTRY);
+        assert.strictEqual(early.tokenizer, ESTIMATE_TOKENIZER_ID);
+
+        const deadline = Date.now() + 55000;
+        while (getTokenizer('gemini').id !== 'gemini' && Date.now() < deadline) {
+            await new Promise(resolve => setTimeout(resolve, 100));
+        }
+        const counted = await countTokens('Gemini', TEXT, REGISTRY);
+        assert.strictEqual(counted.tokenizer, 'gemini');
+        assert.ok(counted.tokens > 5 && counted.tokens < TEXT.length, String(counted.tokens));
+    });
+});
@@ -0,0 +1,55 @@
+import * as assert from 'assert';
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import { settings } from '../vscode';
+import { createUploader, Uploader, UPLOAD_TOKEN_SECRET } from '../../upload';
+import { createTestContext, TestContext } from '../context';
+
+suite('upload.createUploader', () => {
+    let context: TestContext;
+    let uploader: Uploader | undefined;
+    let server: http.Server | undefined;
+
+    setup(async () => {
+        context = createTestContext();
+        await context.secrets.store(UPLOAD_TOKEN_SECRET, 'secret-token');
+    });
+    teardown(async () => {
+        uploader?.dispose();
+        uploader = undefined;
+        settings.delete('antigravity.upload.url');
+        if (server) await new Promise(resolve => server!.close(resolve));
+        server = undefined;
+        context.cleanup();
+    });
+
+    // Local dashboard recording the Authorization header of every upload
+    const startServer = () => new Promise<{ port: number; tokens: string[] }>(resolve => {
+        const tokens: string[] = [];
+        server = http.createServer((req, res) => {
+            tokens.push(String(req.headers.authorization));
+            req.resume();
+            req.on('end', () => res.end());
+        });
+        server.listen(0, '127.0.0.1', () => resolve({ port: (server!.address() as AddressInfo).port, tokens }));
+    });
+
+    test('sends the token over http to this machine', async () => {
+        const dashboard = await startServer();
+        settings.set('antigravity.upload.url', `http://127.0.0.1:${dashboard.port}/api/users`);
+        uploader = createUploader(context, async () => ({}));
+
+        const status = await uploader.upload({ usage: {} });
+        assert.strictEqual(status.lastError, undefined);
+        assert.deepStrictEqual(dashboard.tokens, ['Bearer secret-token']);
+    });
+
+    test('refuses to send the token over http to another host', async () => {
+        settings.set('antigravity.upload.url', 'http://dashboard.example/api/users');
+        uploader = createUploader(context, async () => ({}));
+
+        const status = await uploader.upload({ usage: {} });
+        assert.match(status.lastError || '', /only sent over https/);
+        assert.strictEqual(status.pending, 0);
+    });
+});
@@ -0,0 +1,111 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as path from 'path';
+import { UsageEvent, USAGE_STORAGE_KEY, TOKEN_QUERY_STORAGE_KEY, CHANGE_SOURCE_STORAGE_KEY, TokenQueryStats } from '../../stats';
+import { getJournalDir, readEvents } from '../../journal';
+import { createUsageBuffer, recoverOrphanedBuffers, UsageBuffer } from '../../usageBuffer';
+import { createTestContext, TestContext } from '../context';
+import { env } from '../vscode';
+
+function event(ts: string, outputTokens = 10): UsageEvent {
+    return { ts, date: '2024-05-01', hour: 9, model: 'm', chars: 40, inputTokens: 0, outputTokens, source: 'estimated', tokenizer: 'estimate' };
+}
+
+suite('usageBuffer', () => {
+    let context: TestContext;
+    const buffers: UsageBuffer[] = [];
+    const open = (sessionId: string) => {
+        env.sessionId = sessionId;
+        const buffer = createUsageBuffer(context, () => undefined, 60 * 60 * 1000);
+        buffers.push(buffer);
+        return buffer;
+    };
+    const dayTokens = () => (context.globalState.get(TOKEN_QUERY_STORAGE_KEY) as TokenQueryStats)['2024-05-01'].outputTokens;
+
+    setup(() => { context = createTestContext(); });
+    teardown(() => {
+        buffers.splice(0).forEach(b => b.dispose());
+        env.sessionId = 'test-session';
+        context.cleanup();
+    });
+
+    test('windows flushing in turn keep each other\'s totals', async () => {
+        const first = open('window-1');
+        const second = open('window-2');
+        first.addEvent(event('2024-05-01T09:00:00.000Z', 10));
+        second.addEvent(event('2024-05-01T09:01:00.000Z', 20));
+        second.addChangeSource('2024-05-01', 'ai', 40);
+        await first.flush();
+        await second.flush();
+        first.addEvent(event('2024-05-01T09:02:00.000Z', 30));
+        await first.flush();
+
+        assert.strictEqual(dayTokens(), 60);
+        assert.deepStrictEqual(context.globalState.get(USAGE_STORAGE_KEY), { '2024-05-01': { m: 60 } });
+        assert.strictEqual(readEvents(context).length, 3);
+        // Each window's view includes what the other flushed before it
+        assert.strictEqual(first.getRollups().tokenQuery['2024-05-01'].outputTokens, 60);
+        assert.deepStrictEqual(first.getChangeSources()['2024-05-01'].ai, { changes: 1, chars: 40 });
+    });
+
+    test('a failed save never journals the batch twice', async () => {
+        const buffer = open('window-1');
+        const update = context.globalState.update;
+        let failures = 1;
+        context.globalState.update = async (key: string, value: unknown) => {
+            if (key === TOKEN_QUERY_STORAGE_KEY && failures-- > 0) throw new Error('disk full');
+            return update(key, value);
+        };
+
+        buffer.addEvent(event('2024-05-01T09:00:00.000Z', 10));
+        buffer.addChangeSource('2024-05-01', 'ai', 40);
+        await buffer.flush();
+        assert.strictEqual(readEvents(context).length, 1);
+        assert.strictEqual(context.globalState.get(CHANGE_SOURCE_STORAGE_KEY), undefined);
+
+        buffer.addEvent(event('2024-05-01T09:01:00.000Z', 5));
+        await buffer.flush();
+
+        assert.strictEqual(readEvents(context).length, 2);
+        assert.strictEqual(dayTokens(), 15);
+        assert.deepStrictEqual((context.globalState.get(CHANGE_SOURCE_STORAGE_KEY) as any)['2024-05-01'].ai, { changes: 1, chars: 40 });
+        assert.strictEqual(buffer.getRollups().tokenQuery['2024-05-01'].outputTokens, 15);
+    });
+
+    test('recovery does not journal entries a crashed window already journaled', async () => {
+        const buffer = open('window-1');
+        const update = context.globalState.update;
+        context.globalState.update = async () => { throw new Error('disk full'); };
+        buffer.addEvent(event('2024-05-01T09:00:00.000Z', 10));
+        buffer.addEvent(event('2024-05-01T09:01:00.000Z', 20));
+        await buffer.flush();
+        context.globalState.update = update;
+
+        // The window dies here; its log is picked up once it is old enough
+        const wal = path.join(getJournalDir(context), 'buffer-window-1.wal');
+        const old = new Date(Date.now() - 10 * 60 * 1000);
+        fs.utimesSync(wal, old, old);
+        env.sessionId = 'window-2';
+        assert.strictEqual(await recoverOrphanedBuffers(context), 2);
+
+        assert.strictEqual(readEvents(context).length, 2);
+        assert.strictEqual(dayTokens(), 30);
+        assert.ok(!fs.existsSync(wal));
+    });
+
+    test('recovery replays entries that never reached the journal', async () => {
+        const buffer = open('window-1');
+        buffer.addEvent(event('2024-05-01T09:00:00.000Z', 10));
+        buffer.addChangeSource('2024-05-01', 'paste', 100);
+
+        const wal = path.join(getJournalDir(context), 'buffer-window-1.wal');
+        const old = new Date(Date.now() - 10 * 60 * 1000);
+        fs.utimesSync(wal, old, old);
+        env.sessionId = 'window-2';
+        assert.strictEqual(await recoverOrphanedBuffers(context), 2);
+
+        assert.strictEqual(readEvents(context).length, 1);
+        assert.strictEqual(dayTokens(), 10);
+        assert.deepStrictEqual((context.globalState.get(CHANGE_SOURCE_STORAGE_KEY) as any)['2024-05-01'].paste, { changes: 1, chars: 100 });
+    });
+});
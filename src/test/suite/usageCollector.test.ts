@@ -0,0 +1,91 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as path from 'path';
+import { parseUserStatus, pollUsage } from '../../usageCollector';
+import { LanguageServerClient, UserStatusResponse } from '../../languageServer';
+import { UsageEvent } from '../../stats';
+import { createTestContext, TestContext } from '../context';
+
+// Server whose Gemini counters are whatever `counters.output` is when it answers, after `delayMs`
+function fakeServer(counters: { output: number }, delayMs = 0): LanguageServerClient {
+    return {
+        async getUserStatus(): Promise<UserStatusResponse> {
+            await new Promise(resolve => setTimeout(resolve, delayMs));
+            return { userStatus: { cascadeModelConfigData: { clientModelConfigs: [{ label: 'Gemini 3 Flash', usage: { inputTokens: '0', outputTokens: String(counters.output) } }] } } };
+        },
+        connect: async () => { throw new Error('not used'); },
+        reset: () => undefined
+    };
+}
+
+suite('usageCollector.parseUserStatus', () => {
+    test('reads counters sent as strings or numbers, and the quota', () => {
+        const [status] = parseUserStatus({ userStatus: { cascadeModelConfigData: { clientModelConfigs: [{
+            label: 'Gemini 3 Flash',
+            usage: { inputTokens: '120', outputTokens: 480 },
+            quotaInfo: { remainingFraction: 0.25, resetTime: '2024-01-02T00:00:00Z' }
+        }] } } });
+
+        assert.strictEqual(status.model, 'Gemini 3 Flash');
+        assert.deepStrictEqual(status.counters, { inputTokens: 120, outputTokens: 480 });
+        assert.strictEqual(status.quota?.remainingFraction, 0.25);
+        assert.strictEqual(status.quota?.resetTime, '2024-01-02T00:00:00Z');
+    });
+
+    test('skips models without a name and tolerates an empty response', () => {
+        assert.deepStrictEqual(parseUserStatus({ userStatus: { cascadeModelConfigData: { clientModelConfigs: [{ usage: { inputTokens: 1 } }] } } }), []);
+        assert.deepStrictEqual(parseUserStatus({}), []);
+    });
+});
+
+suite('usageCollector.pollUsage', () => {
+    let context: TestContext;
+    let events: UsageEvent[];
+    const record = (event: UsageEvent) => { events.push(event); };
+    const journaled = () => events.reduce((a, e) => a + e.outputTokens, 0);
+
+    setup(() => {
+        context = createTestContext();
+        events = [];
+    });
+    teardown(() => context.cleanup());
+
+    test('journals the growth of the counters since the previous poll', async () => {
+        const counters = { output: 100 };
+        const client = fakeServer(counters);
+        assert.strictEqual(await pollUsage(context, client, record), true);
+        assert.strictEqual(events.length, 0);
+
+        counters.output = 130;
+        await pollUsage(context, client, record);
+        counters.output = 10;
+        await pollUsage(context, client, record);
+        assert.deepStrictEqual(events.map(e => e.outputTokens), [30, 10]);
+    });
+
+    test('windows polling at the same time journal each delta once', async () => {
+        const counters = { output: 100 };
+        await pollUsage(context, fakeServer(counters), record);
+        counters.output = 150;
+
+        // Two windows share the global storage; the second finds the first one polling
+        const [first, second] = await Promise.all([
+            pollUsage(context, fakeServer(counters, 20), record),
+            pollUsage(context, fakeServer(counters, 20), record)
+        ]);
+        assert.deepStrictEqual([first, second], [true, false]);
+        await pollUsage(context, fakeServer(counters), record);
+        assert.strictEqual(journaled(), 50);
+    });
+
+    test('a lock left by a window that died mid-poll is taken over', async () => {
+        const lock = path.join(context.globalStorageUri.fsPath, 'measured-counters.lock');
+        fs.writeFileSync(lock, '');
+        assert.strictEqual(await pollUsage(context, fakeServer({ output: 1 }), record), false);
+
+        const old = new Date(Date.now() - 5 * 60 * 1000);
+        fs.utimesSync(lock, old, old);
+        assert.strictEqual(await pollUsage(context, fakeServer({ output: 1 }), record), true);
+        assert.ok(!fs.existsSync(lock));
+    });
+});
@@ -0,0 +1,74 @@
+// Stand-in for the parts of the 'vscode' module the tested modules touch, so their logic runs in plain Node.
+// setup.ts resolves `require('vscode')` to this file.
+
+// Settings by full key ('antigravity.timezone'); tests set and clear them
+export const settings = new Map<string, unknown>();
+
+type Listener<T> = (e: T) => any;
+
+export class Disposable {
+    constructor(private readonly callOnDispose: () => void) {}
+    dispose() {
+        this.callOnDispose();
+    }
+}
+
+export class EventEmitter<T> {
+    private listeners: Listener<T>[] = [];
+    event = (listener: Listener<T>) => {
+        this.listeners.push(listener);
+        return new Disposable(() => { this.listeners = this.listeners.filter(l => l !== listener); });
+    };
+    fire(e: T) {
+        for (const listener of this.listeners) listener(e);
+    }
+    dispose() {
+        this.listeners = [];
+    }
+}
+
+const noEvent = () => new Disposable(() => undefined);
+
+export const Uri = {
+    file: (fsPath: string) => ({ scheme: 'file', fsPath, path: fsPath, toString: () => `file://${fsPath}` })
+};
+
+export const workspace = {
+    isTrusted: true,
+    workspaceFolders: undefined as { uri: { fsPath: string }; name: string; index: number }[] | undefined,
+    getConfiguration(section?: string) {
+        const full = (key: string) => section ? `${section}.${key}` : key;
+        return {
+            get<T>(key: string, defaultValue?: T): T | undefined {
+                return settings.has(full(key)) ? settings.get(full(key)) as T : defaultValue;
+            },
+            has: (key: string) => settings.has(full(key)),
+            async update(key: string, value: unknown) {
+                settings.set(full(key), value);
+            }
+        };
+    },
+    getWorkspaceFolder(uri: { fsPath: string }) {
+        return workspace.workspaceFolders?.find(f => uri.fsPath === f.uri.fsPath || uri.fsPath.startsWith(f.uri.fsPath + '/'));
+    },
+    createFileSystemWatcher: () => ({ onDidChange: noEvent, onDidCreate: noEvent, onDidDelete: noEvent, dispose: () => undefined }),
+    onDidChangeConfiguration: noEvent,
+    onDidGrantWorkspaceTrust: noEvent
+};
+
+export const window = {
+    activeTextEditor: undefined,
+    showInformationMessage: async () => undefined,
+    showWarningMessage: async () => undefined,
+    showErrorMessage: async () => undefined,
+    onDidChangeWindowState: noEvent
+};
+
+export const env = {
+    sessionId: 'test-session',
+    appName: 'Visual Studio Code'
+};
+
+export const extensions = {
+    getExtension: () => undefined
+};
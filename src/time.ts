@@ -0,0 +1,69 @@
+import * as vscode from 'vscode';
+
+// Time zone the stored day keys were bucketed in. Missing means UTC (everything before this setting).
+export const DAY_BUCKET_TIMEZONE_KEY = 'antigravity.dayBucketTimeZone';
+
+function isValidTimeZone(timeZone: string): boolean {
+    try {
+        new Intl.DateTimeFormat('en-US', { timeZone });
+        return true;
+    } catch (e) {
+        return false;
+    }
+}
+
+/**
+ * IANA time zone for day and hour buckets: `antigravity.timezone`, else the system zone.
+ */
+export function getTimeZone(): string {
+    const configured = vscode.workspace.getConfiguration('antigravity').get<string>('timezone', '').trim();
+    if (configured && isValidTimeZone(configured)) return configured;
+    if (configured) console.log('Antigravity Monitor: Unknown timezone', configured, '- using system timezone');
+    return Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+}
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function getParts(date: Date, timeZone: string): { [type: string]: string } {
+    let formatter = formatters.get(timeZone);
+    if (!formatter) {
+        formatter = new Intl.DateTimeFormat('en-US', {
+            timeZone, year: 'numeric', month: '2-digit', day: '2-digit', hour: '2-digit', minute: '2-digit', second: '2-digit', hourCycle: 'h23'
+        });
+        formatters.set(timeZone, formatter);
+    }
+    const parts: { [type: string]: string } = {};
+    for (const p of formatter.formatToParts(date)) parts[p.type] = p.value;
+    return parts;
+}
+
+/**
+ * 'YYYY-MM-DD' for `date` in the bucket time zone.
+ */
+export function toDateKey(date: Date = new Date(), timeZone: string = getTimeZone()): string {
+    const p = getParts(date, timeZone);
+    return `${p.year}-${p.month}-${p.day}`;
+}
+
+/**
+ * Hour of day (0-23) for `date` in the bucket time zone.
+ */
+export function toHour(date: Date = new Date(), timeZone: string = getTimeZone()): number {
+    return parseInt(getParts(date, timeZone).hour, 10) % 24;
+}
+
+/**
+ * 'HHMMSS' for `date` in the bucket time zone.
+ */
+export function toTimeKey(date: Date = new Date(), timeZone: string = getTimeZone()): string {
+    const p = getParts(date, timeZone);
+    return [String(parseInt(p.hour, 10) % 24), p.minute, p.second].map(v => v.padStart(2, '0')).join('');
+}
+
+/**
+ * 'YYYY-MM-DD' for `days` days before today in the bucket time zone.
+ */
+export function daysAgoKey(days: number, timeZone: string = getTimeZone()): string {
+    const [y, m, d] = toDateKey(new Date(), timeZone).split('-').map(Number);
+    return new Date(Date.UTC(y, m - 1, d - days)).toISOString().slice(0, 10);
+}
@@ -0,0 +1,20 @@
+import { parentPort, workerData } from 'worker_threads';
+
+// Runs in a worker thread (see tokenizers.ts): builds one vocabulary, then answers count requests
+
+const builders: { [id: string]: () => (text: string) => number } = {
+    'gemini': () => {
+        const tokenizer = require('@lenml/tokenizer-gemini').fromPreTrained();
+        return (text) => tokenizer.encode(text).length;
+    }
+};
+
+const count = builders[workerData.id]();
+parentPort!.postMessage({ ready: true });
+parentPort!.on('message', ({ seq, text }: { seq: number; text: string }) => {
+    try {
+        parentPort!.postMessage({ seq, tokens: count(text) });
+    } catch (e: any) {
+        parentPort!.postMessage({ seq, error: e?.message || String(e) });
+    }
+});
@@ -0,0 +1,155 @@
+import * as path from 'path';
+import { Worker } from 'worker_threads';
+import { getModelRegistry, ModelDefinition } from './models';
+
+export interface Tokenizer {
+    id: string;
+    // Background tokenizers answer asynchronously, with null when they could not count in time
+    count(text: string): number | Promise<number | null>;
+}
+
+// Id recorded for counts made before tokenizers existed (Math.ceil(chars / 4))
+export const LEGACY_TOKENIZER_ID = 'chars/4';
+export const ESTIMATE_TOKENIZER_ID = 'estimate';
+
+// CJK ideographs, kana and hangul are roughly one token per character in every vocabulary we ship
+const CJK_PATTERN = /[぀-ヿ㐀-䶿一-鿿가-힯豈-﫿]/g;
+
+function estimate(text: string): number {
+    const cjk = (text.match(CJK_PATTERN) || []).length;
+    return cjk + Math.ceil((text.length - cjk) / 4);
+}
+
+const estimator: Tokenizer = { id: ESTIMATE_TOKENIZER_ID, count: estimate };
+
+// Vocabularies are bundled npm packages and load lazily, once
+const loaders: { [id: string]: () => Tokenizer } = {
+    'o200k': () => {
+        const enc = require('gpt-tokenizer/encoding/o200k_base');
+        return { id: 'o200k', count: (text) => enc.countTokens(text) };
+    },
+    'claude': () => {
+        // The package's countTokens builds a new tokenizer on every call; build one and keep it
+        const tokenizer = require('@anthropic-ai/tokenizer').getTokenizer();
+        return { id: 'claude', count: (text) => tokenizer.encode(text.normalize('NFKC'), 'all').length };
+    },
+    [ESTIMATE_TOKENIZER_ID]: () => estimator
+};
+
+// Vocabularies that take seconds to build. They are built in a worker thread (tokenizerWorker.ts)
+// so the extension host never waits, and their models are estimated until the worker is ready.
+const BACKGROUND_TOKENIZER_IDS = ['gemini'];
+// A count the worker hasn't answered by then is estimated instead
+const BACKGROUND_COUNT_TIMEOUT_MS = 2000;
+
+export const TOKENIZER_IDS = [...Object.keys(loaders), ...BACKGROUND_TOKENIZER_IDS];
+
+interface BackgroundTokenizer {
+    // Set once the worker has built the vocabulary
+    tokenizer?: Tokenizer;
+    worker?: Worker;
+}
+
+const loaded = new Map<string, Tokenizer>();
+const background = new Map<string, BackgroundTokenizer>();
+
+function startBackgroundTokenizer(id: string): BackgroundTokenizer {
+    const state: BackgroundTokenizer = {};
+    background.set(id, state);
+    const requests = new Map<number, { resolve: (tokens: number | null) => void; timer: NodeJS.Timeout }>();
+    let seq = 0;
+
+    const answer = (n: number, tokens: number | null) => {
+        const request = requests.get(n);
+        if (!request) return;
+        requests.delete(n);
+        clearTimeout(request.timer);
+        request.resolve(tokens);
+    };
+    const fail = (reason: string) => {
+        console.log(`Antigravity Monitor: Tokenizer '${id}' unavailable, using estimate:`, reason);
+        state.tokenizer = undefined;
+        state.worker = undefined;
+        Array.from(requests.keys()).forEach(n => answer(n, null));
+    };
+
+    try {
+        const worker = new Worker(path.join(__dirname, 'tokenizerWorker.js'), { workerData: { id } });
+        // Never keep the extension host alive just for the tokenizer
+        worker.unref();
+        state.worker = worker;
+        worker.on('message', (message: { ready?: boolean; seq?: number; tokens?: number }) => {
+            if (!message.ready) return answer(message.seq!, message.tokens ?? null);
+            state.tokenizer = {
+                id,
+                count: (text) => new Promise(resolve => {
+                    const n = seq++;
+                    requests.set(n, { resolve, timer: setTimeout(() => answer(n, null), BACKGROUND_COUNT_TIMEOUT_MS) });
+                    worker.postMessage({ seq: n, text });
+                })
+            };
+            console.log(`Antigravity Monitor: Tokenizer '${id}' ready`);
+        });
+        worker.on('error', (e) => fail(e.message));
+        worker.on('exit', (code) => { if (state.worker === worker) fail(`worker exited with code ${code}`); });
+    } catch (e: any) {
+        fail(e?.message || String(e));
+    }
+    return state;
+}
+
+/**
+ * Get a tokenizer by id. Unknown ids, vocabularies that fail to load, and vocabularies still
+ * loading in the background fall back to the estimator.
+ */
+export function getTokenizer(id: string | undefined): Tokenizer {
+    if (id && BACKGROUND_TOKENIZER_IDS.includes(id)) {
+        return (background.get(id) || startBackgroundTokenizer(id)).tokenizer || estimator;
+    }
+    const key = id && loaders[id] ? id : ESTIMATE_TOKENIZER_ID;
+    let tokenizer = loaded.get(key);
+    if (!tokenizer) {
+        try {
+            tokenizer = loaders[key]();
+        } catch (e: any) {
+            console.log(`Antigravity Monitor: Tokenizer '${key}' unavailable, using estimate:`, e?.message || e);
+            tokenizer = estimator;
+        }
+        loaded.set(key, tokenizer);
+    }
+    return tokenizer;
+}
+
+/**
+ * Count tokens for text produced by `model`, using the tokenizer its registry entry selects.
+ */
+export async function countTokens(model: string, text: string, registry: ModelDefinition[] = getModelRegistry()): Promise<{ tokens: number; tokenizer: string }> {
+    const entry = registry.find(m => m.name === model);
+    const tokenizer = getTokenizer(entry?.tokenizer);
+    try {
+        const tokens = await tokenizer.count(text);
+        if (tokens !== null) return { tokens, tokenizer: tokenizer.id };
+    } catch (e) { /* fall through to the estimate */ }
+    return { tokens: estimate(text), tokenizer: estimator.id };
+}
+
+/**
+ * Start building the background vocabularies the model registry uses, so they are usually ready by the first insertion.
+ */
+export function preloadTokenizers(registry: ModelDefinition[] = getModelRegistry()) {
+    for (const id of BACKGROUND_TOKENIZER_IDS) {
+        if (!background.has(id) && registry.some(m => m.tokenizer === id)) startBackgroundTokenizer(id);
+    }
+}
+
+/**
+ * Stop the background tokenizer workers (on deactivate).
+ */
+export function disposeTokenizers() {
+    for (const state of background.values()) {
+        const worker = state.worker;
+        state.worker = undefined;
+        worker?.terminate();
+    }
+    background.clear();
+}
@@ -0,0 +1,243 @@
+import * as vscode from 'vscode';
+import * as http from 'http';
+import * as https from 'https';
+import * as crypto from 'crypto';
+
+// Bearer token for the dashboard, kept in SecretStorage (never in settings)
+export const UPLOAD_TOKEN_SECRET = 'antigravity.uploadToken';
+const UPLOAD_QUEUE_KEY = 'antigravity.uploadQueue';
+const UPLOAD_STATUS_KEY = 'antigravity.uploadStatus';
+const LAST_SCHEDULED_UPLOAD_KEY = 'antigravity.lastScheduledUpload';
+
+const REQUEST_TIMEOUT_MS = 15000;
+const RETRY_BASE_MS = 30 * 1000;
+const RETRY_MAX_MS = 60 * 60 * 1000;
+const SCHEDULE_CHECK_MS = 5 * 60 * 1000;
+const SCHEDULE_INTERVALS_MS: { [schedule: string]: number } = { hourly: 60 * 60 * 1000, daily: 24 * 60 * 60 * 1000 };
+
+interface QueuedUpload {
+    id: string;
+    url: string;
+    queuedAt: string;
+    attempts: number;
+    nextAttemptAt: string;
+    payload: object;
+}
+
+export interface UploadStatus {
+    lastSuccessAt?: string;
+    lastError?: string;
+    lastErrorAt?: string;
+    pending: number;
+    nextAttemptAt?: string;
+}
+
+export interface Uploader extends vscode.Disposable {
+    // Queue `payload` (by default a snapshot from the payload provider) and try to send everything due.
+    // Resolves once the attempt is over.
+    upload(payload?: object): Promise<UploadStatus>;
+    getStatus(): UploadStatus;
+    onDidChangeStatus: vscode.Event<UploadStatus>;
+}
+
+export function getUploadUrl(): string | undefined {
+    return vscode.workspace.getConfiguration('antigravity').get<string>('upload.url', '').trim() || undefined;
+}
+
+// The token must not travel in clear text: https, or plain http only to this machine
+function canSendToken(url: string): boolean {
+    try {
+        const target = new URL(url);
+        return target.protocol === 'https:' || (target.protocol === 'http:' && ['localhost', '127.0.0.1', '[::1]'].includes(target.hostname));
+    } catch {
+        return false;
+    }
+}
+
+// Network errors, timeouts, 408, 429 and 5xx are worth retrying; other statuses won't change on their own
+function isRetryable(status: number): boolean {
+    return status === 408 || status === 429 || status >= 500;
+}
+
+function backoffMs(attempts: number): number {
+    const delay = Math.min(RETRY_BASE_MS * Math.pow(2, attempts - 1), RETRY_MAX_MS);
+    return Math.round(delay * (0.8 + Math.random() * 0.4));
+}
+
+/**
+ * POST `body` as JSON. Resolves with the HTTP status; rejects on network errors and timeouts.
+ */
+function postJson(url: string, body: string, token: string | undefined, uploadId: string): Promise<number> {
+    return new Promise<number>((resolve, reject) => {
+        const target = new URL(url);
+        const headers: http.OutgoingHttpHeaders = {
+            'Content-Type': 'application/json',
+            'Content-Length': Buffer.byteLength(body),
+            // Lets the server ignore a retry of an upload it already stored
+            'Idempotency-Key': uploadId
+        };
+        if (token) headers['Authorization'] = `Bearer ${token}`;
+        const req = (target.protocol === 'http:' ? http : https).request(target, { method: 'POST', headers, timeout: REQUEST_TIMEOUT_MS }, (res) => {
+            res.resume();
+            res.on('end', () => resolve(res.statusCode || 0));
+        });
+        req.on('error', reject);
+        req.on('timeout', () => req.destroy(new Error(`No response within ${REQUEST_TIMEOUT_MS / 1000}s`)));
+        req.write(body);
+        req.end();
+    });
+}
+
+/**
+ * Upload export snapshots to `antigravity.upload.url`. Snapshots are queued in globalState, so
+ * uploads made while offline (or while the dashboard is down) are retried with exponential backoff,
+ * across restarts. Each snapshot holds all history, so a newer one replaces any still queued for the same URL.
+ */
+export function createUploader(context: vscode.ExtensionContext, getPayload: () => Promise<object>): Uploader {
+    const emitter = new vscode.EventEmitter<UploadStatus>();
+    let retryTimer: NodeJS.Timeout | undefined;
+    let running: Promise<void> | undefined;
+
+    const getQueue = () => context.globalState.get<QueuedUpload[]>(UPLOAD_QUEUE_KEY, []);
+
+    // Pending count and next attempt come from the queue; the rest is stored
+    type StoredStatus = Pick<UploadStatus, 'lastSuccessAt' | 'lastError' | 'lastErrorAt'>;
+
+    function getStatus(): UploadStatus {
+        const queue = getQueue();
+        const stored = context.globalState.get<StoredStatus>(UPLOAD_STATUS_KEY, {});
+        return { ...stored, pending: queue.length, nextAttemptAt: queue[0]?.nextAttemptAt };
+    }
+
+    async function updateStatus(change: StoredStatus) {
+        const stored = context.globalState.get<StoredStatus>(UPLOAD_STATUS_KEY, {});
+        await context.globalState.update(UPLOAD_STATUS_KEY, { ...stored, ...change });
+        emitter.fire(getStatus());
+    }
+
+    function scheduleRetry() {
+        if (retryTimer) clearTimeout(retryTimer);
+        retryTimer = undefined;
+        const next = getQueue()[0];
+        if (!next) return;
+        retryTimer = setTimeout(() => { processQueue(); }, Math.max(0, Date.parse(next.nextAttemptAt) - Date.now()));
+    }
+
+    async function sendDue() {
+        const token = await context.secrets.get(UPLOAD_TOKEN_SECRET);
+        let queue = getQueue();
+        while (queue.length > 0 && Date.parse(queue[0].nextAttemptAt) <= Date.now()) {
+            const item = queue[0];
+            if (token && !canSendToken(item.url)) {
+                console.log('Antigravity Monitor: Not sending the upload token to', item.url);
+                await updateStatus({ lastError: 'The upload token is only sent over https (or http to localhost); change antigravity.upload.url', lastErrorAt: new Date().toISOString() });
+                queue = getQueue().filter(q => q.id !== item.id);
+                await context.globalState.update(UPLOAD_QUEUE_KEY, queue);
+                continue;
+            }
+            try {
+                const status = await postJson(item.url, JSON.stringify(item.payload), token, item.id);
+                if (status >= 200 && status < 300) {
+                    console.log('Antigravity Monitor: Uploaded stats to', item.url);
+                    await updateStatus({ lastSuccessAt: new Date().toISOString(), lastError: undefined, lastErrorAt: undefined });
+                } else if (isRetryable(status)) {
+                    throw new Error(`Dashboard responded with HTTP ${status}`);
+                } else {
+                    // Retrying won't help; drop it and report why
+                    const hint = status === 401 || status === 403 ? ' (check the upload token)' : '';
+                    console.log('Antigravity Monitor: Upload rejected with HTTP', status);
+                    await updateStatus({ lastError: `Dashboard rejected the upload with HTTP ${status}${hint}`, lastErrorAt: new Date().toISOString() });
+                }
+                queue = getQueue().filter(q => q.id !== item.id);
+            } catch (e: any) {
+                // Re-read: a newer snapshot may have been queued (replacing this one) while the request was out
+                const current = getQueue();
+                const entry = current.find(q => q.id === item.id);
+                if (entry) {
+                    entry.attempts++;
+                    entry.nextAttemptAt = new Date(Date.now() + backoffMs(entry.attempts)).toISOString();
+                    await context.globalState.update(UPLOAD_QUEUE_KEY, current);
+                }
+                console.log('Antigravity Monitor: Upload failed, retry at', entry?.nextAttemptAt, '-', e?.message || e);
+                await updateStatus({ lastError: e?.message || String(e), lastErrorAt: new Date().toISOString() });
+                return;
+            }
+            await context.globalState.update(UPLOAD_QUEUE_KEY, queue);
+        }
+    }
+
+    function processQueue(): Promise<void> {
+        // One sender at a time; callers share the running attempt
+        if (!running) {
+            running = sendDue()
+                .catch(e => console.log('Antigravity Monitor: Upload queue failed:', e?.message || e))
+                .finally(() => {
+                    running = undefined;
+                    scheduleRetry();
+                    emitter.fire(getStatus());
+                });
+        }
+        return running;
+    }
+
+    async function upload(payload?: object): Promise<UploadStatus> {
+        const url = getUploadUrl();
+        if (!url) throw new Error('No dashboard URL configured (antigravity.upload.url)');
+        const snapshot = payload || await getPayload();
+        const now = new Date().toISOString();
+        const queue = getQueue().filter(q => q.url !== url);
+        queue.unshift({ id: crypto.randomUUID(), url, queuedAt: now, attempts: 0, nextAttemptAt: now, payload: snapshot });
+        await context.globalState.update(UPLOAD_QUEUE_KEY, queue);
+        await running;
+        await processQueue();
+        return getStatus();
+    }
+
+    // Scheduled uploads (antigravity.upload.schedule), caught up on startup when one was missed
+    async function uploadIfDue() {
+        const interval = SCHEDULE_INTERVALS_MS[vscode.workspace.getConfiguration('antigravity').get<string>('upload.schedule', 'off')];
+        if (!interval || !getUploadUrl()) return;
+        const last = context.globalState.get<string>(LAST_SCHEDULED_UPLOAD_KEY);
+        if (last && Date.now() - Date.parse(last) < interval) return;
+        await context.globalState.update(LAST_SCHEDULED_UPLOAD_KEY, new Date().toISOString());
+        try {
+            await upload();
+        } catch (e: any) {
+            console.log('Antigravity Monitor: Scheduled upload failed:', e?.message || e);
+        }
+    }
+    const scheduleTimer = setInterval(uploadIfDue, SCHEDULE_CHECK_MS);
+    uploadIfDue();
+    processQueue();
+
+    return {
+        upload,
+        getStatus,
+        onDidChangeStatus: emitter.event,
+        dispose() {
+            clearInterval(scheduleTimer);
+            if (retryTimer) clearTimeout(retryTimer);
+            emitter.dispose();
+        }
+    };
+}
+
+/**
+ * Prompt for the dashboard bearer token and store it in SecretStorage. An empty value removes it.
+ */
+export async function promptForUploadToken(context: vscode.ExtensionContext): Promise<void> {
+    const token = await vscode.window.showInputBox({
+        title: 'Dashboard Upload Token',
+        prompt: 'Bearer token sent with uploads to antigravity.upload.url. Leave empty to remove the stored token.',
+        password: true,
+        ignoreFocusOut: true
+    });
+    if (token === undefined) return;
+    if (token.trim()) {
+        await context.secrets.store(UPLOAD_TOKEN_SECRET, token.trim());
+        vscode.window.showInformationMessage('Dashboard upload token saved.');
+    } else {
+        await context.secrets.delete(UPLOAD_TOKEN_SECRET);
+        vscode.window.showInformationMessage('Dashboard upload token removed.');
+    }
+}
@@ -0,0 +1,279 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import {
+    UsageEvent, UsageRollups, ChangeSource, ChangeSourceStats,
+    DailyStats, TokenQueryStats, ProjectStats, LanguageStats, HourlyStats, CHANGE_SOURCE_STORAGE_KEY
+} from './stats';
+import { applyEventToRollups, appendEvents, getJournalDir, getRollups, rebuildRollups, saveRollups } from './journal';
+import { LEGACY_REPO_ID } from './projects';
+
+// Write-ahead entries: everything accepted but not yet flushed to globalState/journal.
+// `seq` orders a window's entries (missing in logs written before it existed).
+type WalEntry =
+    | { kind: 'usage'; seq?: number; event: UsageEvent }
+    | { kind: 'changeSource'; seq?: number; date: string; source: ChangeSource; chars: number };
+
+// Written after the usage entries up to `seq` reached the journal but before the stores were
+// saved, so neither a retry nor crash recovery appends them again
+type WalMarker = { kind: 'journaled'; seq: number };
+
+// Only the keys touched since the last patch, with their full current values
+export interface UsagePatch {
+    usage: DailyStats;
+    tokenQuery: TokenQueryStats;
+    projects: ProjectStats;
+    languages: LanguageStats;
+    hourly: HourlyStats;
+    changeSources: ChangeSourceStats;
+}
+
+export interface UsageBuffer extends vscode.Disposable {
+    addEvent(event: UsageEvent): void;
+    addChangeSource(date: string, source: ChangeSource, chars: number): void;
+    /** Persisted stats plus everything still buffered */
+    getRollups(): UsageRollups;
+    getChangeSources(): ChangeSourceStats;
+    flush(): Promise<void>;
+    /** Re-read the stores after another writer (rebuild, import...) replaced them. Flush first. */
+    reload(): void;
+}
+
+const PATCH_DEBOUNCE_MS = 500;
+// A non-empty WAL untouched for this long belongs to a window that died before flushing
+const ORPHAN_WAL_AGE_MS = 5 * 60 * 1000;
+
+function readWal(file: string): { entries: WalEntry[]; journaledThrough: number } {
+    const entries: WalEntry[] = [];
+    let journaledThrough = -1;
+    for (const line of fs.readFileSync(file, 'utf8').split('\n')) {
+        if (!line.trim()) continue;
+        try {
+            const entry: WalEntry | WalMarker = JSON.parse(line);
+            if (entry.kind === 'journaled') {
+                journaledThrough = Math.max(journaledThrough, entry.seq);
+            } else {
+                entries.push(entry);
+            }
+        } catch (e) { /* torn write at crash time */ }
+    }
+    return { entries, journaledThrough };
+}
+
+function isJournaled(entry: WalEntry, journaledThrough: number): boolean {
+    return entry.kind === 'usage' && entry.seq !== undefined && entry.seq <= journaledThrough;
+}
+
+function copy<T>(value: T): T {
+    return JSON.parse(JSON.stringify(value));
+}
+
+function applyChangeSource(stats: ChangeSourceStats, date: string, source: ChangeSource, chars: number) {
+    if (!stats[date]) stats[date] = {};
+    const entry = stats[date][source] || { changes: 0, chars: 0 };
+    entry.changes++;
+    entry.chars += chars;
+    stats[date][source] = entry;
+}
+
+/**
+ * Replay write-ahead logs left behind by windows that crashed or were killed before flushing.
+ * Call once on startup, before creating this window's buffer.
+ */
+export async function recoverOrphanedBuffers(context: vscode.ExtensionContext): Promise<number> {
+    const dir = getJournalDir(context);
+    const ownWal = `buffer-${vscode.env.sessionId}.wal`;
+    let recovered = 0;
+
+    for (const file of fs.readdirSync(dir)) {
+        if (!file.startsWith('buffer-') || !file.endsWith('.wal') || file === ownWal) continue;
+        const filePath = path.join(dir, file);
+        const stat = fs.statSync(filePath);
+        if (stat.size > 0 && Date.now() - stat.mtimeMs < ORPHAN_WAL_AGE_MS) continue; // another live window
+
+        const { entries, journaledThrough } = readWal(filePath);
+        if (entries.length > 0) {
+            const rollups = getRollups(context);
+            const changeSources: ChangeSourceStats = context.globalState.get(CHANGE_SOURCE_STORAGE_KEY, {});
+            const events: UsageEvent[] = [];
+            for (const entry of entries) {
+                if (isJournaled(entry, journaledThrough)) continue;
+                if (entry.kind === 'usage') {
+                    applyEventToRollups(rollups, entry.event);
+                    events.push(entry.event);
+                } else {
+                    applyChangeSource(changeSources, entry.date, entry.source, entry.chars);
+                }
+            }
+            appendEvents(context, events);
+            await context.globalState.update(CHANGE_SOURCE_STORAGE_KEY, changeSources);
+            // Whether the window saved its journaled entries before it died is unknown; the journal is not
+            if (journaledThrough >= 0) {
+                await rebuildRollups(context);
+            } else {
+                await saveRollups(context, rollups);
+            }
+            recovered += entries.length;
+        }
+        fs.unlinkSync(filePath);
+    }
+
+    if (recovered > 0) console.log('Antigravity Monitor: Recovered', recovered, 'unflushed entries from a previous session');
+    return recovered;
+}
+
+/**
+ * In-memory accumulator for tracked usage. Every entry is appended to a per-window
+ * write-ahead log right away (one small line), while the globalState stores and the
+ * journal are written in batches on a timer, on window blur and on deactivate.
+ * Each flush re-reads the stores and adds only its own entries, so windows flushing
+ * in turn never overwrite each other's totals.
+ *
+ * `onPatch` receives the changed keys (debounced) so the webview doesn't need full resends.
+ */
+export function createUsageBuffer(context: vscode.ExtensionContext, onPatch: (patch: UsagePatch) => void, flushIntervalMs = 10000): UsageBuffer {
+    const walPath = path.join(getJournalDir(context), `buffer-${vscode.env.sessionId}.wal`);
+
+    let pending: WalEntry[] = [];
+    let seq = 0;
+    let flushing: Promise<void> | null = null;
+    // Journaled entries whose rollups failed to save; the next flush rebuilds the rollups from the journal
+    let rebuildNeeded = false;
+
+    // Persisted stats plus everything still pending. globalState hands out its cached objects,
+    // so the view is always a copy; adding to those objects would count the entries again at flush.
+    const withPending = (persisted: UsageRollups, persistedChangeSources: ChangeSourceStats) => {
+        const view = { rollups: copy(persisted), changeSources: copy(persistedChangeSources) };
+        for (const entry of pending) {
+            if (entry.kind === 'usage') {
+                applyEventToRollups(view.rollups, entry.event);
+            } else {
+                applyChangeSource(view.changeSources, entry.date, entry.source, entry.chars);
+            }
+        }
+        return view;
+    };
+
+    let { rollups, changeSources } = withPending(getRollups(context), context.globalState.get(CHANGE_SOURCE_STORAGE_KEY, {}));
+
+    // Keys touched since the last patch was sent
+    const dirtyDates = new Set<string>();
+    const dirtyRepos = new Set<string>();
+    let patchTimer: NodeJS.Timeout | undefined;
+
+    const schedulePatch = () => {
+        if (patchTimer) return;
+        patchTimer = setTimeout(() => {
+            patchTimer = undefined;
+            const patch: UsagePatch = { usage: {}, tokenQuery: {}, projects: {}, languages: {}, hourly: {}, changeSources: {} };
+            for (const date of dirtyDates) {
+                if (rollups.usage[date]) patch.usage[date] = rollups.usage[date];
+                if (rollups.tokenQuery[date]) patch.tokenQuery[date] = rollups.tokenQuery[date];
+                if (rollups.languages[date]) patch.languages[date] = rollups.languages[date];
+                if (rollups.hourly[date]) patch.hourly[date] = rollups.hourly[date];
+                if (changeSources[date]) patch.changeSources[date] = changeSources[date];
+            }
+            for (const repoId of dirtyRepos) {
+                if (rollups.projects[repoId]) patch.projects[repoId] = rollups.projects[repoId];
+            }
+            dirtyDates.clear();
+            dirtyRepos.clear();
+            onPatch(patch);
+        }, PATCH_DEBOUNCE_MS);
+    };
+
+    const accept = (entry: WalEntry) => {
+        entry.seq = seq++;
+        fs.appendFileSync(walPath, JSON.stringify(entry) + '\n');
+        pending.push(entry);
+    };
+
+    const doFlush = async () => {
+        if (pending.length === 0 && !rebuildNeeded) return;
+        const batch = pending;
+        pending = [];
+        const usage = batch.filter(e => e.kind === 'usage');
+        const sources = batch.filter(e => e.kind === 'changeSource');
+
+        try {
+            appendEvents(context, usage.map(e => e.event));
+        } catch (e: any) {
+            console.log('Antigravity Monitor: Flush failed, will retry:', e?.message || e);
+            pending = batch.concat(pending);
+            return;
+        }
+        if (usage.length > 0) fs.appendFileSync(walPath, JSON.stringify({ kind: 'journaled', seq: usage[usage.length - 1].seq } as WalMarker) + '\n');
+
+        // From here on the usage entries are in the journal: on failure only the change sources are retried
+        let persisted: UsageRollups;
+        try {
+            if (rebuildNeeded) {
+                persisted = await rebuildRollups(context);
+                rebuildNeeded = false;
+            } else {
+                persisted = copy(getRollups(context));
+                for (const entry of usage) applyEventToRollups(persisted, entry.event);
+                await saveRollups(context, persisted);
+            }
+        } catch (e: any) {
+            console.log('Antigravity Monitor: Saving stats failed, will rebuild them from the journal:', e?.message || e);
+            rebuildNeeded = true;
+            pending = [...sources, ...pending];
+            return;
+        }
+
+        const persistedChangeSources: ChangeSourceStats = copy(context.globalState.get(CHANGE_SOURCE_STORAGE_KEY, {}));
+        try {
+            for (const entry of sources) {
+                applyChangeSource(persistedChangeSources, entry.date, entry.source, entry.chars);
+            }
+            await context.globalState.update(CHANGE_SOURCE_STORAGE_KEY, persistedChangeSources);
+        } catch (e: any) {
+            console.log('Antigravity Monitor: Saving change sources failed, will retry:', e?.message || e);
+            pending = [...sources, ...pending];
+            return;
+        }
+
+        // Keep only what arrived while we were writing, and pick up what other windows flushed meanwhile
+        fs.writeFileSync(walPath, pending.map(e => JSON.stringify(e) + '\n').join(''));
+        ({ rollups, changeSources } = withPending(persisted, persistedChangeSources));
+    };
+
+    const flush = async () => {
+        while (flushing) await flushing;
+        flushing = doFlush().finally(() => { flushing = null; });
+        return flushing;
+    };
+
+    const timer = setInterval(() => { flush(); }, flushIntervalMs);
+    const blurListener = vscode.window.onDidChangeWindowState((state) => {
+        if (!state.focused) flush();
+    });
+
+    return {
+        addEvent(event) {
+            accept({ kind: 'usage', event });
+            applyEventToRollups(rollups, event);
+            dirtyDates.add(event.date);
+            if (event.branch) dirtyRepos.add(event.repoId || LEGACY_REPO_ID);
+            schedulePatch();
+        },
+        addChangeSource(date, source, chars) {
+            accept({ kind: 'changeSource', date, source, chars });
+            applyChangeSource(changeSources, date, source, chars);
+            dirtyDates.add(date);
+            schedulePatch();
+        },
+        getRollups: () => rollups,
+        getChangeSources: () => changeSources,
+        flush,
+        reload() {
+            ({ rollups, changeSources } = withPending(getRollups(context), context.globalState.get(CHANGE_SOURCE_STORAGE_KEY, {})));
+        },
+        dispose() {
+            clearInterval(timer);
+            if (patchTimer) clearTimeout(patchTimer);
+            blurListener.dispose();
+        }
+    };
+}
@@ -0,0 +1,206 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import { LanguageServerClient, LanguageServerError, UserStatusResponse } from './languageServer';
+import { resolveModelName } from './models';
+import { UsageEvent } from './stats';
+import { toDateKey, toHour } from './time';
+
+// Where counters were kept before they moved to COUNTERS_FILE; read once as the first baseline
+const COUNTERS_STORAGE_KEY = 'antigravity.measuredCounters';
+// Last counters seen by any window, and the lock a window holds while it polls and journals the delta
+const COUNTERS_FILE = 'measured-counters.json';
+const POLL_LOCK_FILE = 'measured-counters.lock';
+// A lock this old was left by a window that died mid-poll
+const STALE_LOCK_MS = 60 * 1000;
+export const QUOTA_STORAGE_KEY = 'model_quota_stats';
+
+export interface ModelCounters {
+    inputTokens: number;
+    outputTokens: number;
+}
+
+export interface ModelQuota {
+    remainingFraction: number;
+    resetTime?: string;
+    updatedAt: string;
+}
+
+export interface ModelStatus {
+    model: string;
+    counters?: ModelCounters;
+    quota?: ModelQuota;
+}
+
+// proto3 JSON encodes int64 as strings, so accept both
+function toNumber(value: string | number | undefined): number {
+    const n = typeof value === 'string' ? parseInt(value, 10) : value;
+    return typeof n === 'number' && isFinite(n) ? n : 0;
+}
+
+/**
+ * Extract per-model usage counters and quota from a GetUserStatus response.
+ * Counters are cumulative for the current quota window.
+ */
+export function parseUserStatus(data: UserStatusResponse): ModelStatus[] {
+    const configs = data?.userStatus?.cascadeModelConfigData?.clientModelConfigs || [];
+    const result: ModelStatus[] = [];
+
+    for (const cfg of configs) {
+        const rawModel = cfg?.label || cfg?.modelOrAlias?.model;
+        if (!rawModel) continue;
+        const model = resolveModelName(rawModel);
+
+        const status: ModelStatus = { model };
+        const usage = cfg.usage || cfg.tokenUsage;
+        if (usage) {
+            status.counters = {
+                inputTokens: toNumber(usage.inputTokens),
+                outputTokens: toNumber(usage.outputTokens)
+            };
+        }
+        if (cfg.quotaInfo && cfg.quotaInfo.remainingFraction !== undefined) {
+            status.quota = {
+                remainingFraction: Number(cfg.quotaInfo.remainingFraction),
+                resetTime: cfg.quotaInfo.resetTime,
+                updatedAt: new Date().toISOString()
+            };
+        }
+        result.push(status);
+    }
+    return result;
+}
+
+/**
+ * Journal measured token deltas, bucketed at poll time. The first measured sample of a day replaces
+ * that day's character-based estimate (see applyEventToRollups).
+ */
+export function applyMeasuredUsage(record: (event: UsageEvent) => void, deltas: { [model: string]: ModelCounters }, now: Date = new Date()) {
+    const ts = now.toISOString();
+    const date = toDateKey(now);
+    const hour = toHour(now);
+    for (const [model, { inputTokens, outputTokens }] of Object.entries(deltas)) {
+        record({ ts, date, hour, model, chars: 0, inputTokens, outputTokens, source: 'measured' });
+    }
+}
+
+/**
+ * Take the poll lock, or return null when another window holds it. Every window polls, but only one at a
+ * time, so each starts from the counters the previous poll wrote and no delta is journaled twice.
+ */
+function acquirePollLock(dir: string): string | null {
+    const lock = path.join(dir, POLL_LOCK_FILE);
+    for (let attempt = 0; attempt < 2; attempt++) {
+        try {
+            fs.closeSync(fs.openSync(lock, 'wx'));
+            return lock;
+        } catch (e: any) {
+            if (e?.code !== 'EEXIST') throw e;
+            try {
+                if (Date.now() - fs.statSync(lock).mtimeMs < STALE_LOCK_MS) return null;
+                fs.unlinkSync(lock);
+            } catch {
+                // Released meanwhile; try again
+            }
+        }
+    }
+    return null;
+}
+
+function readCounters(context: vscode.ExtensionContext, file: string): { [model: string]: ModelCounters } | undefined {
+    try {
+        return JSON.parse(fs.readFileSync(file, 'utf8'));
+    } catch (e) {
+        return context.globalState.get<{ [model: string]: ModelCounters }>(COUNTERS_STORAGE_KEY);
+    }
+}
+
+/**
+ * Poll the language server once. Returns false when the server could not be reached, or another
+ * window is polling right now.
+ */
+export async function pollUsage(context: vscode.ExtensionContext, client: LanguageServerClient, record: (event: UsageEvent) => void): Promise<boolean> {
+    const dir = context.globalStorageUri.fsPath;
+    fs.mkdirSync(dir, { recursive: true });
+    const lock = acquirePollLock(dir);
+    if (!lock) return false;
+    try {
+        return await pollLocked(context, client, record, path.join(dir, COUNTERS_FILE));
+    } finally {
+        fs.rmSync(lock, { force: true });
+    }
+}
+
+async function pollLocked(context: vscode.ExtensionContext, client: LanguageServerClient, record: (event: UsageEvent) => void, countersFile: string): Promise<boolean> {
+    let data: UserStatusResponse;
+    try {
+        data = await client.getUserStatus();
+    } catch (e: any) {
+        // Not running is the normal state outside Antigravity; don't log it every poll
+        if (!(e instanceof LanguageServerError && e.code === 'not_running')) console.log('Antigravity Monitor: Usage poll failed:', e?.message || e);
+        return false;
+    }
+
+    const statuses = parseUserStatus(data);
+
+    const quota: { [model: string]: ModelQuota } = context.globalState.get(QUOTA_STORAGE_KEY, {});
+    for (const s of statuses) {
+        if (s.quota) quota[s.model] = s.quota;
+    }
+    context.globalState.update(QUOTA_STORAGE_KEY, quota);
+
+    const previous = readCounters(context, countersFile);
+    const current: { [model: string]: ModelCounters } = {};
+    for (const s of statuses) {
+        if (s.counters) current[s.model] = s.counters;
+    }
+
+    // First successful poll only establishes a baseline: we can't tell when earlier usage happened
+    if (previous) {
+        const deltas: { [model: string]: ModelCounters } = {};
+        for (const [model, cur] of Object.entries(current)) {
+            const prev = previous[model] || { inputTokens: 0, outputTokens: 0 };
+            // Counters drop back when the quota window resets
+            const reset = cur.inputTokens < prev.inputTokens || cur.outputTokens < prev.outputTokens;
+            const inputTokens = reset ? cur.inputTokens : cur.inputTokens - prev.inputTokens;
+            const outputTokens = reset ? cur.outputTokens : cur.outputTokens - prev.outputTokens;
+            if (inputTokens > 0 || outputTokens > 0) {
+                deltas[model] = { inputTokens, outputTokens };
+            }
+        }
+        applyMeasuredUsage(record, deltas);
+    }
+
+    fs.writeFileSync(countersFile + '.tmp', JSON.stringify(current));
+    fs.renameSync(countersFile + '.tmp', countersFile);
+    return true;
+}
+
+/**
+ * Periodically poll the Antigravity language server for real per-model usage.
+ * Measured deltas are handed to `record`; `onUpdate` runs after every successful poll so the UI can refresh.
+ */
+export function startUsageCollector(context: vscode.ExtensionContext, client: LanguageServerClient, record: (event: UsageEvent) => void, onUpdate: () => void): vscode.Disposable {
+    const config = vscode.workspace.getConfiguration('antigravity');
+    if (!config.get<boolean>('usageCollector.enabled', true)) {
+        return { dispose: () => {} };
+    }
+    const intervalMs = Math.max(15, config.get<number>('usageCollector.pollIntervalSeconds', 60)) * 1000;
+
+    let polling = false;
+
+    const tick = async () => {
+        if (polling) return;
+        polling = true;
+        try {
+            // The client rediscovers the server when it restarts
+            if (await pollUsage(context, client, record)) onUpdate();
+        } finally {
+            polling = false;
+        }
+    };
+
+    tick();
+    const timer = setInterval(tick, intervalMs);
+    return { dispose: () => clearInterval(timer) };
+}